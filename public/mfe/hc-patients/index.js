@@ -3,6 +3,17 @@
  * Patient list with search and filtering
  */
 
+const SAMPLE_PATIENTS = [
+    { id: 'P001', name: 'John Smith', age: 45, gender: 'Male', phone: '(555) 123-4567', condition: 'Hypertension', status: 'Active', lastVisit: '2024-01-15' },
+    { id: 'P002', name: 'Emma Wilson', age: 32, gender: 'Female', phone: '(555) 234-5678', condition: 'Diabetes Type 2', status: 'Active', lastVisit: '2024-01-14' },
+    { id: 'P003', name: 'Michael Brown', age: 58, gender: 'Male', phone: '(555) 345-6789', condition: 'Arthritis', status: 'Active', lastVisit: '2024-01-12' },
+    { id: 'P004', name: 'Sarah Davis', age: 28, gender: 'Female', phone: '(555) 456-7890', condition: 'Pregnancy', status: 'Active', lastVisit: '2024-01-10' },
+    { id: 'P005', name: 'James Johnson', age: 67, gender: 'Male', phone: '(555) 567-8901', condition: 'Heart Disease', status: 'Critical', lastVisit: '2024-01-16' },
+    { id: 'P006', name: 'Lisa Anderson', age: 41, gender: 'Female', phone: '(555) 678-9012', condition: 'Asthma', status: 'Active', lastVisit: '2024-01-08' },
+    { id: 'P007', name: 'Robert Taylor', age: 53, gender: 'Male', phone: '(555) 789-0123', condition: 'Back Pain', status: 'Inactive', lastVisit: '2023-12-20' },
+    { id: 'P008', name: 'Jennifer Martinez', age: 35, gender: 'Female', phone: '(555) 890-1234', condition: 'Migraine', status: 'Active', lastVisit: '2024-01-11' },
+];
+
 export function mount(container, { deps, eventBus, config }) {
     const { React, ReactDOM } = deps;
     const { useState } = React;
@@ -10,22 +21,16 @@ export function mount(container, { deps, eventBus, config }) {
 
     // Define component inside to close over deps
     function Patients() {
-        const [searchTerm, setSearchTerm] = useState('');
-        const [patients] = useState([
-            { id: 'P001', name: 'John Smith', age: 45, gender: 'Male', phone: '(555) 123-4567', condition: 'Hypertension', status: 'Active', lastVisit: '2024-01-15' },
-            { id: 'P002', name: 'Emma Wilson', age: 32, gender: 'Female', phone: '(555) 234-5678', condition: 'Diabetes Type 2', status: 'Active', lastVisit: '2024-01-14' },
-            { id: 'P003', name: 'Michael Brown', age: 58, gender: 'Male', phone: '(555) 345-6789', condition: 'Arthritis', status: 'Active', lastVisit: '2024-01-12' },
-            { id: 'P004', name: 'Sarah Davis', age: 28, gender: 'Female', phone: '(555) 456-7890', condition: 'Pregnancy', status: 'Active', lastVisit: '2024-01-10' },
-            { id: 'P005', name: 'James Johnson', age: 67, gender: 'Male', phone: '(555) 567-8901', condition: 'Heart Disease', status: 'Critical', lastVisit: '2024-01-16' },
-            { id: 'P006', name: 'Lisa Anderson', age: 41, gender: 'Female', phone: '(555) 678-9012', condition: 'Asthma', status: 'Active', lastVisit: '2024-01-08' },
-            { id: 'P007', name: 'Robert Taylor', age: 53, gender: 'Male', phone: '(555) 789-0123', condition: 'Back Pain', status: 'Inactive', lastVisit: '2023-12-20' },
-            { id: 'P008', name: 'Jennifer Martinez', age: 35, gender: 'Female', phone: '(555) 890-1234', condition: 'Migraine', status: 'Active', lastVisit: '2024-01-11' },
-        ]);
+        // Routes can map a query parameter to `search`, e.g. /patients?q=smith
+        const [searchTerm, setSearchTerm] = useState(typeof config.search === 'string' ? config.search : '');
+        // Rows come from the slot's `patients` data source; the sample list is the offline default
+        const patients = Array.isArray(config.patients) ? config.patients : SAMPLE_PATIENTS;
+        const patientsError = config.dataStatus?.patients?.status === 'error' ? config.dataStatus.patients.error : null;
 
         const filteredPatients = patients.filter(p =>
-            p.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-            p.condition.toLowerCase().includes(searchTerm.toLowerCase()) ||
-            p.id.toLowerCase().includes(searchTerm.toLowerCase())
+            String(p.name || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
+            String(p.condition || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
+            String(p.id || '').toLowerCase().includes(searchTerm.toLowerCase())
         );
 
         const statusColors = {
@@ -57,6 +62,10 @@ export function mount(container, { deps, eventBus, config }) {
                 }, '+ Add Patient')
             ),
 
+            patientsError && h('div', {
+                style: { padding: '0.75rem 1rem', marginBottom: '1rem', background: '#fef2f2', color: '#991b1b', border: '1px solid #fecaca', borderRadius: '8px' }
+            }, `Could not load patients: ${patientsError}. Showing sample data.`),
+
             // Search & Filters
             h('div', {
                 style: {
@@ -131,6 +140,7 @@ export function mount(container, { deps, eventBus, config }) {
                             h('tr', {
                                 key: patient.id,
                                 style: { borderTop: '1px solid #e2e8f0', cursor: 'pointer' },
+                                onClick: () => eventBus && eventBus.emit('patient-selected', { id: patient.id, name: patient.name }),
                                 onMouseEnter: (e) => e.currentTarget.style.background = '#f8fafc',
                                 onMouseLeave: (e) => e.currentTarget.style.background = 'white'
                             },
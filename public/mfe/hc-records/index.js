@@ -5,12 +5,19 @@
 
 export function mount(container, { deps, eventBus, config }) {
     const { React, ReactDOM } = deps;
-    const { useState } = React;
+    const { useState, useEffect } = React;
     const h = React.createElement;
 
     // Define component inside to close over deps
     function MedicalRecords() {
         const [selectedCategory, setSelectedCategory] = useState('all');
+        const [selectedPatient, setSelectedPatient] = useState(null);
+
+        // Follow the patient picked in the patients MFE (replayed if it was picked before we mounted)
+        useEffect(() => {
+            if (!eventBus) return;
+            return eventBus.on('hc-patients:patient-selected', setSelectedPatient);
+        }, []);
 
         const [records] = useState([
             { id: 'R001', patient: 'John Smith', type: 'Lab Results', category: 'lab', date: '2024-01-15', doctor: 'Dr. Smith', status: 'Final' },
@@ -31,9 +38,9 @@ export function mount(container, { deps, eventBus, config }) {
             { id: 'notes', label: 'Notes', icon: '📝', count: records.filter(r => r.category === 'notes').length }
         ];
 
-        const filteredRecords = selectedCategory === 'all'
-            ? records
-            : records.filter(r => r.category === selectedCategory);
+        const filteredRecords = records
+            .filter(r => selectedCategory === 'all' || r.category === selectedCategory)
+            .filter(r => !selectedPatient || r.patient === selectedPatient.name);
 
         const statusColors = {
             'Final': { bg: '#dcfce7', text: '#166534' },
@@ -56,7 +63,7 @@ export function mount(container, { deps, eventBus, config }) {
             h('div', { style: { display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1.5rem' } },
                 h('div', null,
                     h('h1', { style: { fontSize: '1.75rem', fontWeight: '700', color: '#1e3a5f', margin: 0 } }, 'Medical Records'),
-                    h('p', { style: { color: '#64748b', marginTop: '0.25rem' } }, 'View and manage patient records')
+                    h('p', { style: { color: '#64748b', marginTop: '0.25rem' } }, selectedPatient ? `Records for ${selectedPatient.name}` : 'View and manage patient records')
                 ),
                 h('button', {
                     style: {
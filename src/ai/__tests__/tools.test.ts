@@ -0,0 +1,61 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AITools } from '../tools';
+import { PlatformDB } from '../../db/platform';
+import { initTenantDB } from '../../db/tenant';
+import { BlueprintValidationError, validateUISchema } from '../../security/validator';
+
+vi.mock('../../db/platform', () => ({
+    PlatformDB: {
+        getLatestBlueprint: vi.fn(),
+        saveBlueprint: vi.fn(() => ({ version: 3 }))
+    }
+}));
+
+vi.mock('../../db/tenant', () => ({
+    initTenantDB: vi.fn()
+}));
+
+const dataSchema = { tables: { patients: { columns: { name: 'text' } } } };
+
+describe('updateDatabaseSchema', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should refuse to save the schema over a legacy layout and report why it does not render', async () => {
+        const legacy = { components: [{ kind: 'table' }] };
+        const validation = validateUISchema(legacy);
+        vi.mocked(PlatformDB.getLatestBlueprint).mockReturnValue({ ui_schema: JSON.stringify(legacy), data_schema: '{}' } as any);
+        vi.mocked(PlatformDB.saveBlueprint).mockImplementationOnce(() => {
+            if (validation.success) throw new Error('legacy layout should be invalid');
+            throw new BlueprintValidationError(validation.error, validation.issues);
+        });
+
+        const result = await AITools.updateDatabaseSchema('p1', dataSchema);
+
+        expect(result).toMatchObject({
+            success: false,
+            error: expect.stringContaining('UI layout is invalid'),
+            data: { issues: expect.arrayContaining([expect.anything()]) }
+        });
+        expect(PlatformDB.saveBlueprint).toHaveBeenCalledWith('p1', legacy, dataSchema);
+    });
+
+    it('should save the schema with the current layout as a draft', async () => {
+        vi.mocked(PlatformDB.getLatestBlueprint).mockReturnValue(undefined as any);
+
+        const result = await AITools.updateDatabaseSchema('p1', dataSchema);
+
+        expect(result).toEqual({ success: true, data: { message: expect.stringContaining('draft blueprint v3'), version: 3 } });
+        expect(PlatformDB.saveBlueprint).toHaveBeenCalledWith('p1', {}, dataSchema);
+    });
+
+    it('should leave the live tenant database alone until the draft is published', async () => {
+        vi.mocked(PlatformDB.getLatestBlueprint).mockReturnValue(undefined as any);
+
+        await AITools.updateDatabaseSchema('p1', dataSchema);
+
+        expect(initTenantDB).not.toHaveBeenCalled();
+    });
+});
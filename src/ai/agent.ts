@@ -2,6 +2,7 @@
 import { AITools } from './tools';
 import { FileSystem } from '../db/fs';
 import { ARCHITECT_PROMPT, ENGINEER_PROMPT } from './system';
+import { NavigationJSONSchema, UISchemaJSONSchema } from '../security/validator';
 
 // Mock OpenAI Response Structure
 interface AIResponse {
@@ -45,23 +46,48 @@ const DEFINE_ROUTE_TOOL = {
     type: 'function',
     function: {
         name: 'defineRoute',
-        description: 'Maps a URL path to a Micro-Frontend (MFE).',
+        description: 'Maps a URL path pattern to a Micro-Frontend (MFE) in the project route table.',
         parameters: {
             type: 'object',
             properties: {
-                path: { type: 'string', description: 'The URL path (e.g., /checkout)' },
-                mfeName: { type: 'string', description: 'The name of the MFE to render (e.g., CheckoutMFE)' }
+                path: { type: 'string', description: 'The URL path pattern (e.g., /checkout or /orders/:orderId)' },
+                mfeName: { type: 'string', description: 'The name of the MFE to render (e.g., CheckoutMFE)' },
+                access: {
+                    type: 'object',
+                    description: 'Who may open the page. Any declared rule requires sign-in; omit for public pages.',
+                    properties: {
+                        roles: { type: 'array', items: { type: 'string' }, description: 'Any one of these roles is enough (e.g., developer, viewer)' },
+                        permissions: { type: 'array', items: { type: 'string' }, description: 'All of these permissions are required (e.g., project:read)' },
+                        redirect: { type: 'string', description: 'Sign-in path for anonymous visitors (e.g., /login)' }
+                    }
+                }
             },
             required: ['path', 'mfeName']
         }
     }
 };
 
+const TRANSLATIONS_TOOL = {
+    type: 'function',
+    function: {
+        name: 'updateTranslations',
+        description: 'Creates or replaces the translation catalog of one locale. Blueprint nodes read it with { source: "messages", path: "group.key" } bindings.',
+        parameters: {
+            type: 'object',
+            properties: {
+                locale: { type: 'string', description: 'Language tag (e.g., en, ar, pt-BR)' },
+                messages: { type: 'object', description: 'Messages keyed by name; values are strings or nested groups' }
+            },
+            required: ['locale', 'messages']
+        }
+    }
+};
+
 const DB_TOOL = {
     type: 'function',
     function: {
         name: 'updateDatabaseSchema',
-        description: 'Updates the SQLite database schema.',
+        description: 'Updates the SQLite database schema. It is saved as a draft blueprint; the tables are created when the draft is published.',
         parameters: {
             type: 'object',
             properties: {
@@ -96,6 +122,38 @@ const DB_TOOL = {
     }
 };
 
+const UI_LAYOUT_TOOL = {
+    type: 'function',
+    function: {
+        name: 'updateUILayout',
+        description: 'Saves the SDUI layout as a new draft blueprint and returns a preview link; a reviewer publishes it. Invalid trees are rejected with per-node error paths.',
+        parameters: {
+            type: 'object',
+            properties: {
+                uiSchema: { $ref: '#/definitions/UISchema' }
+            },
+            required: ['uiSchema'],
+            definitions: UISchemaJSONSchema.definitions
+        }
+    }
+};
+
+const NAVIGATION_TOOL = {
+    type: 'function',
+    function: {
+        name: 'updateNavigation',
+        description: 'Replaces the navigation (menus, breadcrumbs, shell layout) of the newest blueprint and saves it as a new draft with a preview link. Omit menus.primary to derive the main menu from the route table.',
+        parameters: {
+            type: 'object',
+            properties: {
+                navigation: { $ref: '#/definitions/Navigation' }
+            },
+            required: ['navigation'],
+            definitions: NavigationJSONSchema.definitions
+        }
+    }
+};
+
 const BACKEND_TOOL = {
     type: 'function',
     function: {
@@ -121,7 +179,25 @@ const FRONTEND_TOOL = {
             type: 'object',
             properties: {
                 name: { type: 'string', description: 'Component name' },
-                code: { type: 'string', description: 'React component code (TSX)' }
+                code: { type: 'string', description: 'React component code (TSX)' },
+                encapsulation: { type: 'string', enum: ['none', 'shadow'], description: "'shadow' renders the component in a shadow root, isolating its styles from the page." },
+                props: {
+                    type: 'object',
+                    description: 'Props a page may configure, keyed by prop name. The page composer generates its forms from these.',
+                    additionalProperties: {
+                        type: 'object',
+                        properties: {
+                            type: { type: 'string', enum: ['string', 'number', 'boolean', 'array', 'object'] },
+                            title: { type: 'string' },
+                            description: { type: 'string' },
+                            enum: { type: 'array', items: { type: ['string', 'number'] } },
+                            format: { type: 'string', enum: ['multiline', 'color', 'url'] },
+                            required: { type: 'boolean' },
+                            default: {}
+                        },
+                        required: ['type']
+                    }
+                }
             },
             required: ['name', 'code']
         }
@@ -209,7 +285,10 @@ const ARCHITECT_TOOLS = [READ_CONTEXT_TOOL, WRITE_DESIGN_TOOL, ...GENERIC_TOOLS]
 const ENGINEER_TOOLS = [
     READ_CONTEXT_TOOL,
     DEFINE_ROUTE_TOOL,
+    TRANSLATIONS_TOOL,
     DB_TOOL,
+    UI_LAYOUT_TOOL,
+    NAVIGATION_TOOL,
     BACKEND_TOOL,
     FRONTEND_TOOL,
     ...GENERIC_TOOLS
@@ -426,16 +505,25 @@ export const EngineerAgent = {
                             result = await AITools.readProjectContext(projectId);
                             break;
                         case 'defineRoute':
-                            result = await AITools.defineRoute(projectId, args.path, args.mfeName);
+                            result = await AITools.defineRoute(projectId, args.path, args.mfeName, args.access);
+                            break;
+                        case 'updateTranslations':
+                            result = await AITools.updateTranslations(projectId, args.locale, args.messages);
                             break;
                         case 'updateDatabaseSchema':
                             result = await AITools.updateDatabaseSchema(projectId, args.schema);
                             break;
+                        case 'updateUILayout':
+                            result = await AITools.updateUILayout(projectId, args.uiSchema);
+                            break;
+                        case 'updateNavigation':
+                            result = await AITools.updateNavigation(projectId, args.navigation);
+                            break;
                         case 'createBackendFunction':
                             result = await AITools.createBackendFunction(projectId, args.name, args.code);
                             break;
                         case 'createFrontendComponent':
-                            result = await AITools.createFrontendComponent(projectId, args.name, args.code);
+                            result = await AITools.createFrontendComponent(projectId, args.name, args.code, args.props, args.encapsulation);
                             break;
                         case 'writeDesignDocument':
                             result = await AITools.writeDesignDocument(projectId, args.path, args.content);
@@ -1,12 +1,15 @@
 
 import { PlatformDB } from '../db/platform';
 import { FileSystem, validateProjectId } from '../db/fs';
-import { initTenantDB } from '../db/tenant';
 import { buildMFE } from '../platform/bundler';
+import { describeManifest } from '../platform/build-manifest';
+import { tenantMFEName } from '../platform/tenancy';
 import fissionClient from '../dashboard/lib/fission-client';
 import mfeManager from '../dashboard/lib/mfe-manager';
 import { agentMemory } from './memory';
 import { analyzeGeneratedCode } from '../security/analyzer';
+import { BlueprintValidationError, RouteDefinitionSchema, LocaleSchema, MFEPropsSchema, NavigationSchema, TranslationMessagesSchema } from '../security/validator';
+import { signPreviewToken } from '../auth/preview';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import path from 'path';
@@ -68,28 +71,17 @@ export const AITools = {
     },
 
     /**
-     * Defines a route connecting a path to an MFE
+     * Defines a route connecting a path pattern to an MFE in the project route table.
+     * `access` restricts the page to signed-in users with the given roles or permissions.
      */
-    defineRoute: async (projectId: string, path: string, mfeName: string): Promise<ToolResult> => {
+    defineRoute: async (projectId: string, path: string, mfeName: string, access?: unknown): Promise<ToolResult> => {
         try {
-            // For now, we'll store routes in a simple JSON file or DB
-            // Assuming PlatformDB has a way to store routes or we use a `routes.json` file
-            const routesFile = 'routes.json';
-            let routes: Record<string, any> = {};
-
-            try {
-                const content = await FileSystem.readFile(projectId, routesFile);
-                routes = JSON.parse(content);
-            } catch (e) {
-                // File doesn't exist yet, start empty
+            const validation = RouteDefinitionSchema.safeParse({ pattern: path, mfe: mfeName, ...(access ? { access } : {}) });
+            if (!validation.success) {
+                return { success: false, error: validation.error.errors[0].message };
             }
 
-            routes[path] = {
-                mfe: mfeName,
-                updatedAt: new Date().toISOString()
-            };
-
-            await FileSystem.writeFile(projectId, routesFile, JSON.stringify(routes, null, 2));
+            PlatformDB.saveRoute(projectId, validation.data);
             return { success: true, data: { message: `Route ${path} -> ${mfeName} defined` } };
         } catch (e: any) {
             return { success: false, error: e.message };
@@ -97,20 +89,99 @@ export const AITools = {
     },
 
     /**
-     * Updates the database schema for the project
+     * Creates or replaces the translation catalog of one locale
+     */
+    updateTranslations: async (projectId: string, locale: string, messages: unknown): Promise<ToolResult> => {
+        try {
+            const localeValidation = LocaleSchema.safeParse(locale);
+            if (!localeValidation.success) {
+                return { success: false, error: localeValidation.error.errors[0].message };
+            }
+            const validation = TranslationMessagesSchema.safeParse(messages);
+            if (!validation.success) {
+                return { success: false, error: validation.error.errors[0].message };
+            }
+
+            PlatformDB.saveTranslations(projectId, localeValidation.data, validation.data);
+            return { success: true, data: { message: `Translations for ${locale} saved` } };
+        } catch (e: any) {
+            return { success: false, error: e.message };
+        }
+    },
+
+    /**
+     * Updates the database schema for the project. It is saved with a draft
+     * blueprint; the tenant tables are created when that version is published.
      */
     updateDatabaseSchema: async (projectId: string, schema: any): Promise<ToolResult> => {
         try {
-            // Update Platform Metadata
-            const currentBp = PlatformDB.getActiveBlueprint(projectId);
+            // Build on the newest version, which may be an unpublished draft
+            const currentBp = PlatformDB.getLatestBlueprint(projectId);
             // Default to empty object if no blueprint exists yet
             const uiSchema = currentBp ? JSON.parse(currentBp.ui_schema) : {};
 
-            PlatformDB.saveBlueprint(projectId, uiSchema, schema);
+            const blueprint = PlatformDB.saveBlueprint(projectId, uiSchema, schema);
+            return {
+                success: true,
+                data: {
+                    message: `Schema saved as draft blueprint v${blueprint.version}; its tables are created when it is published.`,
+                    version: blueprint.version
+                }
+            };
+        } catch (e: any) {
+            if (e instanceof BlueprintValidationError) {
+                // Layouts stored before validation may not pass it; they must be fixed first
+                return {
+                    success: false,
+                    error: `The current UI layout is invalid (${e.message}); fix it with updateUILayout, then update the schema again.`,
+                    data: { issues: e.issues }
+                };
+            }
+            return { success: false, error: e.message };
+        }
+    },
 
-            // Apply to Tenant DB
-            initTenantDB(projectId, schema);
-            return { success: true, data: { message: 'Schema updated' } };
+    /**
+     * Replaces the SDUI layout (ui_schema) of the project blueprint
+     */
+    updateUILayout: async (projectId: string, uiSchema: unknown): Promise<ToolResult> => {
+        try {
+            const currentBp = PlatformDB.getLatestBlueprint(projectId);
+            const dataSchema = currentBp ? JSON.parse(currentBp.data_schema) : {};
+
+            // Agents only write drafts; a reviewer publishes them
+            const blueprint = PlatformDB.saveBlueprint(projectId, uiSchema, dataSchema);
+            const previewUrl = `/app/?preview=${signPreviewToken({ projectId, version: blueprint.version })}`;
+            return {
+                success: true,
+                data: {
+                    message: `UI layout saved as draft blueprint v${blueprint.version}. Preview: ${previewUrl}`,
+                    version: blueprint.version,
+                    previewUrl
+                }
+            };
+        } catch (e: any) {
+            if (e instanceof BlueprintValidationError) {
+                // Hand the per-node paths back so the agent can fix the tree
+                return { success: false, error: e.message, data: { issues: e.issues } };
+            }
+            return { success: false, error: e.message };
+        }
+    },
+
+    /**
+     * Replaces the navigation section of the newest blueprint, saved as a new draft like updateUILayout
+     */
+    updateNavigation: async (projectId: string, navigation: unknown): Promise<ToolResult> => {
+        try {
+            const validation = NavigationSchema.safeParse(navigation);
+            if (!validation.success) {
+                return { success: false, error: validation.error.errors[0].message };
+            }
+
+            const currentBp = PlatformDB.getLatestBlueprint(projectId);
+            const uiSchema = currentBp ? JSON.parse(currentBp.ui_schema) : {};
+            return AITools.updateUILayout(projectId, { ...uiSchema, navigation: validation.data });
         } catch (e: any) {
             return { success: false, error: e.message };
         }
@@ -150,26 +221,42 @@ export const AITools = {
     },
 
     /**
-     * Creates or updates a Frontend MFE Component
+     * Creates or updates a Frontend MFE Component.
+     * `props` declares what pages may configure through `variables`;
+     * `encapsulation: 'shadow'` mounts it in a shadow root with its stylesheet.
+     * Tenant builds are never server rendered (see platform/ssr).
      */
-    createFrontendComponent: async (projectId: string, name: string, code: string): Promise<ToolResult> => {
+    createFrontendComponent: async (projectId: string, name: string, code: string, props?: unknown, encapsulation?: unknown): Promise<ToolResult> => {
         try {
+            const propsValidation = MFEPropsSchema.optional().safeParse(props);
+            if (!propsValidation.success) {
+                return { success: false, error: propsValidation.error.errors[0].message };
+            }
+            if (encapsulation !== undefined && encapsulation !== 'shadow' && encapsulation !== 'none') {
+                return { success: false, error: "encapsulation must be 'shadow' or 'none'" };
+            }
+
             const fileName = `frontend/${name}.tsx`;
             await FileSystem.writeFile(projectId, fileName, code);
 
             // Auto-build (Local esbuild)
             try {
-                await buildMFE(projectId, name);
+                const { file, stylesheet, shared, dependencies, manifest } = await buildMFE(projectId, name);
 
-                // SYNC: Register with Master App MFE Registry
-                // Assuming the user's API serves it at /api/mfe/:projectId/:name.js
-                const publicUrl = `/api/mfe/${projectId}/${name}.js`;
-                await mfeManager.registerMFE(name, publicUrl, {
+                // SYNC: Register with Master App MFE Registry, namespaced to the project
+                // Served at /api/mfe/:projectId/:name.<hash>.js, cached as immutable
+                const publicUrl = `/api/mfe/${projectId}/${file}`;
+                await mfeManager.registerMFE(tenantMFEName(projectId, name), publicUrl, {
                     active: true,
+                    props: propsValidation.data,
+                    shared,
+                    dependencies,
+                    styles: stylesheet ? `/api/mfe/${projectId}/${stylesheet}` : undefined,
+                    encapsulation,
                     description: `Generated by AI for project ${projectId}`
                 });
 
-                return { success: true, data: { message: `Component ${name} created, built, and registered` } };
+                return { success: true, data: { message: `Component ${name} created, built, and registered. Bundle: ${describeManifest(manifest)}` } };
             } catch (buildError: any) {
                 return { success: true, data: { message: `Component ${name} created but build/registration failed: ${buildError.message}` } };
             }
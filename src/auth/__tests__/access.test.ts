@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { authenticatePage, checkAccess, signInRedirect, AUTH_COOKIE } from '../access';
+import { signJWT } from '../jwt';
+import type { AuthContext } from '../../types/auth';
+
+function user(...roles: string[]): AuthContext {
+    return { userId: 'u1', roles, sessionId: 's1', expiresAt: Date.now() + 60_000 };
+}
+
+describe('Page access rules', () => {
+    it('should allow anyone when no rule is declared', () => {
+        expect(checkAccess([undefined], null)).toEqual({ allowed: true });
+    });
+
+    it('should redirect or reject anonymous visitors', () => {
+        expect(checkAccess([{ permissions: ['project:read'] }], null)).toMatchObject({ allowed: false, status: 401 });
+        expect(checkAccess([{}, { redirect: '/login' }], null)).toMatchObject({ allowed: false, redirect: '/login' });
+        expect(signInRedirect('/login?tenant=acme', '/app/settings?tab=1')).toBe('/login?tenant=acme&next=%2Fapp%2Fsettings%3Ftab%3D1');
+    });
+
+    it('should evaluate roles and permissions with the RBAC roles', () => {
+        const rules = [{ roles: ['developer', 'deployer'] }, { permissions: ['release:read' as const] }];
+        expect(checkAccess(rules, user('deployer'))).toEqual({ allowed: true });
+        expect(checkAccess(rules, user('admin'))).toEqual({ allowed: true });
+        expect(checkAccess(rules, user('viewer'))).toMatchObject({ allowed: false, status: 403 });
+        expect(checkAccess([{ permissions: ['release:deploy'] }], user('developer'))).toMatchObject({ status: 403 });
+    });
+
+    it('should authenticate pages from the header or the auth cookie', () => {
+        const token = signJWT({ sub: 'u1', roles: ['viewer'], sessionId: 's1' });
+        const fromCookie = new Request('http://localhost/app/settings', { headers: { Cookie: `theme=dark; ${AUTH_COOKIE}=${token}` } });
+        const fromHeader = new Request('http://localhost/app/settings', { headers: { Authorization: `Bearer ${token}` } });
+
+        expect(authenticatePage(fromCookie)).toMatchObject({ userId: 'u1', roles: ['viewer'] });
+        expect(authenticatePage(fromHeader)).toMatchObject({ userId: 'u1' });
+        expect(authenticatePage(new Request('http://localhost/app', { headers: { Cookie: `${AUTH_COOKIE}=forged` } }))).toBeNull();
+    });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { signPreviewToken, verifyPreviewToken } from '../preview';
+import { verifyJWT } from '../jwt';
+
+describe('Blueprint preview tokens', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should round-trip the previewed version', () => {
+        const token = signPreviewToken({ projectId: 'p1', version: 4, sub: 'reviewer' });
+        expect(verifyPreviewToken(token)).toMatchObject({ projectId: 'p1', version: 4, sub: 'reviewer' });
+    });
+
+    it('should reject tampered and expired tokens', () => {
+        const token = signPreviewToken({ projectId: 'p1', version: 4 }, 60);
+        const [, signature] = token.split('.');
+        const forged = `${Buffer.from(JSON.stringify({ projectId: 'p2', version: 4, exp: 9999999999 })).toString('base64url')}.${signature}`;
+        expect(verifyPreviewToken(forged)).toBeNull();
+
+        vi.useFakeTimers();
+        vi.setSystemTime(Date.now() + 61_000);
+        expect(verifyPreviewToken(token)).toBeNull();
+    });
+
+    it('should not be accepted as an authentication token', () => {
+        const token = signPreviewToken({ projectId: 'p1', version: 1 });
+        expect(verifyJWT(token)).toBeNull();
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * Page Access Rules
+ * Server-side checks for generated app pages (/app/...), declared on routes,
+ * MFEs and blueprints as `access` rules.
+ *
+ * Pages are opened by browsers, which send no Authorization header on
+ * navigation, so the token is also read from the `sdui_auth` cookie. API
+ * routes accept the cookie too, for same-origin requests only (see
+ * auth/middleware).
+ */
+
+import { verifyJWT, payloadToAuthContext } from './jwt';
+import { hasAllPermissions } from './permissions';
+import type { AccessRule } from '../types';
+import type { AuthContext } from '../types/auth';
+
+export const AUTH_COOKIE = 'sdui_auth';
+
+export type AccessDecision =
+    | { allowed: true }
+    | { allowed: false; status: 401 | 403; reason: string; redirect?: string };
+
+/**
+ * Token stored in the auth cookie, if any
+ */
+export function readAuthCookie(request: Request): string | null {
+    const cookies = request.headers.get('Cookie') || '';
+    for (const cookie of cookies.split(';')) {
+        const [name, ...value] = cookie.trim().split('=');
+        if (name === AUTH_COOKIE && value.length > 0) {
+            return decodeURIComponent(value.join('='));
+        }
+    }
+    return null;
+}
+
+/**
+ * Read the token of a page request from the Authorization header or the auth cookie
+ */
+function extractPageToken(request: Request): string | null {
+    const header = request.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i);
+    return header ? header[1] : readAuthCookie(request);
+}
+
+/**
+ * Authenticate a page request; returns null for anonymous visitors
+ */
+export function authenticatePage(request: Request): AuthContext | null {
+    const token = extractPageToken(request);
+    if (!token) return null;
+
+    const payload = verifyJWT(token);
+    return payload ? payloadToAuthContext(payload) : null;
+}
+
+/**
+ * Check one rule. Admins pass every role requirement, as they do every permission.
+ */
+function ruleAllows(rule: AccessRule, auth: AuthContext): boolean {
+    const roles = rule.roles || [];
+    if (roles.length > 0 && !auth.roles.includes('admin') && !roles.some(role => auth.roles.includes(role))) {
+        return false;
+    }
+    return hasAllPermissions(auth.roles, rule.permissions || []);
+}
+
+/**
+ * Check the rules that apply to a page; every one of them must allow the visitor.
+ * Anonymous visitors are sent to the first declared redirect, when there is one.
+ */
+export function checkAccess(rules: Array<AccessRule | undefined>, auth: AuthContext | null): AccessDecision {
+    const declared = rules.filter((rule): rule is AccessRule => Boolean(rule));
+    if (declared.length === 0) return { allowed: true };
+
+    if (!auth) {
+        const redirect = declared.find(rule => rule.redirect)?.redirect;
+        return { allowed: false, status: 401, reason: 'Sign in to view this page', ...(redirect ? { redirect } : {}) };
+    }
+
+    if (!declared.every(rule => ruleAllows(rule, auth))) {
+        return { allowed: false, status: 403, reason: 'You do not have access to this page' };
+    }
+    return { allowed: true };
+}
+
+/**
+ * Whether a user may work on a project. Admins and users without a project
+ * claim are not scoped; everyone else is limited to their own project.
+ */
+export function hasProjectScope(auth: AuthContext, projectId: string | undefined): boolean {
+    return auth.roles.includes('admin') || !auth.projectId || auth.projectId === projectId;
+}
+
+/**
+ * Sign-in URL for a redirect rule, returning to `next` afterwards
+ */
+export function signInRedirect(redirect: string, next: string): string {
+    const [path, query = ''] = redirect.split('?');
+    const params = new URLSearchParams(query);
+    params.set('next', next);
+    return `${path}?${params.toString()}`;
+}
@@ -7,3 +7,5 @@ export * from './jwt';
 export * from './middleware';
 export * from './permissions';
 export * from './session';
+export * from './preview';
+export * from './access';
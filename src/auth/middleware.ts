@@ -6,17 +6,30 @@
 import type { APIRoute, APIContext } from 'astro';
 import { verifyJWT, payloadToAuthContext } from './jwt';
 import { hasPermission } from './permissions';
+import { readAuthCookie, hasProjectScope } from './access';
 import { auditLog } from '../security/audit';
 import type { AuthContext, Permission } from '../types/auth';
 
 export type { AuthContext };
 
 /**
- * Extract bearer token from request
+ * Whether a request was made by a page of this host. Browsers attach cookies to
+ * cross-site requests too, so cookie authentication is limited to these (CSRF).
+ */
+function isSameOrigin(request: Request): boolean {
+    const site = request.headers.get('Sec-Fetch-Site');
+    if (site) return site === 'same-origin';
+
+    const origin = request.headers.get('Origin');
+    return origin !== null && origin === new URL(request.url).origin;
+}
+
+/**
+ * Extract bearer token from request, or the auth cookie of a same-origin request
  */
 function extractToken(request: Request): string | null {
     const authHeader = request.headers.get('Authorization');
-    if (!authHeader) return null;
+    if (!authHeader) return isSameOrigin(request) ? readAuthCookie(request) : null;
 
     const match = authHeader.match(/^Bearer\s+(.+)$/i);
     return match ? match[1] : null;
@@ -165,13 +178,8 @@ export function requireProjectAccess(handler: AuthenticatedHandler): APIRoute {
     return requireAuth(async (auth, context) => {
         const projectId = context.params.projectId;
 
-        // Admin has access to all projects
-        if (auth.roles.includes('admin')) {
-            return handler(auth, context);
-        }
-
-        // User must have project scope or be assigned to project
-        if (auth.projectId && auth.projectId !== projectId) {
+        // Admins and users without a project claim reach every project
+        if (!hasProjectScope(auth, projectId)) {
             await auditLog({
                 action: 'project_access_denied',
                 userId: auth.userId,
@@ -189,3 +197,33 @@ export function requireProjectAccess(handler: AuthenticatedHandler): APIRoute {
         return handler(auth, context);
     });
 }
+
+/**
+ * Require project access and specific permission(s) on it
+ */
+export function requireProjectPermission(...requiredPermissions: Permission[]): (handler: AuthenticatedHandler) => APIRoute {
+    return (handler: AuthenticatedHandler): APIRoute => {
+        return requireProjectAccess(async (auth, context) => {
+            const hasAllPermissions = requiredPermissions.every(permission =>
+                hasPermission(auth.roles, permission)
+            );
+
+            if (!hasAllPermissions) {
+                await auditLog({
+                    action: 'permission_denied',
+                    userId: auth.userId,
+                    resource: context.url.pathname,
+                    success: false,
+                    metadata: {
+                        requiredPermissions,
+                        userRoles: auth.roles
+                    }
+                });
+
+                return errorResponse(403, 'Forbidden: Insufficient permissions');
+            }
+
+            return handler(auth, context);
+        });
+    };
+}
@@ -0,0 +1,63 @@
+/**
+ * Blueprint Preview Tokens
+ * Signed, expiring links that render /app/... against a specific (draft) blueprint version.
+ *
+ * Tokens are signed with a key derived from JWT_SECRET, so a preview token can
+ * never be accepted as an authentication token and vice versa.
+ */
+
+import crypto from 'crypto';
+
+const PREVIEW_SECRET = crypto
+    .createHmac('sha256', process.env.JWT_SECRET || (process.env.NODE_ENV === 'development' ? 'dev-secret-change-in-production' : ''))
+    .update('blueprint-preview')
+    .digest();
+
+export const PREVIEW_TTL = 60 * 60 * 24; // 24 hours in seconds
+export const MAX_PREVIEW_TTL = 60 * 60 * 24 * 7; // 7 days in seconds
+
+export interface PreviewClaims {
+    projectId: string;
+    version: number;
+    /** User who created the link */
+    sub?: string;
+    exp: number;
+}
+
+function sign(data: string): string {
+    return crypto.createHmac('sha256', PREVIEW_SECRET).update(data).digest('base64url');
+}
+
+/**
+ * Create a preview token for a blueprint version
+ */
+export function signPreviewToken(claims: Omit<PreviewClaims, 'exp'>, expiresIn: number = PREVIEW_TTL): string {
+    const ttl = Math.min(Math.max(expiresIn, 60), MAX_PREVIEW_TTL);
+    const payload: PreviewClaims = { ...claims, exp: Math.floor(Date.now() / 1000) + ttl };
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * Verify a preview token; returns null when it is malformed, forged or expired
+ */
+export function verifyPreviewToken(token: string): PreviewClaims | null {
+    try {
+        const [encoded, signature, ...rest] = token.split('.');
+        if (!encoded || !signature || rest.length > 0) return null;
+
+        const expected = Buffer.from(sign(encoded));
+        const actual = Buffer.from(signature);
+        if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+            return null;
+        }
+
+        const claims = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8')) as PreviewClaims;
+        if (typeof claims.projectId !== 'string' || !Number.isInteger(claims.version)) return null;
+        if (claims.exp < Math.floor(Date.now() / 1000)) return null;
+
+        return claims;
+    } catch {
+        return null;
+    }
+}
@@ -1,159 +1,301 @@
-import { useState, useEffect, useRef } from 'react';
-// import { DynamicSDUIRenderer } from '../../sdui/DynamicRenderer'; // Deleted
+import { useState, useRef, useMemo, useLayoutEffect } from 'react';
+import type { KeyboardEvent } from 'react';
+import { SNIPPETS, snippetText } from './snippets';
+import { completionsAt, diagnose, type Completion } from './blueprint-editor';
 
-// import { SNIPPETS } from './snippets'; // Deleted
-const SNIPPETS = {};
+/**
+ * Live Blueprint Editor
+ * Edits a project's UI schema as JSON: validated as you type, with completions
+ * for node types, action types and registered MFE names, and a snippet
+ * library. Drafts are saved as new blueprint versions and previewed side by
+ * side through a signed preview link; publishing activates the version.
+ */
 
+export interface EditorBlueprint {
+    version: number;
+    status: 'draft' | 'published';
+    uiSchema: unknown;
+}
 
 interface LiveEditorProps {
-    initialEndpoint: string;
+    projectId: string;
+    projectName: string;
+    /** Newest saved version, or null for a project without blueprints */
+    blueprint: EditorBlueprint | null;
+    /** Registered MFEs offered as completions */
+    mfes: Array<{ name: string; description?: string }>;
+    /** Preview token of `blueprint` */
+    previewToken: string | null;
 }
 
-export function LiveEditor({ initialEndpoint }: LiveEditorProps) {
-    const [json, setJson] = useState<string>('');
-    const [error, setError] = useState<string | null>(null);
-    const [saving, setSaving] = useState(false);
+interface APIResult<T> {
+    success: boolean;
+    data?: T;
+    error?: string;
+}
+
+const STARTER = `{\n  "version": 1,\n  "root": ${snippetText(SNIPPETS.page, '  ')}\n}\n`;
+
+async function post<T>(url: string, body: unknown = {}): Promise<T> {
+    const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+    });
+    const result: APIResult<T> = await res.json().catch(() => ({ success: false }));
+    if (!res.ok || !result.success) {
+        throw new Error(result.error || `Request failed (${res.status})`);
+    }
+    return result.data as T;
+}
+
+export function LiveEditor({ projectId, projectName, blueprint, mfes, previewToken }: LiveEditorProps) {
+    const initialText = blueprint ? JSON.stringify(blueprint.uiSchema, null, 2) + '\n' : STARTER;
+    const [json, setJson] = useState<string>(initialText);
+    const [saved, setSaved] = useState(blueprint ? { text: initialText, version: blueprint.version, status: blueprint.status } : null);
+    const [token, setToken] = useState(previewToken);
+    const [previewPath, setPreviewPath] = useState('/');
+    const [loadedPath, setLoadedPath] = useState('/');
     const [refreshTrigger, setRefreshTrigger] = useState(0);
+    const [saving, setSaving] = useState<'draft' | 'publish' | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [cursor, setCursor] = useState(0);
+    const [selected, setSelected] = useState(0);
+    const [dismissedAt, setDismissedAt] = useState<number | null>(null);
     const [activeTab, setActiveTab] = useState<'editor' | 'preview' | 'both'>('both');
     const textAreaRef = useRef<HTMLTextAreaElement>(null);
+    const pendingCaret = useRef<number | null>(null);
 
-    // Extract slug
-    const slug = initialEndpoint.split('/').pop() || 'dashboard';
+    const mfeNames = useMemo(() => mfes.map(mfe => mfe.name), [mfes]);
+    const mfeCompletions = useMemo<Completion[]>(
+        () => mfes.map(mfe => ({ value: mfe.name, detail: mfe.description || 'Registered MFE' })),
+        [mfes]
+    );
+    const diagnosis = useMemo(() => diagnose(json, mfeNames), [json, mfeNames]);
+    const completion = useMemo(
+        () => (dismissedAt === cursor ? null : completionsAt(json, cursor, mfeCompletions)),
+        [json, cursor, dismissedAt, mfeCompletions]
+    );
+    const dirty = json !== saved?.text;
 
-    useEffect(() => {
-        fetch(initialEndpoint)
-            .then(res => res.json())
-            .then(data => {
-                setJson(JSON.stringify(data, null, 2));
-            })
-            .catch(err => setError(err.message));
-    }, [initialEndpoint]);
+    // Restore the caret after inserting text
+    useLayoutEffect(() => {
+        if (pendingCaret.current !== null && textAreaRef.current) {
+            textAreaRef.current.setSelectionRange(pendingCaret.current, pendingCaret.current);
+            textAreaRef.current.focus();
+            setCursor(pendingCaret.current);
+            pendingCaret.current = null;
+        }
+    }, [json]);
+
+    const replaceRange = (start: number, end: number, text: string) => {
+        pendingCaret.current = start + text.length;
+        setJson(json.substring(0, start) + text + json.substring(end));
+        setSelected(0);
+    };
+
+    const acceptCompletion = (option: Completion) => {
+        if (completion) replaceRange(completion.from, cursor, option.value);
+    };
 
-    const handleSave = async () => {
-        setSaving(true);
+    const insertSnippet = (snippetKey: string) => {
+        const snippet = SNIPPETS[snippetKey];
+        const start = textAreaRef.current?.selectionStart ?? json.length;
+        const end = textAreaRef.current?.selectionEnd ?? json.length;
+        const lineStart = json.lastIndexOf('\n', start - 1) + 1;
+        const indent = /^\s*/.exec(json.substring(lineStart, start))![0];
+        replaceRange(start, end, snippetText(snippet, indent));
+    };
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+        if ((e.metaKey || e.ctrlKey) && e.key === 's') {
+            e.preventDefault();
+            saveDraft();
+            return;
+        }
+
+        if (completion) {
+            const count = completion.options.length;
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                setSelected(index => (index + (e.key === 'ArrowDown' ? 1 : count - 1)) % count);
+                return;
+            }
+            if (e.key === 'Tab' || e.key === 'Enter') {
+                e.preventDefault();
+                acceptCompletion(completion.options[Math.min(selected, count - 1)]);
+                return;
+            }
+            if (e.key === 'Escape') {
+                setDismissedAt(cursor);
+                return;
+            }
+        }
+
+        if (e.key === 'Tab') {
+            e.preventDefault();
+            const target = e.currentTarget;
+            replaceRange(target.selectionStart, target.selectionEnd, '  ');
+        }
+    };
+
+    const trackCursor = () => {
+        const position = textAreaRef.current?.selectionStart ?? 0;
+        if (position !== cursor) {
+            setCursor(position);
+            setSelected(0);
+        }
+    };
+
+    /**
+     * Save the editor content as a new version; returns the version number
+     */
+    const saveVersion = async (publish: boolean): Promise<number> => {
+        if (!diagnosis.valid) {
+            throw new Error('Fix the blueprint errors before saving');
+        }
+        const base = `/api/projects/${projectId}/blueprints`;
+
+        let version: number;
+        if (publish && !dirty && saved) {
+            // Publish the draft that is already saved and previewed
+            version = (await post<{ version: number }>(`${base}/${saved.version}/activate`)).version;
+        } else {
+            version = (await post<{ version: number }>(base, { uiSchema: diagnosis.uiSchema, publish })).version;
+        }
+
+        const link = await post<{ token: string }>(`${base}/${version}/preview`);
+        setSaved({ text: json, version, status: publish ? 'published' : 'draft' });
+        setToken(link.token);
+        setRefreshTrigger(prev => prev + 1);
+        return version;
+    };
+
+    const run = async (kind: 'draft' | 'publish') => {
+        if (saving) return;
+        setSaving(kind);
         setError(null);
         try {
-            const parsed = JSON.parse(json); // Validate JSON
-            const res = await fetch(initialEndpoint, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: json
-            });
-            if (!res.ok) throw new Error('Failed to save');
-            setRefreshTrigger(prev => prev + 1);
-        } catch (err: any) {
-            setError(err.message);
+            await saveVersion(kind === 'publish');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
         } finally {
-            setSaving(false);
+            setSaving(null);
         }
     };
 
-    const insertSnippet = (snippetKey: keyof typeof SNIPPETS) => {
-        const snippet = SNIPPETS[snippetKey];
-        if (textAreaRef.current) {
-            const start = textAreaRef.current.selectionStart;
-            const end = textAreaRef.current.selectionEnd;
-            const text = json;
-            const before = text.substring(0, start);
-            const after = text.substring(end, text.length);
-            const newText = before + snippet + after;
-            setJson(newText);
-            // Re-focus logic could go here
-        } else {
-            setJson(prev => prev + '\n' + snippet);
-        }
+    const saveDraft = () => run('draft');
+    const publish = () => run('publish');
+
+    const reloadPreview = () => {
+        setLoadedPath(previewPath.startsWith('/') ? previewPath : '/' + previewPath);
+        setRefreshTrigger(prev => prev + 1);
     };
 
+    const previewSrc = token ? `/app${loadedPath}?preview=${encodeURIComponent(token)}` : null;
+
+    const problems = diagnosis.valid ? [] : diagnosis.issues;
+    const warnings = diagnosis.valid ? diagnosis.warnings : [];
+
     return (
         <div className="flex flex-col h-screen bg-gray-900 text-gray-100 font-sans">
 
             {/* Top Bar */}
             <header className="flex-none h-14 bg-gray-950 border-b border-gray-800 flex items-center justify-between px-4 shadow-lg z-10">
                 <div className="flex items-center gap-3">
-                    <div className="w-8 h-8 bg-indigo-600 rounded-lg flex items-center justify-center font-bold text-white shadow-inner">
+                    <a href="/builder" className="w-8 h-8 bg-indigo-600 rounded-lg flex items-center justify-center font-bold text-white shadow-inner">
                         SD
-                    </div>
+                    </a>
                     <div>
-                        <h1 className="font-semibold text-lg leading-tight text-gray-100">Live Builder</h1>
-                        <div className="text-xs text-gray-400 font-mono">Editing: {slug}</div>
+                        <h1 className="font-semibold text-lg leading-tight text-gray-100">{projectName}</h1>
+                        <div className="text-xs text-gray-400 font-mono">
+                            {saved ? `v${saved.version} · ${saved.status}` : 'No saved versions'}
+                            {dirty && <span className="text-yellow-500"> · unsaved changes</span>}
+                        </div>
                     </div>
                 </div>
 
                 <div className="flex items-center gap-4">
                     {/* View Toggles */}
                     <div className="hidden md:flex bg-gray-800 rounded-lg p-0.5">
-                        <button
-                            onClick={() => setActiveTab('editor')}
-                            className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${activeTab === 'editor' ? 'bg-gray-600 text-white shadow' : 'text-gray-400 hover:text-gray-200'}`}
-                        >Code</button>
-                        <button
-                            onClick={() => setActiveTab('both')}
-                            className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${activeTab === 'both' ? 'bg-gray-600 text-white shadow' : 'text-gray-400 hover:text-gray-200'}`}
-                        >Split</button>
-                        <button
-                            onClick={() => setActiveTab('preview')}
-                            className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${activeTab === 'preview' ? 'bg-gray-600 text-white shadow' : 'text-gray-400 hover:text-gray-200'}`}
-                        >Preview</button>
+                        {(['editor', 'both', 'preview'] as const).map(tab => (
+                            <button
+                                key={tab}
+                                onClick={() => setActiveTab(tab)}
+                                className={`px-3 py-1.5 text-xs font-medium rounded-md transition-all ${activeTab === tab ? 'bg-gray-600 text-white shadow' : 'text-gray-400 hover:text-gray-200'}`}
+                            >{tab === 'editor' ? 'Code' : tab === 'both' ? 'Split' : 'Preview'}</button>
+                        ))}
                     </div>
 
                     <div className="h-6 w-px bg-gray-800 mx-2"></div>
 
                     <button
-                        onClick={handleSave}
-                        disabled={saving}
+                        onClick={saveDraft}
+                        disabled={saving !== null || !diagnosis.valid}
+                        title="Save as a draft version (Ctrl+S)"
+                        className="px-4 py-1.5 rounded-full text-sm font-medium border border-gray-700 text-gray-200 hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                    >
+                        {saving === 'draft' ? 'Saving...' : 'Save draft'}
+                    </button>
+                    <button
+                        onClick={publish}
+                        disabled={saving !== null || !diagnosis.valid || (!dirty && saved?.status === 'published')}
+                        title="Publish to end users"
                         className={`
-                    flex items-center gap-2 px-4 py-1.5 rounded-full text-sm font-medium transition-all transform active:scale-95
-                    ${saving
+                    flex items-center gap-2 px-4 py-1.5 rounded-full text-sm font-medium transition-all transform active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed
+                    ${saving === 'publish'
                                 ? 'bg-yellow-500/10 text-yellow-500 border border-yellow-500/20 cursor-wait'
                                 : 'bg-indigo-600 hover:bg-indigo-500 text-white shadow-lg shadow-indigo-500/20 border border-indigo-400/20'}
                 `}
                     >
-                        {saving ? (
-                            <>
-                                <svg className="animate-spin h-4 w-4" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-                                Deploying...
-                            </>
-                        ) : (
-                            <>
-                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4"></path></svg>
-                                Save & Preview
-                            </>
-                        )}
+                        {saving === 'publish' ? 'Publishing...' : 'Publish'}
                     </button>
                 </div>
             </header>
 
             <div className="flex-1 flex overflow-hidden">
 
-                {/* Sidebar - Component/Snippet Palette */}
-                <aside className="w-64 bg-gray-900 border-r border-gray-800 flex flex-col z-20 hidden lg:flex">
+                {/* Sidebar - Snippet Library */}
+                <aside className="w-64 bg-gray-900 border-r border-gray-800 flex-col z-20 hidden lg:flex">
                     <div className="p-4 border-b border-gray-800">
-                        <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Component Library</h3>
+                        <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Snippets</h3>
                     </div>
                     <div className="flex-1 overflow-y-auto p-4 space-y-2">
-                        {Object.keys(SNIPPETS).map((key) => (
+                        {Object.entries(SNIPPETS).map(([key, snippet]) => (
                             <button
                                 key={key}
-                                onClick={() => insertSnippet(key as keyof typeof SNIPPETS)}
-                                className="w-full text-left px-3 py-2.5 rounded-md bg-gray-800/50 hover:bg-gray-800 border border-gray-700/50 hover:border-gray-600 transition-all group group-hover:shadow-md"
+                                onClick={() => insertSnippet(key)}
+                                className="w-full text-left px-3 py-2.5 rounded-md bg-gray-800/50 hover:bg-gray-800 border border-gray-700/50 hover:border-gray-600 transition-all group"
                             >
-                                <div className="text-sm font-medium text-gray-200 group-hover:text-white">{key}</div>
-                                <div className="text-xs text-gray-500 mt-0.5 truncat">Insert {key} snippet</div>
+                                <div className="text-sm font-medium text-gray-200 group-hover:text-white">
+                                    {snippet.label}
+                                    {snippet.section && <span className="ml-2 text-[10px] uppercase text-indigo-400">section</span>}
+                                </div>
+                                <div className="text-xs text-gray-500 mt-0.5 truncate">{snippet.description}</div>
                             </button>
                         ))}
                     </div>
                     <div className="p-4 bg-gray-800/30 border-t border-gray-800 text-xs text-gray-500">
-                        Tip: Place cursor in editor and click a component to insert.
+                        Tip: place the cursor where a node or top-level section goes, then pick a snippet.
                     </div>
                 </aside>
 
                 {/* Editor Area */}
-                <div className={`flex-1 flex flex-col min-w-0 transition-all duration-300 ${activeTab === 'preview' ? 'hidden' : 'block'}`}>
+                <div className={`flex-1 flex flex-col min-w-0 transition-all duration-300 ${activeTab === 'preview' ? 'hidden' : 'flex'}`}>
                     <div className="flex-1 relative">
                         <textarea
                             ref={textAreaRef}
                             value={json}
-                            onChange={(e) => setJson(e.target.value)}
+                            onChange={(e) => {
+                                setJson(e.target.value);
+                                setCursor(e.target.selectionStart);
+                                setDismissedAt(null);
+                            }}
+                            onKeyDown={handleKeyDown}
+                            onKeyUp={trackCursor}
+                            onClick={trackCursor}
+                            onSelect={trackCursor}
+                            aria-label="Blueprint JSON"
                             className="absolute inset-0 w-full h-full p-6 bg-[#0f1117] text-gray-300 font-mono text-sm resize-none focus:outline-none leading-relaxed selection:bg-indigo-500/30"
                             spellCheck={false}
                             autoComplete="off"
@@ -161,17 +303,57 @@ export function LiveEditor({ initialEndpoint }: LiveEditorProps) {
                             autoCapitalize="off"
                         />
                     </div>
-                    {error && (
-                        <div className="bg-red-900/10 border-t border-red-500/20 p-4 animate-slideUp">
-                            <div className="flex items-start gap-3">
-                                <svg className="w-5 h-5 text-red-500 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"></path></svg>
-                                <div>
-                                    <h4 className="text-sm font-medium text-red-400">JSON Validation Error</h4>
-                                    <p className="text-xs text-red-300/80 mt-1 font-mono">{error}</p>
-                                </div>
-                            </div>
+
+                    {/* Completions */}
+                    {completion && (
+                        <div className="flex-none bg-gray-950 border-t border-gray-800 px-4 py-2 flex items-center gap-2 overflow-x-auto" role="listbox">
+                            <span className="text-[10px] uppercase tracking-wider text-gray-500 shrink-0">Tab to insert</span>
+                            {completion.options.map((option, index) => (
+                                <button
+                                    key={option.value}
+                                    role="option"
+                                    aria-selected={index === selected}
+                                    title={option.detail}
+                                    onMouseDown={(e) => e.preventDefault()}
+                                    onClick={() => acceptCompletion(option)}
+                                    className={`shrink-0 px-2 py-1 rounded font-mono text-xs ${index === selected ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                                >{option.value}</button>
+                            ))}
                         </div>
                     )}
+
+                    {/* Diagnostics */}
+                    <div className={`flex-none border-t p-4 max-h-48 overflow-y-auto ${diagnosis.valid ? 'bg-gray-950 border-gray-800' : 'bg-red-900/10 border-red-500/20'}`}>
+                        {!diagnosis.valid && diagnosis.syntaxError && (
+                            <div>
+                                <h4 className="text-sm font-medium text-red-400">JSON syntax error at line {diagnosis.syntaxError.line}, column {diagnosis.syntaxError.column}</h4>
+                                <p className="text-xs text-red-300/80 mt-1 font-mono">{diagnosis.syntaxError.message}</p>
+                            </div>
+                        )}
+                        {problems.length > 0 && (
+                            <div>
+                                <h4 className="text-sm font-medium text-red-400">Blueprint validation failed</h4>
+                                <ul className="mt-1 space-y-0.5">
+                                    {problems.map((issue, index) => (
+                                        <li key={index} className="text-xs text-red-300/80 font-mono">
+                                            <span className="text-red-400">{issue.path || '(root)'}</span>: {issue.message}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+                        {diagnosis.valid && (
+                            <div className="text-xs">
+                                <span className="text-green-400 font-medium">Valid blueprint</span>
+                                {warnings.map((issue, index) => (
+                                    <div key={index} className="text-yellow-400/90 font-mono mt-0.5">
+                                        {issue.path}: {issue.message}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+                    </div>
                 </div>
 
                 {/* Preview Area */}
@@ -179,29 +361,37 @@ export function LiveEditor({ initialEndpoint }: LiveEditorProps) {
              bg-white flex flex-col border-l border-gray-800 transition-all duration-300 shadow-2xl z-30
              ${activeTab === 'both' ? 'w-1/2' : activeTab === 'preview' ? 'w-full' : 'hidden'}
         `}>
-                    <div className="flex-none h-10 bg-white border-b border-gray-200 flex items-center justify-between px-4">
-                        <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
-                            <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></span>
-                            Live Preview
+                    <div className="flex-none h-10 bg-white border-b border-gray-200 flex items-center gap-3 px-4">
+                        <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2 shrink-0">
+                            <span className={`w-2 h-2 rounded-full ${dirty ? 'bg-yellow-500' : 'bg-green-500'}`}></span>
+                            {saved ? `Preview v${saved.version}` : 'Preview'}
                         </span>
-                        <div className="text-xs text-gray-400">
-                            View: Desktop
-                        </div>
+                        <input
+                            value={previewPath}
+                            onChange={(e) => setPreviewPath(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && reloadPreview()}
+                            aria-label="Preview path"
+                            className="flex-1 min-w-0 px-2 py-1 text-xs font-mono text-gray-700 border border-gray-200 rounded"
+                        />
+                        <button
+                            onClick={reloadPreview}
+                            className="text-xs text-gray-500 hover:text-gray-800 shrink-0"
+                        >Reload</button>
                     </div>
 
-                    <div className="flex-1 overflow-y-auto bg-gray-50/50 relative scrollbar-thin scrollbar-thumb-gray-200">
-                        <div className="absolute inset-0 p-8 min-h-max pb-20">
-                            <div className="bg-white shadow-sm ring-1 ring-gray-200 rounded-xl min-h-[calc(100vh-12rem)] overflow-hidden transform transition-all duration-300 ease-out origin-top hover:ring-gray-300">
-                                {/* <DynamicSDUIRenderer 
-                                    key={refreshTrigger}
-                                    endpoint={initialEndpoint}
-                                /> */}
-                                <div className="flex items-center justify-center h-full text-gray-400">
-                                    Preview functionality temporarily disabled during refactor
-                                </div>
-
+                    <div className="flex-1 bg-gray-50/50 relative">
+                        {previewSrc ? (
+                            <iframe
+                                key={refreshTrigger}
+                                src={previewSrc}
+                                title="Blueprint preview"
+                                className="absolute inset-0 w-full h-full border-0 bg-white"
+                            />
+                        ) : (
+                            <div className="flex items-center justify-center h-full text-gray-400 text-sm">
+                                Save a draft to preview it here
                             </div>
-                        </div>
+                        )}
                     </div>
                 </div>
 
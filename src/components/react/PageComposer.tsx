@@ -0,0 +1,370 @@
+import { useState, useMemo } from 'react';
+import type { DragEvent, ReactNode } from 'react';
+import { validateUISchema, type BlueprintNode, type UISchema } from '../../security/validator';
+import {
+    PRIMITIVES, fieldEditor, insertNode, isContainer, mfeFields, mfeNode, moveNode, nodeAt, nodeLabel,
+    parseFieldInput, primitiveFields, removeNode, setField, updateNode,
+    type ComposerMFE, type Field, type NodePath
+} from './composer';
+
+/**
+ * Page Composer
+ * Drag-and-drop editing of a blueprint's layout tree: registered MFEs and
+ * primitives are placed into layouts and regions, and their variables are
+ * edited through forms generated from the declared props. The result is
+ * saved as a blueprint draft; other sections of the blueprint (theme,
+ * navigation, ...) are kept as they are.
+ */
+
+interface PageComposerProps {
+    projectId: string;
+    projectName: string;
+    /** UI schema of the newest saved version, or null for a project without blueprints */
+    uiSchema: UISchema | null;
+    /** Registered MFEs by name */
+    mfes: Record<string, ComposerMFE>;
+}
+
+type DragPayload = { kind: 'new'; node: BlueprintNode } | { kind: 'move'; path: NodePath };
+
+const DRAG_TYPE = 'application/x-sdui-node';
+
+const STARTER: BlueprintNode = { type: 'layout', layout: 'stack', gap: 'md', children: [{ type: 'outlet' }] };
+
+const samePath = (a: NodePath | null, b: NodePath) => a !== null && a.length === b.length && a.every((index, i) => b[i] === index);
+
+export function PageComposer({ projectId, projectName, uiSchema, mfes }: PageComposerProps) {
+    const [root, setRoot] = useState<BlueprintNode>(uiSchema?.root || STARTER);
+    const [selected, setSelected] = useState<NodePath | null>(null);
+    const [dropTarget, setDropTarget] = useState<string | null>(null);
+    const [filter, setFilter] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [saved, setSaved] = useState<{ version: number; previewUrl: string } | null>(null);
+    const [dirty, setDirty] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const composed = useMemo(() => ({ ...(uiSchema || {}), root }), [uiSchema, root]);
+    const validation = useMemo(() => validateUISchema(composed), [composed]);
+    const selectedNode = selected ? nodeAt(root, selected) : undefined;
+    const mfeNames = Object.keys(mfes).filter(name => name.toLowerCase().includes(filter.toLowerCase()));
+
+    const change = (next: BlueprintNode, select?: NodePath | null) => {
+        setRoot(next);
+        setDirty(true);
+        if (select !== undefined) setSelected(select);
+    };
+
+    // ========================================================================
+    // Drag and drop
+    // ========================================================================
+
+    const startDrag = (e: DragEvent, payload: DragPayload) => {
+        e.stopPropagation();
+        e.dataTransfer.setData(DRAG_TYPE, JSON.stringify(payload));
+        e.dataTransfer.effectAllowed = payload.kind === 'new' ? 'copy' : 'move';
+    };
+
+    const drop = (e: DragEvent, parent: NodePath, index: number) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setDropTarget(null);
+        const data = e.dataTransfer.getData(DRAG_TYPE);
+        if (!data) return;
+
+        const payload = JSON.parse(data) as DragPayload;
+        const result = payload.kind === 'new'
+            ? insertNode(root, parent, index, payload.node)
+            : moveNode(root, payload.path, parent, index);
+        if (result.root !== root) change(result.root, result.path);
+    };
+
+    /**
+     * Click alternative to dragging: add into the selected container, after
+     * the selected node, or at the end of the root
+     */
+    const add = (node: BlueprintNode) => {
+        let result;
+        if (selected && selectedNode && isContainer(selectedNode)) {
+            result = insertNode(root, selected, selectedNode.children.length, node);
+        } else if (selected && selected.length > 0) {
+            result = insertNode(root, selected.slice(0, -1), selected[selected.length - 1] + 1, node);
+        } else {
+            result = insertNode(root, [], Infinity, node);
+        }
+        if (result.root !== root) change(result.root, result.path);
+    };
+
+    const shift = (path: NodePath, offset: number) => {
+        const parent = path.slice(0, -1);
+        const index = path[path.length - 1];
+        const result = moveNode(root, path, parent, offset > 0 ? index + 2 : index - 1);
+        change(result.root, result.path);
+    };
+
+    // ========================================================================
+    // Saving
+    // ========================================================================
+
+    const saveDraft = async () => {
+        if (!validation.success) return;
+        setSaving(true);
+        setError(null);
+        try {
+            const base = `/api/projects/${projectId}/blueprints`;
+            const post = async (url: string, body: unknown) => {
+                const res = await fetch(url, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(body)
+                });
+                const result = await res.json().catch(() => ({ success: false }));
+                if (!res.ok || !result.success) throw new Error(result.error || `Request failed (${res.status})`);
+                return result.data;
+            };
+
+            const blueprint = await post(base, { uiSchema: validation.data, publish: false });
+            const link = await post(`${base}/${blueprint.version}/preview`, {});
+            setSaved({ version: blueprint.version, previewUrl: link.url });
+            setDirty(false);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    // ========================================================================
+    // Canvas
+    // ========================================================================
+
+    const dropZone = (parent: NodePath, index: number, empty = false) => {
+        const id = `${parent.join('.')}:${index}`;
+        return (
+            <div
+                key={`drop-${id}`}
+                onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); setDropTarget(id); }}
+                onDragLeave={() => setDropTarget(current => (current === id ? null : current))}
+                onDrop={(e) => drop(e, parent, index)}
+                className={`rounded transition-all ${empty ? 'min-h-12 flex items-center justify-center text-xs text-gray-400 border border-dashed border-gray-300' : 'min-h-2'} ${dropTarget === id ? 'bg-indigo-100 border-indigo-400 min-h-8' : ''}`}
+            >
+                {empty && 'Drop components here'}
+            </div>
+        );
+    };
+
+    const renderNode = (node: BlueprintNode, path: NodePath): ReactNode => {
+        const isSelected = samePath(selected, path);
+        const known = node.type !== 'mfe' || Boolean(mfes[node.name]);
+        const children = isContainer(node) ? node.children : [];
+        const direction = node.type === 'layout' && (node.layout === 'row' || node.layout === 'sidebar') ? 'flex-row' : 'flex-col';
+
+        return (
+            <div
+                key={path.join('.') || 'root'}
+                draggable={path.length > 0}
+                onDragStart={(e) => startDrag(e, { kind: 'move', path })}
+                onClick={(e) => { e.stopPropagation(); setSelected(path); }}
+                className={`flex-1 min-w-0 rounded-lg border bg-white p-2 cursor-pointer ${isSelected ? 'border-indigo-500 ring-2 ring-indigo-200' : known ? 'border-gray-200 hover:border-gray-400' : 'border-red-300'}`}
+            >
+                <div className="flex items-center gap-2 text-xs">
+                    <span className={`px-1.5 py-0.5 rounded font-mono ${node.type === 'mfe' ? 'bg-purple-100 text-purple-700' : isContainer(node) ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 text-gray-600'}`}>
+                        {node.type}
+                    </span>
+                    <span className="truncate text-gray-700">{nodeLabel(node)}</span>
+                    {!known && <span className="text-red-500">not registered</span>}
+                </div>
+                {isContainer(node) && (
+                    <div className={`mt-2 flex ${direction} gap-1`}>
+                        {children.length === 0
+                            ? dropZone(path, 0, true)
+                            : children.flatMap((child, index) => [dropZone(path, index), renderNode(child, [...path, index])]).concat(dropZone(path, children.length))}
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    // ========================================================================
+    // Inspector
+    // ========================================================================
+
+    const inspector = () => {
+        if (!selected || !selectedNode) {
+            return <p className="text-sm text-gray-500">Select a component on the canvas to edit it.</p>;
+        }
+
+        const mfe = selectedNode.type === 'mfe' ? mfes[selectedNode.name] : undefined;
+        const fields = selectedNode.type === 'mfe' ? (mfe ? mfeFields(mfe) : []) : primitiveFields(selectedNode.type);
+        const values: Record<string, unknown> = selectedNode.type === 'mfe'
+            ? selectedNode.variables || {}
+            : selectedNode as unknown as Record<string, unknown>;
+        const index = selected[selected.length - 1];
+        const siblings = selected.length > 0 ? (nodeAt(root, selected.slice(0, -1)) as { children: BlueprintNode[] }).children.length : 1;
+
+        return (
+            <div className="space-y-4">
+                <div>
+                    <div className="text-xs uppercase tracking-wider text-gray-400">{selectedNode.type}</div>
+                    <div className="font-semibold text-gray-900 truncate">{nodeLabel(selectedNode)}</div>
+                    {mfe?.description && <p className="text-xs text-gray-500 mt-1">{mfe.description}</p>}
+                    {selectedNode.type === 'mfe' && !mfe && <p className="text-xs text-red-600 mt-1">This MFE is not registered.</p>}
+                </div>
+
+                {fields.length === 0 && selectedNode.type === 'mfe' && mfe && (
+                    <p className="text-xs text-gray-500">This MFE declares no configurable props.</p>
+                )}
+                {fields.map(field => (
+                    <FieldInput
+                        key={`${selected.join('.')}-${field.name}`}
+                        field={field}
+                        value={values[field.name]}
+                        onChange={(value) => change(updateNode(root, selected, node => setField(node, field.name, value)))}
+                    />
+                ))}
+
+                {selected.length > 0 && (
+                    <div className="flex gap-2 pt-2 border-t border-gray-100">
+                        <button disabled={index === 0} onClick={() => shift(selected, -1)} className="px-2 py-1 text-xs rounded border border-gray-200 disabled:opacity-40">Move up</button>
+                        <button disabled={index >= siblings - 1} onClick={() => shift(selected, 1)} className="px-2 py-1 text-xs rounded border border-gray-200 disabled:opacity-40">Move down</button>
+                        <button onClick={() => change(removeNode(root, selected), null)} className="ml-auto px-2 py-1 text-xs rounded border border-red-200 text-red-600 hover:bg-red-50">Remove</button>
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    const paletteButton = (key: string, label: string, description: string, node: BlueprintNode) => (
+        <button
+            key={key}
+            draggable
+            onDragStart={(e) => startDrag(e, { kind: 'new', node })}
+            onClick={() => add(node)}
+            title="Drag onto the canvas, or click to add"
+            className="w-full text-left px-3 py-2 rounded-md border border-gray-200 bg-white hover:border-indigo-300 hover:bg-indigo-50 cursor-grab"
+        >
+            <div className="text-sm font-medium text-gray-800 truncate">{label}</div>
+            <div className="text-xs text-gray-500 truncate">{description}</div>
+        </button>
+    );
+
+    return (
+        <div className="flex flex-col h-screen bg-gray-100 font-sans">
+            <header className="flex-none h-14 bg-white border-b border-gray-200 flex items-center justify-between px-4">
+                <div>
+                    <h1 className="font-semibold text-lg leading-tight text-gray-900">{projectName}</h1>
+                    <div className="text-xs text-gray-500">
+                        Page composer{dirty && <span className="text-yellow-600"> · unsaved changes</span>}
+                        {saved && !dirty && <> · saved as draft v{saved.version}</>}
+                    </div>
+                </div>
+                <div className="flex items-center gap-3">
+                    {saved && (
+                        <a href={saved.previewUrl} target="_blank" rel="noopener" className="text-sm text-indigo-600 hover:underline">Preview draft</a>
+                    )}
+                    <a href={`/builder/${projectId}/editor`} className="text-sm text-gray-600 hover:underline">Edit JSON</a>
+                    <button
+                        onClick={saveDraft}
+                        disabled={saving || !validation.success || !dirty}
+                        className="px-4 py-1.5 rounded-full text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {saving ? 'Saving...' : 'Save draft'}
+                    </button>
+                </div>
+            </header>
+
+            <div className="flex-1 flex overflow-hidden">
+                {/* Palette */}
+                <aside className="w-64 flex-none bg-gray-50 border-r border-gray-200 overflow-y-auto p-4 space-y-4">
+                    <div>
+                        <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Micro-frontends</h3>
+                        <input
+                            value={filter}
+                            onChange={(e) => setFilter(e.target.value)}
+                            placeholder="Filter"
+                            aria-label="Filter MFEs"
+                            className="w-full mb-2 px-2 py-1 text-sm border border-gray-200 rounded"
+                        />
+                        <div className="space-y-1.5">
+                            {mfeNames.map(name => paletteButton(`mfe-${name}`, name, mfes[name].description || 'Registered MFE', mfeNode(name, mfes[name])))}
+                            {mfeNames.length === 0 && <p className="text-xs text-gray-400">No MFEs</p>}
+                        </div>
+                    </div>
+                    <div>
+                        <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Primitives</h3>
+                        <div className="space-y-1.5">
+                            {PRIMITIVES.map(item => paletteButton(item.label, item.label, item.description, item.node))}
+                        </div>
+                    </div>
+                </aside>
+
+                {/* Canvas */}
+                <main className="flex-1 overflow-auto p-6" onClick={() => setSelected(null)}>
+                    {renderNode(root, [])}
+                </main>
+
+                {/* Inspector */}
+                <aside className="w-80 flex-none bg-white border-l border-gray-200 flex flex-col">
+                    <div className="flex-1 overflow-y-auto p-4">{inspector()}</div>
+                    {(!validation.success || error) && (
+                        <div className="flex-none max-h-48 overflow-y-auto border-t border-red-200 bg-red-50 p-3 text-xs text-red-700 space-y-1">
+                            {!validation.success && validation.issues.map((issue, index) => (
+                                <div key={index}><span className="font-mono">{issue.path}</span>: {issue.message}</div>
+                            ))}
+                            {error && <div>{error}</div>}
+                        </div>
+                    )}
+                </aside>
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Form input for one declared field; invalid input is shown but not applied
+ */
+function FieldInput({ field, value, onChange }: { field: Field; value: unknown; onChange: (value: unknown) => void }) {
+    const { name, schema } = field;
+    const editor = fieldEditor(schema, value);
+    const [text, setText] = useState(editor === 'json' ? (value === undefined ? '' : JSON.stringify(value, null, 2)) : value === undefined ? '' : String(value));
+    const [error, setError] = useState<string | null>(null);
+
+    const apply = (input: string | boolean) => {
+        if (typeof input === 'string') setText(input);
+        const result = parseFieldInput(schema, editor, input);
+        setError(result.error || null);
+        if (!result.error) onChange(result.value);
+    };
+
+    const inputClass = `w-full px-2 py-1 text-sm border rounded ${error ? 'border-red-400' : 'border-gray-200'}`;
+    const id = `field-${name}`;
+
+    return (
+        <div>
+            <label htmlFor={id} className="block text-xs font-medium text-gray-700 mb-1">
+                {schema.title || name}{schema.required && <span className="text-red-500"> *</span>}
+            </label>
+            {editor === 'checkbox' ? (
+                <input id={id} type="checkbox" checked={value === true} onChange={(e) => apply(e.target.checked)} />
+            ) : editor === 'select' ? (
+                <select id={id} value={text} onChange={(e) => apply(e.target.value)} className={inputClass}>
+                    {!schema.required && <option value="">—</option>}
+                    {schema.enum!.map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+            ) : editor === 'multiline' || editor === 'json' ? (
+                <textarea id={id} value={text} rows={editor === 'json' ? 4 : 3} onChange={(e) => apply(e.target.value)} className={`${inputClass} ${editor === 'json' ? 'font-mono text-xs' : ''}`} />
+            ) : (
+                <input
+                    id={id}
+                    type={editor === 'color' ? 'color' : editor === 'url' ? 'text' : editor}
+                    value={text}
+                    min={schema.minimum}
+                    max={schema.maximum}
+                    onChange={(e) => apply(e.target.value)}
+                    className={inputClass}
+                />
+            )}
+            {schema.description && <p className="text-xs text-gray-400 mt-0.5">{schema.description}</p>}
+            {error && <p className="text-xs text-red-600 mt-0.5">{error}</p>}
+        </div>
+    );
+}
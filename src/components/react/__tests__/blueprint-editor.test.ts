@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { completionsAt, diagnose } from '../blueprint-editor';
+import { SNIPPETS, snippetText } from '../snippets';
+
+const MFES = [{ value: 'hc-patients', detail: 'Patient list' }, { value: 'hc-records', detail: 'Records' }];
+
+/** Completions with the cursor at `|` */
+function complete(source: string) {
+    const cursor = source.indexOf('|');
+    return completionsAt(source.replace('|', ''), cursor, MFES);
+}
+
+describe('Blueprint editor', () => {
+    it('should locate syntax errors and report schema issues by path', () => {
+        const syntax = diagnose('{\n  "root": {\n    "type": "text",,\n  }\n}', []);
+        expect(syntax.valid).toBe(false);
+        if (syntax.valid) return;
+        expect(syntax.syntaxError).toMatchObject({ line: 3 });
+
+        const invalid = diagnose(JSON.stringify({ root: { type: 'layout', layout: 'stack', children: [{ type: 'mfe' }] } }), []);
+        expect(invalid.valid).toBe(false);
+        if (invalid.valid) return;
+        expect(invalid.issues[0].path).toBe('root.children[0].name');
+    });
+
+    it('should warn about MFEs that are not registered', () => {
+        const result = diagnose(JSON.stringify({ root: { type: 'mfe', name: 'hc-missing', fallback: { mfe: 'hc-records' } } }), ['hc-records']);
+        expect(result).toMatchObject({ valid: true, warnings: [{ path: 'root.name', message: 'MFE "hc-missing" is not registered' }] });
+    });
+
+    it('should complete node types, action types and MFE names', () => {
+        expect(complete('{ "root": { "type": "la|" } }')?.options.map(o => o.value)).toEqual(['layout']);
+        expect(complete('{ "type": "button", "onClick": [{ "type": "s|" }] }')?.options.map(o => o.value)).toEqual(['submitForm', 'setState', 'showToast']);
+        expect(complete('{ "type": "mfe", "on": { "select": [{ "type": "nav|" }] } }')?.options.map(o => o.value)).toEqual(['navigate']);
+        expect(complete('{ "type": "mfe", "name": "hc-|" }')).toMatchObject({ from: 26, options: MFES });
+        expect(complete('{ "name": "hc-r|", "type": "mfe" }')?.options).toEqual([MFES[1]]);
+        expect(complete('{ "fallback": { "mfe": "|" } }')?.options).toEqual(MFES);
+    });
+
+    it('should not complete other values', () => {
+        expect(complete('{ "type": "region", "name": "h|" }')).toBeNull();
+        expect(complete('{ "type": "layout|" }')).toBeNull();
+        expect(complete('{ "text": "Hel|" }')).toBeNull();
+    });
+
+    it('should only ship snippets that validate', () => {
+        for (const snippet of Object.values(SNIPPETS)) {
+            const text = snippet.section ? `{ ${snippetText(snippet)} }` : `{ "root": ${snippetText(snippet)} }`;
+            expect(diagnose(text, []).valid, snippet.label).toBe(true);
+        }
+    });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { fieldEditor, insertNode, mfeFields, mfeNode, moveNode, nodeAt, parseFieldInput, removeNode, setField } from '../composer';
+import type { BlueprintNode } from '../../../security/validator';
+
+const tree: BlueprintNode = {
+    type: 'layout',
+    layout: 'stack',
+    children: [
+        { type: 'region', name: 'header', children: [{ type: 'heading', text: 'Title' }] },
+        { type: 'outlet' },
+        { type: 'region', name: 'footer', children: [] }
+    ]
+};
+
+describe('Page composer', () => {
+    it('should insert and remove nodes by path', () => {
+        const inserted = insertNode(tree, [0], 1, { type: 'divider' });
+        expect(inserted.path).toEqual([0, 1]);
+        expect(nodeAt(inserted.root, [0, 1])).toEqual({ type: 'divider' });
+        expect(nodeAt(removeNode(inserted.root, [0, 1]), [0])).toEqual(nodeAt(tree, [0]));
+        expect(nodeAt(tree, [0, 1])).toBeUndefined();
+    });
+
+    it('should move nodes across and within containers', () => {
+        // Header region after the footer region: the footer shifts to index 1
+        const intoFooter = moveNode(tree, [0, 0], [2], 0);
+        expect(intoFooter.path).toEqual([2, 0]);
+        expect(nodeAt(intoFooter.root, [2, 0])).toEqual({ type: 'heading', text: 'Title' });
+
+        const down = moveNode(tree, [0], [], 2);
+        expect(down.path).toEqual([1]);
+        expect(nodeAt(down.root, [])).toMatchObject({ children: [{ type: 'outlet' }, { name: 'header' }, { name: 'footer' }] });
+
+        const nested = moveNode(tree, [0], [2], 0);
+        expect(nested.path).toEqual([1, 0]);
+        expect(nodeAt(nested.root, [1, 0])).toMatchObject({ name: 'header' });
+
+        expect(moveNode(tree, [0], [0], 0).root).toBe(tree);
+    });
+
+    it('should generate fields from declared or default props', () => {
+        const declared = { props: { title: { type: 'string' as const, default: 'Patients' }, pageSize: { type: 'number' as const } } };
+        expect(mfeFields(declared).map(field => field.name)).toEqual(['title', 'pageSize']);
+        expect(mfeNode('hc-patients', declared)).toEqual({ type: 'mfe', name: 'hc-patients', variables: { title: 'Patients' } });
+        expect(mfeFields({ variables: { title: 'x', compact: true } })).toEqual([
+            { name: 'title', schema: { type: 'string' } },
+            { name: 'compact', schema: { type: 'boolean' } }
+        ]);
+    });
+
+    it('should parse field input and set node fields', () => {
+        const size = { type: 'number' as const, minimum: 1 };
+        expect(parseFieldInput(size, fieldEditor(size, 10), '25')).toEqual({ value: 25 });
+        expect(parseFieldInput(size, 'number', '0')).toEqual({ error: 'Must be at least 1' });
+        expect(parseFieldInput({ type: 'string', required: true }, 'text', '')).toEqual({ error: 'Required' });
+
+        // Localized text is kept editable as JSON
+        const localized = { $i18n: { en: 'Hi' } };
+        expect(fieldEditor({ type: 'string' }, localized)).toBe('json');
+
+        const slot = setField({ type: 'mfe', name: 'hc-patients', variables: { title: 'A' } }, 'title', undefined);
+        expect(slot).toEqual({ type: 'mfe', name: 'hc-patients' });
+        expect(setField({ type: 'heading', text: 'A' }, 'level', 3)).toEqual({ type: 'heading', text: 'A', level: 3 });
+    });
+});
@@ -0,0 +1,186 @@
+/**
+ * Blueprint Editor Support
+ * Validation and autocomplete for the LiveEditor, working on the raw JSON text.
+ *
+ * Diagnostics use the same UISchema validation as the server, plus a check of
+ * MFE names against the registry. Completions are offered while the cursor is
+ * inside the string value of `type` (node or action types), `name` of an mfe
+ * node, or `mfe` of a fallback.
+ */
+
+import { validateUISchema, type Action, type BlueprintIssue, type BlueprintNode, type BlueprintNodeType, type UISchema } from '../../security/validator';
+
+// ============================================================================
+// Diagnostics
+// ============================================================================
+
+export interface SyntaxIssue {
+    message: string;
+    line: number;
+    column: number;
+}
+
+export type Diagnosis =
+    | { valid: true; uiSchema: UISchema; warnings: BlueprintIssue[] }
+    | { valid: false; syntaxError?: SyntaxIssue; issues: BlueprintIssue[] };
+
+function syntaxIssue(text: string, error: unknown): SyntaxIssue {
+    const message = error instanceof Error ? error.message : String(error);
+    const position = Number(/position (\d+)/.exec(message)?.[1] ?? text.length);
+    const lines = text.slice(0, position).split('\n');
+    return { message, line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+/**
+ * MFE slots and fallbacks naming an MFE that is not registered
+ */
+function unknownMFEs(node: BlueprintNode, known: Set<string>, path: string, found: BlueprintIssue[] = []): BlueprintIssue[] {
+    if (node.type === 'mfe') {
+        if (!known.has(node.name)) found.push({ path: `${path}.name`, message: `MFE "${node.name}" is not registered` });
+        if (node.fallback?.mfe && !known.has(node.fallback.mfe)) {
+            found.push({ path: `${path}.fallback.mfe`, message: `MFE "${node.fallback.mfe}" is not registered` });
+        }
+    }
+    if ('children' in node) {
+        node.children.forEach((child, index) => unknownMFEs(child, known, `${path}.children[${index}]`, found));
+    }
+    return found;
+}
+
+/**
+ * Parse and validate the editor text. `mfes` are the registered MFE names.
+ */
+export function diagnose(text: string, mfes: string[]): Diagnosis {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (e) {
+        return { valid: false, syntaxError: syntaxIssue(text, e), issues: [] };
+    }
+
+    const result = validateUISchema(parsed);
+    if (!result.success) {
+        return { valid: false, issues: result.issues };
+    }
+
+    const warnings = result.data.root ? unknownMFEs(result.data.root, new Set(mfes), 'root') : [];
+    return { valid: true, uiSchema: result.data, warnings };
+}
+
+// ============================================================================
+// Completions
+// ============================================================================
+
+export interface Completion {
+    value: string;
+    detail: string;
+}
+
+export interface CompletionContext {
+    /** Start of the typed value; accepting replaces the text from here to the cursor */
+    from: number;
+    options: Completion[];
+}
+
+export const NODE_TYPES: Record<BlueprintNodeType, string> = {
+    layout: 'Stack, row, grid or sidebar of children',
+    region: 'Named area of a layout',
+    mfe: 'Registered micro-frontend',
+    outlet: 'MFE of the current route',
+    text: 'Paragraph',
+    heading: 'Heading, level 1-6',
+    image: 'Image with alt text',
+    link: 'Link',
+    button: 'Button running actions',
+    form: 'Form submitting its inputs',
+    input: 'Form field',
+    divider: 'Horizontal rule'
+};
+
+export const ACTION_TYPES: Record<Action['type'], string> = {
+    navigate: 'Go to a path',
+    callFunction: 'Call a backend function',
+    submitForm: 'Send a form to a function',
+    setState: 'Store a value in host state',
+    emitEvent: 'Publish an app event',
+    showToast: 'Show a notification'
+};
+
+/** Keys whose value is a chain of actions; `on` holds chains keyed by event name */
+const ACTION_KEYS = new Set(['onClick', 'onSubmit', 'onSuccess', 'onError']);
+
+interface Frame {
+    kind: '{' | '[';
+    /** Key this object or array is the value of */
+    key: string | null;
+    start: number;
+}
+
+/**
+ * Objects and arrays still open at `end`
+ */
+function openFrames(text: string, end: number): Frame[] {
+    const frames: Frame[] = [];
+    let key: string | null = null;
+    let lastString: string | null = null;
+    let stringStart = -1;
+
+    for (let i = 0; i < end; i++) {
+        const char = text[i];
+        if (stringStart >= 0) {
+            if (char === '\\') i++;
+            else if (char === '"') {
+                lastString = text.slice(stringStart + 1, i);
+                stringStart = -1;
+            }
+            continue;
+        }
+
+        if (char === '"') stringStart = i;
+        else if (char === ':') key = lastString;
+        else if (char === '{' || char === '[') {
+            frames.push({ kind: char, key, start: i });
+            key = null;
+        } else if (char === '}' || char === ']') {
+            frames.pop();
+            key = null;
+        } else if (char === ',') key = null;
+    }
+    return frames;
+}
+
+function toCompletions(entries: Record<string, string>): Completion[] {
+    return Object.entries(entries).map(([value, detail]) => ({ value, detail }));
+}
+
+/**
+ * Completions for the cursor position, or null when there is nothing to offer
+ */
+export function completionsAt(text: string, cursor: number, mfes: Completion[]): CompletionContext | null {
+    const match = /"([a-zA-Z]+)"\s*:\s*"([^"\\\n]*)$/.exec(text.slice(Math.max(0, cursor - 200), cursor));
+    if (!match) return null;
+
+    const [, key, typed] = match;
+    const frames = openFrames(text, cursor - typed.length - 1);
+    const object = frames[frames.length - 1];
+    const list = frames[frames.length - 2];
+
+    let options: Completion[];
+    if (key === 'type') {
+        const inActions = list?.kind === '[' && (ACTION_KEYS.has(list.key || '') || frames[frames.length - 3]?.key === 'on');
+        options = toCompletions(inActions ? ACTION_TYPES : NODE_TYPES);
+    } else if (key === 'mfe' || (key === 'name' && object)) {
+        // `name` is also used by regions and callFunction; only complete it on mfe nodes
+        const nextBrace = text.slice(cursor).search(/[{}]/);
+        const body = text.slice(object?.start ?? 0, nextBrace < 0 ? text.length : cursor + nextBrace);
+        if (key === 'name' && !/"type"\s*:\s*"mfe"/.test(body)) return null;
+        options = mfes;
+    } else {
+        return null;
+    }
+
+    const prefix = typed.toLowerCase();
+    const matching = options.filter(option => option.value.toLowerCase().startsWith(prefix));
+    if (matching.length === 0 || matching.some(option => option.value === typed)) return null;
+    return { from: cursor - typed.length, options: matching };
+}
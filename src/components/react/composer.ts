@@ -0,0 +1,301 @@
+/**
+ * Page Composer Model
+ * Tree edits, palette and form fields for the PageComposer.
+ *
+ * Nodes are addressed by paths of child indices from the root (`[]` is the
+ * root itself) and every edit returns a new tree. Forms are generated from
+ * field declarations: the `props` an MFE declares in the registry (inferred
+ * from its default `variables` when it declares none), and the fixed
+ * properties of each primitive.
+ */
+
+import type { BlueprintNode, BlueprintNodeType, FormNode, LayoutNode, RegionNode } from '../../security/validator';
+import type { MFEPropSchema } from '../../types';
+
+export type NodePath = number[];
+export type ContainerNode = LayoutNode | RegionNode | FormNode;
+
+/** Registry entry of an MFE as far as the composer needs it */
+export interface ComposerMFE {
+    description?: string;
+    variables?: Record<string, unknown>;
+    props?: Record<string, MFEPropSchema>;
+}
+
+// ============================================================================
+// Tree Edits
+// ============================================================================
+
+export function isContainer(node: BlueprintNode): node is ContainerNode {
+    return 'children' in node;
+}
+
+export function nodeAt(root: BlueprintNode, path: NodePath): BlueprintNode | undefined {
+    let node: BlueprintNode | undefined = root;
+    for (const index of path) {
+        node = node && isContainer(node) ? node.children[index] : undefined;
+    }
+    return node;
+}
+
+/**
+ * Replace the node at `path` with the result of `update`
+ */
+export function updateNode(root: BlueprintNode, path: NodePath, update: (node: BlueprintNode) => BlueprintNode): BlueprintNode {
+    if (path.length === 0) return update(root);
+    if (!isContainer(root)) return root;
+
+    const [index, ...rest] = path;
+    return {
+        ...root,
+        children: root.children.map((child, i) => (i === index ? updateNode(child, rest, update) : child))
+    };
+}
+
+/**
+ * Insert `node` into the container at `parent`; returns the tree and the new node's path
+ */
+export function insertNode(root: BlueprintNode, parent: NodePath, index: number, node: BlueprintNode): { root: BlueprintNode; path: NodePath } {
+    const container = nodeAt(root, parent);
+    if (!container || !isContainer(container)) return { root, path: [] };
+
+    const at = Math.max(0, Math.min(index, container.children.length));
+    const next = updateNode(root, parent, () => ({
+        ...container,
+        children: [...container.children.slice(0, at), node, ...container.children.slice(at)]
+    }));
+    return { root: next, path: [...parent, at] };
+}
+
+/**
+ * Remove the node at `path`; the root itself cannot be removed
+ */
+export function removeNode(root: BlueprintNode, path: NodePath): BlueprintNode {
+    if (path.length === 0) return root;
+
+    const index = path[path.length - 1];
+    return updateNode(root, path.slice(0, -1), container =>
+        isContainer(container) ? { ...container, children: container.children.filter((_, i) => i !== index) } : container
+    );
+}
+
+/** Whether `path` is `ancestor` or lies inside it */
+export function isWithin(path: NodePath, ancestor: NodePath): boolean {
+    return ancestor.length <= path.length && ancestor.every((index, depth) => path[depth] === index);
+}
+
+/**
+ * Move the node at `from` into the container at `parent`, before the child
+ * that is at `index` now. Moving a node into itself leaves the tree unchanged.
+ */
+export function moveNode(root: BlueprintNode, from: NodePath, parent: NodePath, index: number): { root: BlueprintNode; path: NodePath } {
+    const node = nodeAt(root, from);
+    if (!node || from.length === 0 || isWithin(parent, from)) return { root, path: from };
+
+    // Removing the node shifts later siblings, and containers after it, back by one
+    const depth = from.length - 1;
+    const fromIndex = from[depth];
+    const target = [...parent];
+    let at = index;
+    if (isWithin(target, from.slice(0, -1))) {
+        if (target.length === from.length - 1) {
+            if (at > fromIndex) at--;
+        } else if (target[depth] > fromIndex) {
+            target[depth]--;
+        }
+    }
+
+    return insertNode(removeNode(root, from), target, at, node);
+}
+
+// ============================================================================
+// Palette
+// ============================================================================
+
+export interface PaletteItem {
+    label: string;
+    description: string;
+    node: BlueprintNode;
+}
+
+export const PRIMITIVES: PaletteItem[] = [
+    { label: 'Stack', description: 'Children from top to bottom', node: { type: 'layout', layout: 'stack', gap: 'md', children: [] } },
+    { label: 'Row', description: 'Children side by side', node: { type: 'layout', layout: 'row', gap: 'md', children: [] } },
+    { label: 'Grid', description: 'Columns of equal width', node: { type: 'layout', layout: 'grid', columns: 3, gap: 'md', children: [] } },
+    { label: 'Sidebar', description: 'Narrow column next to the content', node: { type: 'layout', layout: 'sidebar', children: [] } },
+    { label: 'Region', description: 'Named area, e.g. header or footer', node: { type: 'region', name: 'section', children: [] } },
+    { label: 'Outlet', description: 'MFE of the current route', node: { type: 'outlet' } },
+    { label: 'Heading', description: 'Section title', node: { type: 'heading', level: 2, text: 'Heading' } },
+    { label: 'Text', description: 'Paragraph', node: { type: 'text', text: 'Text' } },
+    { label: 'Image', description: 'Image with alt text', node: { type: 'image', src: '/favicon.svg', alt: '' } },
+    { label: 'Link', description: 'Link to a page', node: { type: 'link', href: '/app/', text: 'Link' } },
+    { label: 'Button', description: 'Button running actions', node: { type: 'button', text: 'Button' } },
+    { label: 'Form', description: 'Fields submitted together', node: { type: 'form', children: [] } },
+    { label: 'Input', description: 'Form field', node: { type: 'input', name: 'field', label: 'Field' } },
+    { label: 'Divider', description: 'Horizontal rule', node: { type: 'divider' } }
+];
+
+/**
+ * New slot for a registered MFE, with the defaults of its declared props
+ */
+export function mfeNode(name: string, mfe?: ComposerMFE): BlueprintNode {
+    const defaults = Object.entries(mfe?.props || {}).filter(([, prop]) => prop.default !== undefined);
+    return defaults.length > 0
+        ? { type: 'mfe', name, variables: Object.fromEntries(defaults.map(([key, prop]) => [key, prop.default])) }
+        : { type: 'mfe', name };
+}
+
+/**
+ * Short description of a node for the canvas
+ */
+export function nodeLabel(node: BlueprintNode): string {
+    switch (node.type) {
+        case 'layout': return `${node.layout[0].toUpperCase()}${node.layout.slice(1)} layout`;
+        case 'region': return `Region: ${node.name}`;
+        case 'mfe': return node.name;
+        case 'outlet': return 'Route outlet';
+        case 'heading':
+        case 'text':
+        case 'link':
+        case 'button':
+            return typeof node.text === 'string' ? node.text || node.type : `${node.type} (localized)`;
+        case 'image': return node.src;
+        case 'input': return `Input: ${node.name}`;
+        case 'form': return 'Form';
+        case 'divider': return 'Divider';
+    }
+}
+
+// ============================================================================
+// Fields
+// ============================================================================
+
+export interface Field {
+    name: string;
+    schema: MFEPropSchema;
+}
+
+export type FieldEditor = 'text' | 'multiline' | 'color' | 'url' | 'number' | 'checkbox' | 'select' | 'json';
+
+const PRIMITIVE_FIELDS: Partial<Record<BlueprintNodeType, Record<string, MFEPropSchema>>> = {
+    layout: {
+        layout: { type: 'string', title: 'Layout', enum: ['stack', 'row', 'grid', 'sidebar'], required: true },
+        columns: { type: 'number', title: 'Columns', minimum: 1, maximum: 12 },
+        gap: { type: 'string', title: 'Gap', enum: ['none', 'sm', 'md', 'lg'] }
+    },
+    region: {
+        name: { type: 'string', title: 'Name', required: true }
+    },
+    heading: {
+        text: { type: 'string', title: 'Text', required: true },
+        level: { type: 'number', title: 'Level', enum: [1, 2, 3, 4, 5, 6] }
+    },
+    text: {
+        text: { type: 'string', title: 'Text', format: 'multiline', required: true }
+    },
+    image: {
+        src: { type: 'string', title: 'Source', format: 'url', required: true },
+        alt: { type: 'string', title: 'Alt text' }
+    },
+    link: {
+        href: { type: 'string', title: 'Link to', format: 'url', required: true },
+        text: { type: 'string', title: 'Text', required: true }
+    },
+    button: {
+        text: { type: 'string', title: 'Text', required: true }
+    },
+    input: {
+        name: { type: 'string', title: 'Field name', required: true },
+        label: { type: 'string', title: 'Label' },
+        inputType: { type: 'string', title: 'Type', enum: ['text', 'email', 'number', 'date', 'password', 'textarea', 'checkbox'] },
+        placeholder: { type: 'string', title: 'Placeholder' },
+        required: { type: 'boolean', title: 'Required' }
+    }
+};
+
+function inferPropSchema(value: unknown): MFEPropSchema {
+    if (Array.isArray(value)) return { type: 'array' };
+    if (typeof value === 'number') return { type: 'number' };
+    if (typeof value === 'boolean') return { type: 'boolean' };
+    if (value && typeof value === 'object') return { type: 'object' };
+    return { type: 'string' };
+}
+
+/**
+ * Fields of an MFE's `variables`: its declared props, or its registry defaults
+ */
+export function mfeFields(mfe: ComposerMFE): Field[] {
+    if (mfe.props) {
+        return Object.entries(mfe.props).map(([name, schema]) => ({ name, schema }));
+    }
+    return Object.entries(mfe.variables || {}).map(([name, value]) => ({ name, schema: inferPropSchema(value) }));
+}
+
+/**
+ * Fields of a primitive node's own properties
+ */
+export function primitiveFields(type: BlueprintNodeType): Field[] {
+    return Object.entries(PRIMITIVE_FIELDS[type] || {}).map(([name, schema]) => ({ name, schema }));
+}
+
+/**
+ * Input used for a field. Values of another shape than declared (such as
+ * localized `$i18n` text) are edited as JSON so they are not lost.
+ */
+export function fieldEditor(schema: MFEPropSchema, value: unknown): FieldEditor {
+    const matches = value === undefined
+        || (schema.type === 'array' ? Array.isArray(value) : schema.type === 'object' ? typeof value === 'object' && value !== null && !Array.isArray(value) : typeof value === schema.type);
+    if (!matches || schema.type === 'array' || schema.type === 'object') return 'json';
+    if (schema.enum) return 'select';
+    if (schema.type === 'number') return 'number';
+    if (schema.type === 'boolean') return 'checkbox';
+    return schema.format || 'text';
+}
+
+/**
+ * Convert form input to a field value; `undefined` clears an optional field
+ */
+export function parseFieldInput(schema: MFEPropSchema, editor: FieldEditor, input: string | boolean): { value?: unknown; error?: string } {
+    if (editor === 'checkbox') return { value: input === true };
+
+    const raw = String(input);
+    if (raw.trim() === '') {
+        return schema.required ? { error: 'Required' } : { value: undefined };
+    }
+
+    if (editor === 'json') {
+        try {
+            return { value: JSON.parse(raw) };
+        } catch {
+            return { error: 'Invalid JSON' };
+        }
+    }
+
+    if (schema.type === 'number') {
+        const value = Number(raw);
+        if (Number.isNaN(value)) return { error: 'Must be a number' };
+        if (schema.minimum !== undefined && value < schema.minimum) return { error: `Must be at least ${schema.minimum}` };
+        if (schema.maximum !== undefined && value > schema.maximum) return { error: `Must be at most ${schema.maximum}` };
+        return { value };
+    }
+    return { value: raw };
+}
+
+/**
+ * Set one field of a node: an MFE variable, or a primitive's own property
+ */
+export function setField(node: BlueprintNode, name: string, value: unknown): BlueprintNode {
+    const assign = (target: Record<string, unknown>) => {
+        const next = { ...target };
+        if (value === undefined) delete next[name];
+        else next[name] = value;
+        return next;
+    };
+
+    if (node.type === 'mfe') {
+        const variables = assign(node.variables || {});
+        const { variables: _previous, ...rest } = node;
+        return Object.keys(variables).length > 0 ? { ...rest, variables } : rest;
+    }
+    return assign(node as unknown as Record<string, unknown>) as unknown as BlueprintNode;
+}
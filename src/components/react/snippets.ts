@@ -0,0 +1,160 @@
+/**
+ * Blueprint Snippets
+ * The LiveEditor's snippet library: nodes, and top-level sections inserted as
+ * `"key": value` properties. Every snippet is a valid part of a UI schema.
+ */
+
+import type { BlueprintNode, Navigation, Theme } from '../../security/validator';
+
+export interface Snippet {
+    label: string;
+    description: string;
+    /** Top-level section this snippet fills, e.g. `theme`; nodes have none */
+    section?: 'theme' | 'navigation' | 'i18n';
+    value: BlueprintNode | Theme | Navigation | Record<string, unknown>;
+}
+
+export const SNIPPETS: Record<string, Snippet> = {
+    page: {
+        label: 'Page layout',
+        description: 'Header region, routed MFE and footer',
+        value: {
+            type: 'layout',
+            layout: 'stack',
+            gap: 'md',
+            children: [
+                { type: 'region', name: 'header', children: [{ type: 'heading', level: 1, text: 'Page title' }] },
+                { type: 'outlet' },
+                { type: 'region', name: 'footer', children: [{ type: 'text', text: '© Company' }] }
+            ]
+        }
+    },
+    sidebar: {
+        label: 'Sidebar layout',
+        description: 'Fixed sidebar next to the content',
+        value: {
+            type: 'layout',
+            layout: 'sidebar',
+            children: [
+                { type: 'region', name: 'sidebar', children: [] },
+                { type: 'region', name: 'main', children: [{ type: 'outlet' }] }
+            ]
+        }
+    },
+    grid: {
+        label: 'Grid',
+        description: 'Columns of cards',
+        value: { type: 'layout', layout: 'grid', columns: 3, gap: 'md', children: [] }
+    },
+    mfe: {
+        label: 'MFE slot',
+        description: 'A registered micro-frontend with variables',
+        value: { type: 'mfe', name: 'hc-dashboard', variables: { title: 'Dashboard' } }
+    },
+    dataMfe: {
+        label: 'MFE with data',
+        description: 'Loads a function result on the server and passes it as a prop',
+        value: {
+            type: 'mfe',
+            name: 'hc-patients',
+            data: {
+                patients: { kind: 'function', name: 'listPatients', params: { search: { source: 'query', path: 'q' } } }
+            }
+        }
+    },
+    outlet: {
+        label: 'Outlet',
+        description: 'Where the MFE of the current route renders',
+        value: { type: 'outlet' }
+    },
+    heading: {
+        label: 'Heading',
+        description: 'Localized section title',
+        value: { type: 'heading', level: 2, text: { $i18n: { en: 'Patients', ar: 'المرضى' } } }
+    },
+    text: {
+        label: 'Text',
+        description: 'Paragraph bound to a translation',
+        value: { type: 'text', text: '', bindings: { text: { source: 'messages', path: 'home.intro' } } }
+    },
+    image: {
+        label: 'Image',
+        description: 'Image with alt text',
+        value: { type: 'image', src: '/favicon.svg', alt: 'Logo' }
+    },
+    link: {
+        label: 'Link',
+        description: 'Link to another app page',
+        value: { type: 'link', href: '/app/patients', text: 'All patients' }
+    },
+    button: {
+        label: 'Button',
+        description: 'Navigates with a route param',
+        value: {
+            type: 'button',
+            text: 'Open records',
+            onClick: [{ type: 'navigate', to: '/app/patients/:patientId/records', params: { patientId: { source: 'route', path: 'patientId' } } }]
+        }
+    },
+    form: {
+        label: 'Form',
+        description: 'Submits its fields to a function and shows a toast',
+        value: {
+            type: 'form',
+            id: 'contact',
+            children: [
+                { type: 'input', name: 'email', label: 'Email', inputType: 'email', required: true },
+                { type: 'input', name: 'message', label: 'Message', inputType: 'textarea' },
+                { type: 'button', text: 'Send' }
+            ],
+            onSubmit: [{
+                type: 'submitForm',
+                form: 'contact',
+                function: 'sendMessage',
+                onSuccess: [{ type: 'showToast', message: 'Message sent', variant: 'success' }],
+                onError: [{ type: 'showToast', message: 'Could not send the message', variant: 'error' }]
+            }]
+        }
+    },
+    divider: {
+        label: 'Divider',
+        description: 'Horizontal rule',
+        value: { type: 'divider' }
+    },
+    theme: {
+        label: 'Theme',
+        description: 'Brand colors, fonts and dark mode',
+        section: 'theme',
+        value: {
+            mode: 'system',
+            colors: { primary: '#0f766e', 'primary-foreground': '#ffffff' },
+            dark: { colors: { primary: '#2dd4bf' } },
+            typography: { fontFamily: 'Inter, system-ui, sans-serif' },
+            radii: { md: '0.75rem' }
+        }
+    },
+    navigation: {
+        label: 'Navigation',
+        description: 'Sidebar menu derived from the routes',
+        section: 'navigation',
+        value: {
+            layout: 'sidebar',
+            menus: { secondary: [{ label: 'Settings', path: '/settings' }] },
+            breadcrumbs: true
+        }
+    },
+    i18n: {
+        label: 'Locales',
+        description: 'Languages the app is published in',
+        section: 'i18n',
+        value: { defaultLocale: 'en', locales: ['en', 'ar'] }
+    }
+};
+
+/**
+ * Snippet as JSON text, indented to continue a line that starts with `indent`
+ */
+export function snippetText(snippet: Snippet, indent = ''): string {
+    const json = JSON.stringify(snippet.value, null, 2).replace(/\n/g, '\n' + indent);
+    return snippet.section ? `"${snippet.section}": ${json}` : json;
+}
@@ -0,0 +1,243 @@
+import React, { useEffect, useSyncExternalStore } from 'react';
+import { RemoteRenderer } from './RemoteRenderer';
+import { hostActions, readFormValues, type PageContext, type Toast } from './actions';
+import { isSafeBoundValue, resolveBinding } from '../../platform/bindings';
+import type { ResolvedNode, MFESpec } from '../../platform/renderer';
+import type { Action } from '../../security/validator';
+
+interface BlueprintRendererProps {
+    nodes: ResolvedNode[];
+    /** Route params, query and messages of the page, available to action bindings, and its project */
+    context?: PageContext;
+}
+
+type PrimitiveNode = Exclude<ResolvedNode, { type: 'layout' | 'region' | 'form' | 'mfe' | 'outlet' }>;
+
+const GAP_CLASSES: Record<string, string> = {
+    none: 'gap-0',
+    sm: 'gap-2',
+    md: 'gap-4',
+    lg: 'gap-8'
+};
+
+const LAYOUT_CLASSES: Record<string, string> = {
+    stack: 'flex flex-col',
+    row: 'flex flex-row flex-wrap',
+    grid: 'grid',
+    sidebar: 'grid grid-cols-[16rem_1fr]'
+};
+
+const TOAST_CLASSES: Record<string, string> = {
+    info: 'bg-gray-900 text-white',
+    success: 'bg-success text-white',
+    error: 'bg-danger text-white'
+};
+
+const INPUT_CLASSES = 'px-3 py-2 bg-background border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary';
+
+const EMPTY_STATE: Record<string, unknown> = {};
+const NO_TOASTS: Toast[] = [];
+
+const HEADING_CLASSES: Record<number, string> = {
+    1: 'text-4xl font-bold',
+    2: 'text-3xl font-bold',
+    3: 'text-2xl font-semibold',
+    4: 'text-xl font-semibold',
+    5: 'text-lg font-medium',
+    6: 'text-base font-medium'
+};
+
+function cx(...classes: Array<string | undefined | false>): string {
+    return classes.filter(Boolean).join(' ');
+}
+
+function renderMFE(spec: MFESpec | null, fallback: React.ReactNode, on?: Record<string, Action[]>) {
+    if (!spec) return fallback;
+    return <RemoteRenderer mfeSpec={spec} on={on} />;
+}
+
+function runActions(actions: Action[] | undefined, event?: unknown) {
+    if (actions?.length) hostActions.run(actions, { event });
+}
+
+/**
+ * Primitive with fields bound to host state; re-renders when the state changes.
+ * Its other bindings read the page's route params, query and messages.
+ */
+const LivePrimitive: React.FC<{ node: PrimitiveNode; page?: PageContext }> = ({ node, page }) => {
+    const state = useSyncExternalStore(hostActions.state.subscribe, hostActions.state.get, () => EMPTY_STATE);
+    const resolved: Record<string, unknown> = {};
+    for (const [field, binding] of Object.entries(node.live || {})) {
+        const value = resolveBinding(binding, { route: {}, query: {}, ...page, state });
+        if (isSafeBoundValue(field, value)) resolved[field] = value;
+    }
+    return <>{renderPrimitive({ ...node, ...resolved } as PrimitiveNode, undefined)}</>;
+};
+
+const Toaster: React.FC = () => {
+    const toasts = useSyncExternalStore(hostActions.toasts.subscribe, hostActions.toasts.get, () => NO_TOASTS);
+    if (toasts.length === 0) return null;
+
+    return (
+        <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2" role="status">
+            {toasts.map(toast => (
+                <div key={toast.id} className={cx('px-4 py-3 rounded shadow-lg text-sm', TOAST_CLASSES[toast.variant])}>
+                    {toast.message}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+function renderInput(node: Extract<ResolvedNode, { type: 'input' }>, key: React.Key | undefined): React.ReactNode {
+    if (node.inputType === 'checkbox') {
+        return (
+            <label key={key} className={cx('flex items-center gap-2 text-sm', node.className)}>
+                <input id={node.id} type="checkbox" name={node.name} defaultChecked={node.defaultValue === 'true'} required={node.required} />
+                {node.label}
+            </label>
+        );
+    }
+
+    const common = {
+        id: node.id,
+        name: node.name,
+        placeholder: node.placeholder,
+        required: node.required,
+        defaultValue: node.defaultValue,
+        className: INPUT_CLASSES
+    };
+
+    return (
+        <label key={key} className={cx('flex flex-col gap-1 text-sm text-foreground', node.className)}>
+            {node.label}
+            {node.inputType === 'textarea' ? <textarea {...common} rows={4} /> : <input {...common} type={node.inputType || 'text'} />}
+        </label>
+    );
+}
+
+function renderPrimitive(node: PrimitiveNode, key: React.Key | undefined): React.ReactNode {
+    switch (node.type) {
+        case 'text':
+            return <p key={key} id={node.id} className={node.className}>{node.text}</p>;
+
+        case 'heading': {
+            // Clamped so a stored level outside 1-6 cannot name another element
+            const level = Math.min(Math.max(Math.trunc(Number(node.level)) || 2, 1), 6);
+            const Tag = `h${level}` as 'h2';
+            return <Tag key={key} id={node.id} className={cx(HEADING_CLASSES[level], node.className)}>{node.text}</Tag>;
+        }
+
+        case 'image':
+            return <img key={key} id={node.id} src={node.src} alt={node.alt || ''} className={node.className} />;
+
+        case 'link':
+            return <a key={key} id={node.id} href={node.href} className={cx('text-primary hover:underline', node.className)}>{node.text}</a>;
+
+        case 'button':
+            // Without actions a button submits its enclosing form
+            return (
+                <button
+                    key={key}
+                    id={node.id}
+                    type={node.onClick ? 'button' : 'submit'}
+                    onClick={node.onClick ? () => runActions(node.onClick) : undefined}
+                    className={cx('px-4 py-2 bg-primary text-primary-foreground rounded-md hover:opacity-90', node.className)}
+                >
+                    {node.text}
+                </button>
+            );
+
+        case 'input':
+            return renderInput(node, key);
+
+        case 'divider':
+            return <hr key={key} id={node.id} className={cx('border-border', node.className)} />;
+
+        default:
+            return null;
+    }
+}
+
+function renderNode(node: ResolvedNode, key: React.Key, page: PageContext | undefined): React.ReactNode {
+    switch (node.type) {
+        case 'layout': {
+            const style = node.layout === 'grid'
+                ? { gridTemplateColumns: `repeat(${node.columns || 2}, minmax(0, 1fr))` }
+                : undefined;
+            return (
+                <div
+                    key={key}
+                    id={node.id}
+                    className={cx(LAYOUT_CLASSES[node.layout], GAP_CLASSES[node.gap || 'md'], node.className)}
+                    style={style}
+                >
+                    {node.children.map((child, i) => renderNode(child, child.id || i, page))}
+                </div>
+            );
+        }
+
+        case 'region':
+            return (
+                <section key={key} id={node.id} data-region={node.name} className={node.className}>
+                    {node.children.map((child, i) => renderNode(child, child.id || i, page))}
+                </section>
+            );
+
+        case 'form':
+            return (
+                <form
+                    key={key}
+                    id={node.id}
+                    className={cx('flex flex-col gap-4', node.className)}
+                    onSubmit={event => {
+                        event.preventDefault();
+                        runActions(node.onSubmit, readFormValues(event.currentTarget));
+                    }}
+                >
+                    {node.children.map((child, i) => renderNode(child, child.id || i, page))}
+                </form>
+            );
+
+        case 'mfe':
+            return (
+                <div key={key} id={node.id} className={node.className}>
+                    {renderMFE(node.spec, (
+                        <div className="p-4 bg-yellow-50 text-yellow-700 border border-yellow-200 rounded">
+                            MFE not registered: {node.missing}
+                        </div>
+                    ), node.on)}
+                </div>
+            );
+
+        case 'outlet':
+            return (
+                <div key={key} id={node.id} className={node.className}>
+                    {renderMFE(node.spec, (
+                        <div className="p-8 text-center text-gray-500">Page not found</div>
+                    ))}
+                </div>
+            );
+
+        default:
+            return node.live ? <LivePrimitive key={key} node={node} page={page} /> : renderPrimitive(node, key);
+    }
+}
+
+/**
+ * Renders a resolved SDUI blueprint tree.
+ * MFE and outlet nodes are mounted through RemoteRenderer; primitives render statically
+ * and run their actions through the host action runtime.
+ */
+export const BlueprintRenderer: React.FC<BlueprintRendererProps> = ({ nodes, context }) => {
+    useEffect(() => {
+        if (context) hostActions.setPageContext(context);
+    }, [context]);
+
+    return (
+        <>
+            {nodes.map((node, i) => renderNode(node, node.id || i, context))}
+            <Toaster />
+        </>
+    );
+};
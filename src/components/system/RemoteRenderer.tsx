@@ -1,50 +1,274 @@
-import React, { useEffect, useState, type ComponentType } from 'react';
+import React, { useCallback, useEffect, useRef, useState, type ComponentType, type ErrorInfo, type ReactNode } from 'react';
+import { createPortal } from 'react-dom';
+import { hydrateRoot, type Root } from 'react-dom/client';
+import type { MFESpec } from '../../platform/renderer';
+import { createSharedDeps, exposeGlobalReact, provideSharedModules, type SharedDeps } from './shared-deps';
+import { hostEventBus, type ScopedEventBus } from './event-bus';
+import { loadMFEWithRetry, reportMFEFailure } from './mfe-loader';
+import { hostActions } from './actions';
+import { attachShadowContainer, ensureStylesheet } from './mfe-styles';
+import type { Action } from '../../security/validator';
 
 interface RemoteRendererProps {
-    mfeSpec: {
-        url: string;
-        name: string;
-        props?: Record<string, any>;
-    };
+    mfeSpec: MFESpec;
+    /** Blueprint actions keyed by the event of this MFE that triggers them */
+    on?: Record<string, Action[]>;
+}
+
+/**
+ * mount()-style MFE contract, as exported by the bundles in public/mfe
+ */
+type MountFn = (
+    container: HTMLElement,
+    context: { deps: SharedDeps; eventBus: ScopedEventBus; config: Record<string, any> }
+) => void | (() => void);
+
+type LoadedMFE =
+    | { kind: 'component'; Component: ComponentType<any> }
+    | { kind: 'mount'; mount: MountFn };
+
+/**
+ * What a failed MFE renders instead: its fallback MFE, its fallback text, or the error
+ */
+const MFEFailure: React.FC<{ mfeSpec: MFESpec; message: string }> = ({ mfeSpec, message }) => {
+    const fallback = mfeSpec.fallback;
+
+    if (fallback?.spec) {
+        return <RemoteRenderer mfeSpec={fallback.spec} />;
+    }
+
+    if (fallback?.text !== undefined) {
+        return <div className="p-4 bg-gray-50 text-gray-600 border border-gray-200 rounded" data-mfe-fallback={mfeSpec.name}>{fallback.text}</div>;
+    }
+
+    return <div className="p-4 bg-red-50 text-red-500 border border-red-200 rounded">Error: {message}</div>;
+};
+
+interface MFEErrorBoundaryProps {
+    mfeSpec: MFESpec;
+    children: ReactNode;
 }
 
-export const RemoteRenderer: React.FC<RemoteRendererProps> = ({ mfeSpec }) => {
-    const [Component, setComponent] = useState<ComponentType<any> | null>(null);
+/**
+ * Contains render errors thrown by one MFE so the rest of the page keeps working
+ */
+class MFEErrorBoundary extends React.Component<MFEErrorBoundaryProps, { error: Error | null }> {
+    state = { error: null as Error | null };
+
+    static getDerivedStateFromError(error: Error) {
+        return { error };
+    }
+
+    componentDidCatch(error: Error, info: ErrorInfo) {
+        console.error(`MFE ${this.props.mfeSpec.name} crashed:`, error);
+        reportMFEFailure({
+            type: 'runtime_error',
+            mfe: this.props.mfeSpec.name,
+            url: this.props.mfeSpec.url,
+            version: this.props.mfeSpec.version,
+            message: error.message || String(error),
+            details: { componentStack: info.componentStack?.slice(0, 2000) }
+        });
+    }
+
+    render() {
+        if (this.state.error) {
+            return <MFEFailure mfeSpec={this.props.mfeSpec} message={this.state.error.message || 'Component crashed'} />;
+        }
+        return this.props.children;
+    }
+}
+
+/**
+ * Mounts one MFE inside its own error boundary.
+ * Load failures (after retries) and crashes render the MFE's fallback.
+ * Server-rendered MFEs (`mfeSpec.html`) show their markup until the bundle is
+ * loaded, then hydrate it in a root of their own.
+ * `encapsulation: 'shadow'` MFEs render inside a shadow root holding their
+ * stylesheet; the stylesheet of other MFEs is linked into the page.
+ */
+export const RemoteRenderer: React.FC<RemoteRendererProps> = ({ mfeSpec, on }) => {
+    // Run blueprint actions when this MFE emits a mapped event
+    const onKey = JSON.stringify(on || {});
+    useEffect(() => {
+        const handlers: Record<string, Action[]> = JSON.parse(onKey);
+        const unsubscribes = Object.entries(handlers).map(([event, actions]) =>
+            hostEventBus.on(`${mfeSpec.name}:${event}`, payload => {
+                hostActions.run(actions, { event: payload });
+            }, { replay: false })
+        );
+        return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+    }, [mfeSpec.name, onKey]);
+
+    return (
+        <MFEErrorBoundary key={mfeSpec.url} mfeSpec={mfeSpec}>
+            <RemoteMFE mfeSpec={mfeSpec} />
+        </MFEErrorBoundary>
+    );
+};
+
+const RemoteMFE: React.FC<RemoteRendererProps> = ({ mfeSpec }) => {
+    const [loaded, setLoaded] = useState<LoadedMFE | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const [eventBus, setEventBus] = useState<ScopedEventBus | null>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const hydratedRoot = useRef<Root | null>(null);
+    const [shadowContainer, setShadowContainer] = useState<HTMLElement | null>(null);
+    const shadow = mfeSpec.encapsulation === 'shadow';
+
+    // Remount only when the config actually changes, not on every parent render
+    const configKey = JSON.stringify(mfeSpec.props || {});
 
     useEffect(() => {
         if (!mfeSpec?.url) return;
 
+        let cancelled = false;
+        setError(null);
+        setLoaded(null);
+
         const loadComponent = async () => {
             try {
-                // Dynamically import the module from the URL
+                exposeGlobalReact();
+                provideSharedModules();
+
+                // Fetch, verify against the registry integrity, then evaluate (retried per the loading policy)
                 // Note: The URL must be accessible and return an ESM module
-                const module = await import(/* @vite-ignore */ mfeSpec.url);
+                const module = await loadMFEWithRetry(mfeSpec);
+                if (cancelled) return;
 
-                // Expecting default export or a named export matching the name
-                if (module.default) {
-                    setComponent(() => module.default);
+                // Expecting a mount() export, a default export or a named export matching the name
+                if (typeof module.mount === 'function') {
+                    setLoaded({ kind: 'mount', mount: module.mount });
+                } else if (module.default) {
+                    setLoaded({ kind: 'component', Component: module.default });
                 } else if (module[mfeSpec.name]) {
-                    setComponent(() => module[mfeSpec.name]);
+                    setLoaded({ kind: 'component', Component: module[mfeSpec.name] });
                 } else {
-                    throw new Error(`Component ${mfeSpec.name} not found in module ${mfeSpec.url}`);
+                    const message = `Component ${mfeSpec.name} not found in module ${mfeSpec.url}`;
+                    reportMFEFailure({ type: 'load_error', mfe: mfeSpec.name, url: mfeSpec.url, version: mfeSpec.version, message });
+                    throw new Error(message);
                 }
             } catch (err: any) {
+                if (cancelled) return;
                 console.error(`Failed to load MFE ${mfeSpec.name}:`, err);
                 setError(err.message || 'Failed to load component');
             }
         };
 
         loadComponent();
-    }, [mfeSpec.url, mfeSpec.name]);
+        return () => {
+            cancelled = true;
+        };
+    }, [mfeSpec.url, mfeSpec.name, mfeSpec.integrity]);
+
+    useEffect(() => {
+        if (!shadow && mfeSpec.styles) ensureStylesheet(document, mfeSpec.styles);
+    }, [shadow, mfeSpec.styles]);
+
+    // Called when the shadow host mounts; the MFE is portaled into its shadow root
+    const shadowHostRef = useCallback((host: HTMLDivElement | null) => {
+        setShadowContainer(host ? attachShadowContainer(host, mfeSpec.styles) : null);
+    }, [mfeSpec.styles]);
+
+    // One bus handle per mounted MFE; its subscriptions are dropped on unmount
+    useEffect(() => {
+        hostEventBus.registerSchemas(mfeSpec.name, mfeSpec.events);
+        const scoped = hostEventBus.scope(mfeSpec.name);
+        setEventBus(scoped);
+        return () => scoped.dispose();
+    }, [mfeSpec.name]);
+
+    // Render errors of roots outside the error boundary: the hydrated root and mount()-style roots
+    const failAtRuntime = (err: unknown) => {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`MFE ${mfeSpec.name} crashed:`, err);
+        reportMFEFailure({ type: 'runtime_error', mfe: mfeSpec.name, url: mfeSpec.url, version: mfeSpec.version, message });
+        setError(message || 'Component crashed');
+    };
+
+    useEffect(() => {
+        if (loaded?.kind !== 'mount' || !eventBus || !containerRef.current) return;
+
+        const container = containerRef.current;
+        let unmount: void | (() => void);
+        try {
+            unmount = loaded.mount(container, {
+                // Roots the MFE renders through these report crashes and show the fallback
+                deps: createSharedDeps(failAtRuntime),
+                eventBus,
+                config: JSON.parse(configKey)
+            });
+        } catch (err: any) {
+            console.error(`Failed to mount MFE ${mfeSpec.name}:`, err);
+            reportMFEFailure({
+                type: 'runtime_error',
+                mfe: mfeSpec.name,
+                url: mfeSpec.url,
+                version: mfeSpec.version,
+                message: err?.message || String(err)
+            });
+            setError(err?.message || 'Failed to mount component');
+            return;
+        }
+
+        return () => {
+            try {
+                if (typeof unmount === 'function') unmount();
+            } catch (err) {
+                console.error(`Failed to unmount MFE ${mfeSpec.name}:`, err);
+            }
+        };
+    }, [loaded, eventBus, configKey, shadowContainer]);
+
+    // Hydrate server-rendered markup; later config changes re-render the same root
+    useEffect(() => {
+        if (!mfeSpec.html || loaded?.kind !== 'component' || !eventBus || !containerRef.current) return;
+
+        const { Component } = loaded;
+        const variables = JSON.parse(configKey);
+        const element = <Component {...variables} eventBus={eventBus} context={{ variables, eventBus }} />;
+
+        if (hydratedRoot.current) {
+            hydratedRoot.current.render(element);
+            return;
+        }
+
+        hydratedRoot.current = hydrateRoot(containerRef.current, element, {
+            onRecoverableError: (err) => {
+                console.warn(`MFE ${mfeSpec.name} did not match its server markup and was rendered on the client:`, err);
+            },
+            onUncaughtError: failAtRuntime
+        });
+    }, [loaded, eventBus, configKey]);
+
+    useEffect(() => () => {
+        hydratedRoot.current?.unmount();
+        hydratedRoot.current = null;
+    }, []);
 
     if (error) {
-        return <div className="p-4 bg-red-50 text-red-500 border border-red-200 rounded">Error: {error}</div>;
+        return <MFEFailure mfeSpec={mfeSpec} message={error} />;
+    }
+
+    // Server markup stays in place while the bundle loads and once it is hydrated
+    if (mfeSpec.html && loaded?.kind !== 'mount') {
+        return <div ref={containerRef} data-mfe={mfeSpec.name} data-mfe-ssr="" dangerouslySetInnerHTML={{ __html: mfeSpec.html }}></div>;
     }
 
-    if (!Component) {
+    if (!loaded || !eventBus) {
         return <div className="animate-pulse bg-gray-200 h-32 w-full rounded"></div>;
     }
 
-    return <Component {...(mfeSpec.props || {})} />;
+    const encapsulate = (content: ReactNode) => shadow
+        ? <div ref={shadowHostRef} data-mfe={mfeSpec.name} data-mfe-shadow="">{shadowContainer && createPortal(content, shadowContainer)}</div>
+        : content;
+
+    if (loaded.kind === 'mount') {
+        return encapsulate(<div ref={containerRef} data-mfe={mfeSpec.name}></div>);
+    }
+
+    // Component-style MFEs read their variables from `context` as well as from props
+    const { Component } = loaded;
+    const variables = mfeSpec.props || {};
+    return encapsulate(<Component {...variables} eventBus={eventBus} context={{ variables, eventBus }} />);
 };
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ActionRuntime, buildPath, PREVIEW_HEADER, PROJECT_HEADER } from '../actions';
+import { EventBus } from '../event-bus';
+
+function createRuntime(responses: Array<{ ok: boolean; status?: number; body: unknown }>) {
+    const env = {
+        navigate: vi.fn(),
+        fetch: vi.fn(async () => {
+            const next = responses.shift()!;
+            return { ok: next.ok, status: next.status || 200, json: async () => next.body } as Response;
+        }),
+        readForm: vi.fn((id: string) => (id === 'patient-form' ? { name: 'Emma Wilson', consent: true } : null))
+    };
+    const bus = new EventBus();
+    return { runtime: new ActionRuntime(bus, env), env, bus };
+}
+
+describe('SDUI Action Runtime', () => {
+    it('should chain a function call into state, events and navigation', async () => {
+        const { runtime, env, bus } = createRuntime([{ ok: true, body: { id: 'P009' } }]);
+        const handler = vi.fn();
+        bus.on('app:patient-created', handler);
+        runtime.setPageContext({ route: { ward: 'A' }, query: {} });
+
+        const ok = await runtime.run([{
+            type: 'submitForm',
+            form: 'patient-form',
+            function: 'createPatient',
+            assign: 'lastPatient',
+            onSuccess: [
+                { type: 'emitEvent', event: 'patient-created', payload: { id: { source: 'result', path: 'id' } } },
+                { type: 'navigate', to: '/patients/:id', params: { id: { source: 'state', path: 'lastPatient.id' }, ward: { source: 'route', path: 'ward' } } }
+            ]
+        }]);
+
+        expect(ok).toBe(true);
+        expect(env.fetch).toHaveBeenCalledWith('/api/functions/createPatient', expect.objectContaining({
+            method: 'POST',
+            body: JSON.stringify({ name: 'Emma Wilson', consent: true })
+        }));
+        expect(runtime.state.get()).toEqual({ lastPatient: { id: 'P009' } });
+        expect(handler).toHaveBeenCalledWith({ id: 'P009' }, 'app:patient-created');
+        expect(env.navigate).toHaveBeenCalledWith('/patients/P009?ward=A', false);
+    });
+
+    it('should run the failure branch and skip the rest of the chain', async () => {
+        const { runtime, env } = createRuntime([{ ok: false, status: 500, body: { error: 'Database locked' } }]);
+
+        const ok = await runtime.run([
+            {
+                type: 'callFunction',
+                name: 'listPatients',
+                params: { ward: 'A' },
+                onError: [{ type: 'showToast', message: { source: 'result', path: 'error' }, variant: 'error' }]
+            },
+            { type: 'navigate', to: '/patients' }
+        ]);
+
+        expect(ok).toBe(false);
+        expect(env.fetch).toHaveBeenCalledWith('/api/functions/listPatients?ward=A', expect.objectContaining({ method: 'GET' }));
+        expect(runtime.toasts.get()).toMatchObject([{ message: 'Database locked', variant: 'error' }]);
+        expect(env.navigate).not.toHaveBeenCalled();
+    });
+
+    it('should name and prove the page\'s project when calling functions', async () => {
+        const { runtime, env } = createRuntime([{ ok: true, body: [] }, { ok: true, body: [] }]);
+
+        await runtime.run([{ type: 'callFunction', name: 'listPatients' }]);
+        expect((env.fetch.mock.calls[0] as any[])[1].headers).not.toHaveProperty(PROJECT_HEADER);
+
+        runtime.setPageContext({ route: {}, query: {}, projectId: 'p-acme', previewToken: 'token' });
+        await runtime.run([{ type: 'callFunction', name: 'listPatients' }]);
+        expect((env.fetch.mock.calls[1] as any[])[1].headers).toMatchObject({ [PROJECT_HEADER]: 'p-acme', [PREVIEW_HEADER]: 'token' });
+    });
+
+    it('should fail navigation when a path parameter is missing', () => {
+        expect(buildPath('/patients/:id/records', { id: 'P 1', tab: 'notes' })).toBe('/patients/P%201/records?tab=notes');
+        expect(() => buildPath('/patients/:id', {})).toThrow('Missing navigation parameter: id');
+    });
+});
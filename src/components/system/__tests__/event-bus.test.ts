@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventBus, EventPayloadError } from '../event-bus';
+
+describe('Host Event Bus', () => {
+    it('should namespace scoped emits and replay the last payload', () => {
+        const bus = new EventBus();
+        const patients = bus.scope('hc-patients');
+        patients.emit('patient-selected', { id: 'P001' });
+
+        const handler = vi.fn();
+        bus.scope('hc-records').on('hc-patients:patient-selected', handler);
+
+        expect(handler).toHaveBeenCalledWith({ id: 'P001' }, 'hc-patients:patient-selected');
+    });
+
+    it('should reject emits into another namespace', () => {
+        const bus = new EventBus();
+        expect(() => bus.scope('hc-records').emit('hc-patients:patient-selected', {})).toThrow();
+    });
+
+    it('should validate payloads against registered schemas', () => {
+        const bus = new EventBus();
+        bus.registerSchemas('hc-patients', {
+            'patient-selected': { type: 'object', required: ['id'], properties: { id: { type: 'string' } } }
+        });
+
+        const scoped = bus.scope('hc-patients');
+        expect(() => scoped.emit('patient-selected', { id: 1 })).toThrow(EventPayloadError);
+        expect(() => scoped.emit('patient-selected', {})).toThrow('payload.id is required');
+        expect(() => scoped.emit('patient-selected', { id: 'P001' })).not.toThrow();
+    });
+
+    it('should drop subscriptions when a scope is disposed', () => {
+        const bus = new EventBus();
+        const handler = vi.fn();
+        const records = bus.scope('hc-records');
+        records.on('hc-patients:patient-selected', handler);
+        records.dispose();
+
+        bus.emit('hc-patients:patient-selected', { id: 'P002' });
+        expect(handler).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { computeIntegrity, verifyIntegrity, loadMFEModule, loadMFEWithRetry, IntegrityError } from '../mfe-loader';
+
+const encode = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+describe('MFE Loader', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should accept content matching any listed hash', async () => {
+        const content = encode('export const mount = () => {};');
+        const sha384 = await computeIntegrity(content);
+
+        expect(sha384.startsWith('sha384-')).toBe(true);
+        expect((await verifyIntegrity(content, `sha256-bogus ${sha384}`)).valid).toBe(true);
+    });
+
+    it('should reject tampered content and report the computed hash', async () => {
+        const expected = await computeIntegrity(encode('original'));
+        const result = await verifyIntegrity(encode('tampered'), expected);
+
+        expect(result.valid).toBe(false);
+        expect(result.actual).toBe(await computeIntegrity(encode('tampered')));
+    });
+
+    it('should refuse to evaluate a mismatching bundle and report it', async () => {
+        const expected = await computeIntegrity(encode('original'));
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce({ ok: true, arrayBuffer: async () => encode('tampered') })
+            .mockResolvedValue({ ok: true });
+        vi.stubGlobal('fetch', fetchMock);
+        vi.stubGlobal('navigator', {});
+
+        await expect(loadMFEModule({ name: 'hc-records', url: '/mfe/hc-records.js', integrity: expected }))
+            .rejects.toBeInstanceOf(IntegrityError);
+
+        const [url, init] = fetchMock.mock.calls[1];
+        expect(url).toBe('/api/mfe/report');
+        expect(JSON.parse(init.body)).toMatchObject({ type: 'integrity_mismatch', mfe: 'hc-records' });
+    });
+
+    it('should refuse bundles without an integrity hash and report them', async () => {
+        const fetchMock = vi.fn().mockResolvedValue({ ok: true });
+        vi.stubGlobal('fetch', fetchMock);
+        vi.stubGlobal('navigator', {});
+
+        await expect(loadMFEWithRetry({ name: 'external', url: 'https://cdn.example.com/external.js', loading: { retries: 2, retryDelayMs: 0 } }))
+            .rejects.toBeInstanceOf(IntegrityError);
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        const [url, init] = fetchMock.mock.calls[0];
+        expect(url).toBe('/api/mfe/report');
+        expect(JSON.parse(init.body)).toMatchObject({ type: 'integrity_mismatch', mfe: 'external', details: { expected: null } });
+    });
+
+    it('should retry failed loads with backoff and report the final failure', async () => {
+        const fetchMock = vi.fn().mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+        vi.stubGlobal('fetch', fetchMock);
+        vi.stubGlobal('navigator', {});
+
+        await expect(loadMFEWithRetry({
+            name: 'hc-records',
+            url: '/mfe/hc-records.js',
+            integrity: 'sha384-abc',
+            loading: { retries: 2, retryDelayMs: 0 }
+        })).rejects.toThrow('503');
+
+        const bundleFetches = fetchMock.mock.calls.filter(([url]) => url === '/mfe/hc-records.js');
+        expect(bundleFetches).toHaveLength(3);
+
+        const [, report] = fetchMock.mock.calls.find(([url]) => url === '/api/mfe/report')!;
+        expect(JSON.parse(report.body)).toMatchObject({ type: 'load_error', details: { attempts: 3 } });
+    });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { attachShadowContainer, ensureStylesheet } from '../mfe-styles';
+
+describe('MFE stylesheets', () => {
+    it('should link a stylesheet into the page once', () => {
+        const link = ensureStylesheet(document, '/api/mfe/p1/Card.0123456789abcdef.css');
+        expect(ensureStylesheet(document, '/api/mfe/p1/Card.0123456789abcdef.css')).toBe(link);
+        expect(document.head.querySelectorAll('link[rel="stylesheet"]')).toHaveLength(1);
+    });
+
+    it('should render shadow-encapsulated MFEs next to their stylesheet', () => {
+        const host = document.createElement('div');
+        document.body.appendChild(host);
+
+        const container = attachShadowContainer(host, '/api/mfe/p1/Chart.0123456789abcdef.css');
+        expect(container.parentNode).toBe(host.shadowRoot);
+        expect(host.shadowRoot!.firstElementChild?.getAttribute('href')).toBe('/api/mfe/p1/Chart.0123456789abcdef.css');
+
+        // Re-attaching reuses the shadow root, container and link
+        expect(attachShadowContainer(host, '/api/mfe/p1/Chart.0123456789abcdef.css')).toBe(container);
+        expect(host.shadowRoot!.querySelectorAll('link')).toHaveLength(1);
+        expect(document.head.querySelector('link[href*="Chart"]')).toBeNull();
+    });
+});
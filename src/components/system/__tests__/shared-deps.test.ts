@@ -0,0 +1,30 @@
+import { describe, it, expect, vi } from 'vitest';
+import React from 'react';
+import { createSharedDeps } from '../shared-deps';
+
+// Roots render asynchronously
+const rendered = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Shared dependencies', () => {
+    it('should report render errors of roots created through the render shim', async () => {
+        const onUncaughtError = vi.fn();
+        const { ReactDOM } = createSharedDeps(onUncaughtError);
+        const container = document.createElement('div');
+
+        const Widget = ({ fail }: { fail: boolean }) => {
+            if (fail) throw new Error('Widget crashed');
+            return React.createElement('p', null, 'ok');
+        };
+
+        ReactDOM.render(React.createElement(Widget, { fail: false }), container);
+        await rendered();
+        expect(container.textContent).toBe('ok');
+
+        // A crash after the first render is outside any host error boundary
+        ReactDOM.render(React.createElement(Widget, { fail: true }), container);
+        await rendered();
+        expect(onUncaughtError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Widget crashed' }), expect.anything());
+
+        expect(ReactDOM.unmountComponentAtNode(container)).toBe(true);
+    });
+});
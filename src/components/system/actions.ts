@@ -0,0 +1,270 @@
+import type { Action, DataBinding } from '../../security/validator';
+import { bindParams, resolveBinding, type RenderContext } from '../../platform/bindings';
+import { hostEventBus, type EventBus } from './event-bus';
+
+/**
+ * SDUI Action Runtime
+ * Runs the declarative actions of a blueprint (button clicks, form submits and
+ * MFE events) on the client.
+ *
+ * A chain runs in order. When an action fails, its `onError` branch runs and the
+ * rest of the chain is skipped; on success its `onSuccess` branch runs first.
+ */
+
+export class ActionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ActionError';
+    }
+}
+
+export interface Toast {
+    id: number;
+    message: string;
+    variant: 'info' | 'success' | 'error';
+}
+
+/**
+ * Side effects the runtime needs from its host page
+ */
+export interface ActionEnvironment {
+    navigate: (url: string, replace: boolean) => void;
+    fetch: typeof fetch;
+    /** Current field values of a form node, or null when it is not on the page */
+    readForm: (id: string) => Record<string, unknown> | null;
+}
+
+/**
+ * Minimal observable value for useSyncExternalStore
+ */
+class Observable<T> {
+    private listeners = new Set<() => void>();
+
+    constructor(private value: T) { }
+
+    get = (): T => this.value;
+
+    set(value: T): void {
+        this.value = value;
+        this.listeners.forEach(listener => listener());
+    }
+
+    subscribe = (listener: () => void): (() => void) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+}
+
+const TOAST_DURATION_MS = 4000;
+
+/**
+ * Event namespace of events emitted by blueprint actions
+ */
+export const APP_EVENT_NAMESPACE = 'app';
+
+/** Header naming the project whose functions `invoke` calls (see /api/functions) */
+export const PROJECT_HEADER = 'X-Project-Id';
+
+/** Header carrying the preview token that lets a preview page call its project's functions */
+export const PREVIEW_HEADER = 'X-Preview-Token';
+
+/**
+ * The page an action runtime serves: route params, query and messages for
+ * bindings, the project whose backend functions actions call and, on preview
+ * pages, the preview token proving that project
+ */
+export type PageContext = Pick<RenderContext, 'route' | 'query' | 'messages'> & {
+    projectId?: string;
+    previewToken?: string;
+};
+
+export class ActionRuntime {
+    /** Host state written by `setState` and read by `state` bindings */
+    readonly state = new Observable<Record<string, unknown>>({});
+    readonly toasts = new Observable<Toast[]>([]);
+
+    private page: Pick<RenderContext, 'route' | 'query' | 'messages'> = { route: {}, query: {} };
+    private projectId?: string;
+    private previewToken?: string;
+    private nextToastId = 1;
+
+    constructor(private bus: EventBus, private env: ActionEnvironment) { }
+
+    /**
+     * Route params, query and messages of the current page, used by action bindings,
+     * and the project its functions belong to
+     */
+    setPageContext({ projectId, previewToken, ...page }: PageContext): void {
+        this.page = page;
+        this.projectId = projectId;
+        this.previewToken = previewToken;
+    }
+
+    /**
+     * Run an action chain. Resolves to false if an action failed.
+     */
+    async run(actions: Action[] | undefined, scope: Pick<RenderContext, 'event' | 'result'> = {}): Promise<boolean> {
+        let result = scope.result;
+
+        for (const action of actions || []) {
+            const context: RenderContext = { ...this.page, state: this.state.get(), event: scope.event, result };
+
+            try {
+                result = await this.execute(action, context);
+            } catch (e) {
+                const error = e instanceof Error ? e.message : String(e);
+                console.error(`[Actions] ${action.type} failed:`, e);
+                if (action.onError) {
+                    await this.run(action.onError, { event: scope.event, result: { error } });
+                }
+                return false;
+            }
+
+            if (action.onSuccess && !(await this.run(action.onSuccess, { event: scope.event, result }))) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    showToast(message: string, variant: Toast['variant'] = 'info'): void {
+        const toast = { id: this.nextToastId++, message, variant };
+        this.toasts.set([...this.toasts.get(), toast]);
+        setTimeout(() => {
+            this.toasts.set(this.toasts.get().filter(t => t.id !== toast.id));
+        }, TOAST_DURATION_MS);
+    }
+
+    private async execute(action: Action, context: RenderContext): Promise<unknown> {
+        switch (action.type) {
+            case 'navigate': {
+                const url = buildPath(action.to, bindParams(action.params, context));
+                this.env.navigate(url, action.replace === true);
+                return url;
+            }
+
+            case 'callFunction': {
+                const result = await this.invoke(action.name, action.method || 'GET', bindParams(action.params, context));
+                if (action.assign) this.setState(action.assign, result);
+                return result;
+            }
+
+            case 'submitForm': {
+                const values = this.env.readForm(action.form);
+                if (!values) throw new ActionError(`Form not found: ${action.form}`);
+                const result = await this.invoke(action.function, action.method || 'POST', values);
+                if (action.assign) this.setState(action.assign, result);
+                return result;
+            }
+
+            case 'setState': {
+                const value = action.value !== null && typeof action.value === 'object'
+                    ? resolveBinding(action.value, context)
+                    : action.value;
+                this.setState(action.key, value);
+                return value;
+            }
+
+            case 'emitEvent': {
+                const payload = bindParams(action.payload, context);
+                this.bus.emit(`${APP_EVENT_NAMESPACE}:${action.event}`, payload);
+                return payload;
+            }
+
+            case 'showToast': {
+                const message = typeof action.message === 'string'
+                    ? action.message
+                    : String(resolveBinding(action.message as DataBinding, context) ?? '');
+                this.showToast(message, action.variant);
+                return context.result;
+            }
+        }
+    }
+
+    private setState(key: string, value: unknown): void {
+        this.state.set({ ...this.state.get(), [key]: value });
+    }
+
+    /**
+     * Call a tenant backend function through /api/functions
+     */
+    private async invoke(name: string, method: string, params: Record<string, unknown>): Promise<unknown> {
+        let url = `/api/functions/${encodeURIComponent(name)}`;
+        // The tenant host names the project too; without one (platform host, `?tenant=` pages) only this does
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.projectId) headers[PROJECT_HEADER] = this.projectId;
+        if (this.previewToken) headers[PREVIEW_HEADER] = this.previewToken;
+        const init: RequestInit = { method, headers };
+
+        if (method === 'GET') {
+            const query = toSearchParams(params).toString();
+            if (query) url += `?${query}`;
+        } else {
+            init.body = JSON.stringify(params);
+        }
+
+        const res = await this.env.fetch(url, init);
+        const data = await res.json().catch(() => null);
+        if (!res.ok) {
+            throw new ActionError(data?.error || `Function ${name} failed with status ${res.status}`);
+        }
+        return data;
+    }
+}
+
+function toSearchParams(params: Record<string, unknown>): URLSearchParams {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+        if (value === undefined || value === null) continue;
+        search.set(key, typeof value === 'object' ? JSON.stringify(value) : String(value));
+    }
+    return search;
+}
+
+/**
+ * Fill `:param` placeholders; remaining params become the query string
+ */
+export function buildPath(pattern: string, params: Record<string, unknown>): string {
+    const rest = { ...params };
+    const path = pattern.replace(/:([a-zA-Z_][a-zA-Z0-9_]*)/g, (_, name: string) => {
+        const value = rest[name];
+        delete rest[name];
+        if (value === undefined || value === null) {
+            throw new ActionError(`Missing navigation parameter: ${name}`);
+        }
+        return encodeURIComponent(String(value));
+    });
+
+    const query = toSearchParams(rest).toString();
+    return query ? `${path}${path.includes('?') ? '&' : '?'}${query}` : path;
+}
+
+/**
+ * Read a form's fields; checkboxes become booleans
+ */
+export function readFormValues(form: HTMLFormElement): Record<string, unknown> {
+    const values: Record<string, unknown> = Object.fromEntries(new FormData(form));
+    form.querySelectorAll<HTMLInputElement>('input[type="checkbox"][name]').forEach(input => {
+        values[input.name] = input.checked;
+    });
+    return values;
+}
+
+function readFormElement(id: string): Record<string, unknown> | null {
+    const form = document.getElementById(id);
+    return form instanceof HTMLFormElement ? readFormValues(form) : null;
+}
+
+const browserEnvironment: ActionEnvironment = {
+    navigate: (url, replace) => (replace ? window.location.replace(url) : window.location.assign(url)),
+    fetch: (...args) => fetch(...args),
+    readForm: readFormElement
+};
+
+/**
+ * The page-wide runtime shared by the blueprint and every MFE island
+ */
+export const hostActions = new ActionRuntime(hostEventBus, browserEnvironment);
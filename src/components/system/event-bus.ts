@@ -0,0 +1,168 @@
+import type { EventPayloadSchema } from '../../types';
+
+/**
+ * Host Event Bus
+ * Cross-MFE messaging owned by the app shell.
+ *
+ * Topics are namespaced `<mfe>:<event>` (e.g. `hc-patients:patient-selected`).
+ * An MFE publishes only under its own namespace and may subscribe to any topic.
+ * The last payload of every topic is replayed to late subscribers.
+ */
+
+export type EventHandler<T = unknown> = (payload: T, topic: string) => void;
+
+export interface SubscribeOptions {
+    /** Deliver the last emitted payload immediately (default true) */
+    replay?: boolean;
+}
+
+/**
+ * The bus as seen by a single MFE
+ */
+export interface ScopedEventBus {
+    emit: (event: string, payload?: unknown) => void;
+    on: <T = unknown>(topic: string, handler: EventHandler<T>, options?: SubscribeOptions) => () => void;
+    last: <T = unknown>(topic: string) => T | undefined;
+}
+
+export class EventPayloadError extends Error {
+    public readonly topic: string;
+
+    constructor(topic: string, message: string) {
+        super(`Invalid payload for ${topic}: ${message}`);
+        this.name = 'EventPayloadError';
+        this.topic = topic;
+    }
+}
+
+const TOPIC_PATTERN = /^[a-zA-Z][a-zA-Z0-9-_]*:[a-zA-Z0-9-_.]+$/;
+
+/**
+ * Check a payload against a (JSON Schema subset) payload schema.
+ * Returns an error message, or null when the payload is valid.
+ */
+export function checkPayload(schema: EventPayloadSchema, value: unknown, path = 'payload'): string | null {
+    if (schema.enum && !schema.enum.some(option => option === value)) {
+        return `${path} must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`;
+    }
+
+    if (schema.type) {
+        const actual = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+        if (actual !== schema.type) {
+            return `${path} must be of type ${schema.type}, got ${actual}`;
+        }
+    }
+
+    if (schema.type === 'object' && value && typeof value === 'object') {
+        const record = value as Record<string, unknown>;
+        for (const key of schema.required || []) {
+            if (record[key] === undefined) return `${path}.${key} is required`;
+        }
+        for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+            if (record[key] === undefined) continue;
+            const error = checkPayload(propSchema, record[key], `${path}.${key}`);
+            if (error) return error;
+        }
+    }
+
+    if (schema.type === 'array' && schema.items && Array.isArray(value)) {
+        for (let i = 0; i < value.length; i++) {
+            const error = checkPayload(schema.items, value[i], `${path}[${i}]`);
+            if (error) return error;
+        }
+    }
+
+    return null;
+}
+
+export class EventBus {
+    private handlers = new Map<string, Set<EventHandler>>();
+    private lastPayloads = new Map<string, unknown>();
+    private schemas = new Map<string, EventPayloadSchema>();
+
+    /**
+     * Register the payload schemas an MFE declares for its own events
+     */
+    registerSchemas(namespace: string, events: Record<string, EventPayloadSchema> = {}): void {
+        for (const [event, schema] of Object.entries(events)) {
+            this.schemas.set(`${namespace}:${event}`, schema);
+        }
+    }
+
+    emit(topic: string, payload?: unknown): void {
+        if (!TOPIC_PATTERN.test(topic)) {
+            throw new Error(`Invalid event topic "${topic}", expected <namespace>:<event>`);
+        }
+
+        const schema = this.schemas.get(topic);
+        if (schema) {
+            const error = checkPayload(schema, payload);
+            if (error) throw new EventPayloadError(topic, error);
+        }
+
+        this.lastPayloads.set(topic, payload);
+
+        for (const handler of Array.from(this.handlers.get(topic) || [])) {
+            try {
+                handler(payload, topic);
+            } catch (e) {
+                console.error(`[EventBus] Handler for ${topic} failed:`, e);
+            }
+        }
+    }
+
+    on<T = unknown>(topic: string, handler: EventHandler<T>, options: SubscribeOptions = {}): () => void {
+        if (!this.handlers.has(topic)) {
+            this.handlers.set(topic, new Set());
+        }
+        this.handlers.get(topic)!.add(handler as EventHandler);
+
+        if (options.replay !== false && this.lastPayloads.has(topic)) {
+            handler(this.lastPayloads.get(topic) as T, topic);
+        }
+
+        return () => {
+            this.handlers.get(topic)?.delete(handler as EventHandler);
+        };
+    }
+
+    last<T = unknown>(topic: string): T | undefined {
+        return this.lastPayloads.get(topic) as T | undefined;
+    }
+
+    /**
+     * Create the bus handle for one mounted MFE.
+     * `dispose` drops every subscription the MFE made.
+     */
+    scope(namespace: string): ScopedEventBus & { dispose: () => void } {
+        const subscriptions = new Set<() => void>();
+
+        return {
+            emit: (event, payload) => {
+                const [owner, name] = event.includes(':') ? event.split(':', 2) : [namespace, event];
+                if (owner !== namespace) {
+                    throw new Error(`MFE "${namespace}" cannot emit into namespace "${owner}"`);
+                }
+                this.emit(`${namespace}:${name}`, payload);
+            },
+            on: (topic, handler, options) => {
+                const unsubscribe = this.on(topic, handler, options);
+                subscriptions.add(unsubscribe);
+                return () => {
+                    unsubscribe();
+                    subscriptions.delete(unsubscribe);
+                };
+            },
+            last: topic => this.last(topic),
+            dispose: () => {
+                subscriptions.forEach(unsubscribe => unsubscribe());
+                subscriptions.clear();
+            }
+        };
+    }
+}
+
+/**
+ * The page-wide bus shared by every MFE island
+ */
+export const hostEventBus = new EventBus();
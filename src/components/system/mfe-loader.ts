@@ -0,0 +1,225 @@
+import type { MFESpec } from '../../platform/renderer';
+
+/**
+ * MFE Module Loader
+ * Fetches an MFE bundle, verifies it against the registry's Subresource
+ * Integrity hash and only then evaluates it. Bundles without a hash are
+ * refused. Failed loads are retried with exponential backoff and every
+ * attempt is bounded by a timeout.
+ */
+
+export class IntegrityError extends Error {
+    /** Registered hash; null when the registry has none */
+    public readonly expected: string | null;
+    public readonly actual: string;
+
+    constructor(name: string, expected: string | null, actual: string) {
+        super(expected === null
+            ? `Integrity check failed for MFE ${name}: no hash is registered for the bundle`
+            : `Integrity check failed for MFE ${name}: bundle does not match the registered hash`);
+        this.name = 'IntegrityError';
+        this.expected = expected;
+        this.actual = actual;
+    }
+}
+
+export class MFELoadTimeoutError extends Error {
+    constructor(name: string, timeoutMs: number) {
+        super(`Loading MFE ${name} timed out after ${timeoutMs}ms`);
+        this.name = 'MFELoadTimeoutError';
+    }
+}
+
+export type MFEFailureType = 'integrity_mismatch' | 'load_error' | 'load_timeout' | 'runtime_error';
+
+export interface MFEFailureReport {
+    type: MFEFailureType;
+    mfe: string;
+    url: string;
+    version?: string;
+    message: string;
+    details?: Record<string, unknown>;
+}
+
+const REPORT_ENDPOINT = '/api/mfe/report';
+
+export const DEFAULT_LOAD_POLICY = {
+    retries: 2,
+    retryDelayMs: 500,
+    timeoutMs: 10000
+};
+
+const ALGORITHMS: Record<string, string> = {
+    sha256: 'SHA-256',
+    sha384: 'SHA-384',
+    sha512: 'SHA-512'
+};
+
+function toBase64(buffer: ArrayBuffer): string {
+    let binary = '';
+    const bytes = new Uint8Array(buffer);
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+}
+
+/**
+ * Compute the SRI digest of a bundle, e.g. `sha384-<base64>`
+ */
+export async function computeIntegrity(content: ArrayBuffer, algorithm = 'sha384'): Promise<string> {
+    const digest = await crypto.subtle.digest(ALGORITHMS[algorithm], content);
+    return `${algorithm}-${toBase64(digest)}`;
+}
+
+/**
+ * Check content against an SRI metadata string (space-separated `alg-hash` list).
+ * Any listed hash of a supported algorithm may match. Returns the computed hash on failure.
+ */
+export async function verifyIntegrity(content: ArrayBuffer, integrity: string): Promise<{ valid: boolean; actual: string }> {
+    const expected = integrity.trim().split(/\s+/).filter(entry => ALGORITHMS[entry.split('-')[0]]);
+    if (expected.length === 0) {
+        throw new Error(`Unsupported integrity metadata: ${integrity}`);
+    }
+
+    let actual = '';
+    for (const entry of expected) {
+        actual = await computeIntegrity(content, entry.split('-')[0]);
+        if (actual === entry) return { valid: true, actual };
+    }
+    return { valid: false, actual };
+}
+
+/**
+ * Send a failure report to the server (best effort, never throws)
+ */
+export function reportMFEFailure(report: MFEFailureReport): void {
+    try {
+        const body = JSON.stringify(report);
+        if (typeof navigator !== 'undefined' && navigator.sendBeacon) {
+            navigator.sendBeacon(REPORT_ENDPOINT, new Blob([body], { type: 'application/json' }));
+            return;
+        }
+        fetch(REPORT_ENDPOINT, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body,
+            keepalive: true
+        }).catch(() => { });
+    } catch {
+        // Reporting must never break rendering
+    }
+}
+
+/**
+ * Whether bundles without an integrity hash may load: only in development, and
+ * only when PUBLIC_MFE_ALLOW_UNVERIFIED=true opts in
+ */
+function allowUnverified(): boolean {
+    return import.meta.env.DEV === true && import.meta.env.PUBLIC_MFE_ALLOW_UNVERIFIED === 'true';
+}
+
+function reportIntegrityFailure(spec: MFESpec, error: IntegrityError): void {
+    reportMFEFailure({
+        type: 'integrity_mismatch',
+        mfe: spec.name,
+        url: spec.url,
+        version: spec.version,
+        message: error.message,
+        details: { expected: error.expected, actual: error.actual }
+    });
+}
+
+/**
+ * Load an MFE module. Bundles are fetched, verified against the registry
+ * integrity and evaluated from the verified bytes; bundles without it are refused.
+ */
+export async function loadMFEModule(spec: MFESpec, signal?: AbortSignal): Promise<any> {
+    if (!spec.integrity) {
+        if (allowUnverified()) {
+            console.warn(`MFE ${spec.name} has no integrity hash; loading without verification (PUBLIC_MFE_ALLOW_UNVERIFIED)`);
+            return import(/* @vite-ignore */ spec.url);
+        }
+        const error = new IntegrityError(spec.name, null, '');
+        reportIntegrityFailure(spec, error);
+        throw error;
+    }
+
+    const res = await fetch(spec.url, { cache: 'no-cache', signal });
+    if (!res.ok) {
+        throw new Error(`Failed to fetch MFE ${spec.name}: ${res.status} ${res.statusText}`);
+    }
+
+    const content = await res.arrayBuffer();
+    const { valid, actual } = await verifyIntegrity(content, spec.integrity);
+
+    if (!valid) {
+        const error = new IntegrityError(spec.name, spec.integrity, actual);
+        reportIntegrityFailure(spec, error);
+        throw error;
+    }
+
+    // Evaluate exactly the bytes that were verified
+    const blobUrl = URL.createObjectURL(new Blob([content], { type: 'text/javascript' }));
+    try {
+        return await import(/* @vite-ignore */ blobUrl);
+    } finally {
+        URL.revokeObjectURL(blobUrl);
+    }
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function loadWithTimeout(spec: MFESpec, timeoutMs: number): Promise<any> {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            controller.abort();
+            reject(new MFELoadTimeoutError(spec.name, timeoutMs));
+        }, timeoutMs);
+    });
+
+    try {
+        return await Promise.race([loadMFEModule(spec, controller.signal), timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Load an MFE module following its loading policy.
+ * Integrity failures are final; other failures are retried, and the last one is reported.
+ */
+export async function loadMFEWithRetry(spec: MFESpec): Promise<any> {
+    const policy = { ...DEFAULT_LOAD_POLICY, ...spec.loading };
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= policy.retries; attempt++) {
+        if (attempt > 0) {
+            await sleep(policy.retryDelayMs * 2 ** (attempt - 1));
+        }
+
+        try {
+            return await loadWithTimeout(spec, policy.timeoutMs);
+        } catch (err) {
+            if (err instanceof IntegrityError) throw err;
+            lastError = err;
+            console.warn(`Attempt ${attempt + 1} to load MFE ${spec.name} failed:`, err);
+        }
+    }
+
+    const message = lastError instanceof Error ? lastError.message : String(lastError);
+    reportMFEFailure({
+        type: lastError instanceof MFELoadTimeoutError ? 'load_timeout' : 'load_error',
+        mfe: spec.name,
+        url: spec.url,
+        version: spec.version,
+        message,
+        details: { attempts: policy.retries + 1 }
+    });
+    throw lastError;
+}
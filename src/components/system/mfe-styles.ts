@@ -0,0 +1,42 @@
+/**
+ * MFE Stylesheets
+ * Links an MFE's stylesheet (see platform/styles) where it renders: into the
+ * page head for MFEs that render into the page, or into the shadow root of a
+ * shadow-encapsulated MFE, so its styles neither leak out nor get lost.
+ */
+
+/** Marks the element inside a shadow root that the MFE renders into */
+const SHADOW_CONTAINER_ATTRIBUTE = 'data-mfe-root';
+
+/**
+ * Link `href` into a document head or shadow root once
+ */
+export function ensureStylesheet(root: Document | ShadowRoot, href: string): HTMLLinkElement {
+    const existing = Array.from(root.querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"]'))
+        .find(link => link.getAttribute('href') === href);
+    if (existing) return existing;
+
+    const link = (root instanceof Document ? root : root.ownerDocument).createElement('link');
+    link.rel = 'stylesheet';
+    link.href = href;
+    if (root instanceof Document) root.head.appendChild(link);
+    else root.prepend(link);
+    return link;
+}
+
+/**
+ * Open a shadow root on `host` (or reuse it) with the MFE's stylesheet, and
+ * return the element to render the MFE into
+ */
+export function attachShadowContainer(host: HTMLElement, styles?: string): HTMLElement {
+    const shadow = host.shadowRoot ?? host.attachShadow({ mode: 'open' });
+    if (styles) ensureStylesheet(shadow, styles);
+
+    let container = shadow.querySelector<HTMLElement>(`[${SHADOW_CONTAINER_ATTRIBUTE}]`);
+    if (!container) {
+        container = host.ownerDocument.createElement('div');
+        container.setAttribute(SHADOW_CONTAINER_ATTRIBUTE, '');
+        shadow.appendChild(container);
+    }
+    return container;
+}
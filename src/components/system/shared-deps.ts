@@ -0,0 +1,96 @@
+import React from 'react';
+import * as ReactModule from 'react';
+import * as JSXRuntime from 'react/jsx-runtime';
+import * as ReactDOM from 'react-dom';
+import * as ReactDOMClient from 'react-dom/client';
+import { createRoot, hydrateRoot, type Root } from 'react-dom/client';
+
+/**
+ * Shared Dependencies for MFEs
+ * The host's React singletons, handed to mount()-style MFEs as `deps` and
+ * to ESM bundles through the import map (see platform/import-map).
+ *
+ * React 19 removed `ReactDOM.render` / `unmountComponentAtNode`, which the
+ * registered bundles still call, so they are provided here on top of createRoot.
+ */
+
+/** Global the import map's host modules read the instances from */
+export const SHARED_MODULES_GLOBAL = '__SDUI_SHARED__';
+
+/**
+ * Modules served from the host's own instances, keyed by specifier
+ */
+export const hostModules: Record<string, object> = {
+    'react': ReactModule,
+    'react/jsx-runtime': JSXRuntime,
+    'react-dom': ReactDOM,
+    'react-dom/client': ReactDOMClient
+};
+
+const roots = new WeakMap<Element, Root>();
+
+type UncaughtErrorHandler = (error: unknown) => void;
+
+/**
+ * Shared dependencies whose roots report render errors to `onUncaughtError`.
+ * Roots of mount()-style MFEs are outside the host's error boundaries, so
+ * this is how a crash after the first render reaches the host.
+ */
+export function createSharedDeps(onUncaughtError?: UncaughtErrorHandler) {
+    const withErrorHandler = <T extends { onUncaughtError?: unknown }>(options?: T): T =>
+        (onUncaughtError ? { onUncaughtError, ...options } : options) as T;
+
+    const createMFERoot: typeof createRoot = (container, options) =>
+        createRoot(container, withErrorHandler(options));
+
+    const hydrateMFERoot: typeof hydrateRoot = (container, initialChildren, options) =>
+        hydrateRoot(container, initialChildren, withErrorHandler(options));
+
+    function render(element: React.ReactNode, container: Element): void {
+        let root = roots.get(container);
+        if (!root) {
+            root = createMFERoot(container);
+            roots.set(container, root);
+        }
+        root.render(element);
+    }
+
+    return {
+        React,
+        ReactDOM: {
+            ...ReactDOM,
+            createRoot: createMFERoot,
+            hydrateRoot: hydrateMFERoot,
+            render,
+            unmountComponentAtNode
+        }
+    };
+}
+
+function unmountComponentAtNode(container: Element): boolean {
+    const root = roots.get(container);
+    if (!root) return false;
+    root.unmount();
+    roots.delete(container);
+    return true;
+}
+
+export type SharedDeps = ReturnType<typeof createSharedDeps>;
+
+/**
+ * Provide the host modules to bundles that import them by bare specifier
+ */
+export function provideSharedModules(): void {
+    if (typeof window !== 'undefined' && !(window as any)[SHARED_MODULES_GLOBAL]) {
+        (window as any)[SHARED_MODULES_GLOBAL] = hostModules;
+    }
+}
+
+/**
+ * Expose React globally for generated components that read `window.React`
+ */
+export function exposeGlobalReact(): void {
+    if (typeof window !== 'undefined' && !(window as any).React) {
+        (window as any).React = React;
+    }
+}
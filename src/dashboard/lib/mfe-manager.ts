@@ -6,6 +6,7 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as crypto from 'crypto';
+import type { RouteDefinition, EventPayloadSchema, MFEPropSchema, MFEFallback, MFELoadPolicy, AccessRule } from '../../types';
 
 export interface MFEConfig {
     name: string;
@@ -14,6 +15,14 @@ export interface MFEConfig {
     version: string;
     variables: Record<string, any>;
     dependencies?: Record<string, string>;
+    events?: Record<string, EventPayloadSchema>;
+    props?: Record<string, MFEPropSchema>;
+    shared?: Record<string, string>;
+    styles?: string;
+    fallback?: MFEFallback;
+    loading?: MFELoadPolicy;
+    ssr?: boolean;
+    access?: AccessRule;
     encapsulation?: 'shadow' | 'none';
     description?: string;
     active: boolean;
@@ -23,6 +32,7 @@ export interface MFEConfig {
 
 export interface MFERegistry {
     mfes: Record<string, Omit<MFEConfig, 'name'>>;
+    routes?: RouteDefinition[];
     generatedAt: string;
 }
 
@@ -38,6 +48,21 @@ export async function calculateIntegrity(filePath: string): Promise<string> {
     return `sha384-${hash}`;
 }
 
+/**
+ * Map a registry source URL to the file it is served from:
+ * `/api/mfe/<projectId>/<file>` -> tenant dist, other absolute URLs -> public/
+ */
+export function resolveSourcePath(source: string): string {
+    const tenantMatch = source.match(/^\/api\/mfe\/([a-zA-Z0-9-_]+)\/([a-zA-Z0-9-_.]+)$/);
+    if (tenantMatch) {
+        return path.join(process.cwd(), 'data', 'tenants', tenantMatch[1], 'dist', tenantMatch[2]);
+    }
+    if (source.startsWith('/')) {
+        return path.join(process.cwd(), 'public', source);
+    }
+    return path.join(process.cwd(), source);
+}
+
 /**
  * Load current MFE registry
  */
@@ -99,7 +124,7 @@ export async function registerMFE(
     const registry = await loadRegistry();
 
     // Check if source file exists and calculate integrity
-    const sourcePath = path.join(process.cwd(), source);
+    const sourcePath = resolveSourcePath(source);
     let integrity: string | undefined;
     try {
         integrity = await calculateIntegrity(sourcePath);
@@ -113,6 +138,14 @@ export async function registerMFE(
         version: options.version || '1.0.0',
         variables: options.variables || {},
         dependencies: options.dependencies || {},
+        events: options.events,
+        props: options.props,
+        shared: options.shared,
+        styles: options.styles,
+        fallback: options.fallback,
+        loading: options.loading,
+        ssr: options.ssr,
+        access: options.access,
         encapsulation: options.encapsulation || 'none',
         description: options.description,
         active: options.active !== false,
@@ -141,7 +174,7 @@ export async function updateMFE(
     // Recalculate integrity if source changed
     if (updates.source && updates.source !== existing.source) {
         try {
-            const sourcePath = path.join(process.cwd(), updates.source);
+            const sourcePath = resolveSourcePath(updates.source);
             updates.integrity = await calculateIntegrity(sourcePath);
         } catch {
             // Ignore if file doesn't exist
@@ -233,5 +266,6 @@ export default {
     discoverMFEs,
     loadRegistry,
     saveRegistry,
-    calculateIntegrity
+    calculateIntegrity,
+    resolveSourcePath
 };
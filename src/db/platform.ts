@@ -2,6 +2,8 @@ import Database from 'better-sqlite3';
 import { v4 as uuidv4 } from 'uuid';
 import path from 'path';
 import fs from 'fs';
+import { validateUISchema, BlueprintValidationError } from '../security/validator';
+import type { RouteDefinition, SizeBudget, TranslationCatalog, TranslationMessages } from '../types';
 
 const DB_DIR = path.resolve(process.cwd(), 'data');
 if (!fs.existsSync(DB_DIR)) {
@@ -40,8 +42,46 @@ db.exec(`
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY(project_id) REFERENCES projects(id)
   );
+
+  CREATE TABLE IF NOT EXISTS routes (
+    id TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL,
+    pattern TEXT NOT NULL,
+    mfe TEXT NOT NULL,
+    priority INTEGER DEFAULT 0,
+    variables TEXT NOT NULL DEFAULT '{}',
+    query TEXT NOT NULL DEFAULT '{}',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(project_id, pattern),
+    FOREIGN KEY(project_id) REFERENCES projects(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS translations (
+    project_id TEXT NOT NULL,
+    locale TEXT NOT NULL,
+    messages TEXT NOT NULL DEFAULT '{}',
+    updated_by TEXT,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY(project_id, locale),
+    FOREIGN KEY(project_id) REFERENCES projects(id)
+  );
 `);
 
+// Columns added after the initial schema; CREATE TABLE IF NOT EXISTS leaves existing tables as they are
+const addColumn = (table: string, column: string, definition: string) => {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+};
+
+addColumn('blueprints', 'created_by', 'TEXT');
+addColumn('blueprints', 'activated_by', 'TEXT');
+addColumn('blueprints', 'activated_at', 'DATETIME');
+addColumn('blueprints', 'status', "TEXT NOT NULL DEFAULT 'published'");
+addColumn('routes', 'access', 'TEXT');
+addColumn('projects', 'size_budget', 'TEXT');
+
 export interface Project {
   id: string;
   name: string;
@@ -56,9 +96,21 @@ export interface Blueprint {
   ui_schema: string;
   data_schema: string;
   active: boolean;
+  /** Drafts are never served to end users; activating a version publishes it */
+  status: BlueprintStatus;
   created_at: string;
+  created_by?: string | null;
+  activated_by?: string | null;
+  activated_at?: string | null;
 }
 
+export type BlueprintStatus = 'draft' | 'published';
+
+/**
+ * Blueprint version without its schemas, for history listings
+ */
+export type BlueprintVersion = Omit<Blueprint, 'ui_schema' | 'data_schema'>;
+
 export interface FunctionDef {
   id: string;
   project_id: string;
@@ -68,6 +120,38 @@ export interface FunctionDef {
   created_at: string;
 }
 
+export interface ProjectRoute extends RouteDefinition {
+  id: string;
+  project_id: string;
+  created_at: string;
+}
+
+interface RouteRow {
+  id: string;
+  project_id: string;
+  pattern: string;
+  mfe: string;
+  priority: number;
+  variables: string;
+  query: string;
+  access: string | null;
+  created_at: string;
+}
+
+type TranslationRow = Omit<TranslationCatalog, 'messages'> & { messages: string };
+
+const toTranslationCatalog = (row: TranslationRow): TranslationCatalog => ({
+  ...row,
+  messages: JSON.parse(row.messages)
+});
+
+const toProjectRoute = ({ access, ...row }: RouteRow): ProjectRoute => ({
+  ...row,
+  variables: JSON.parse(row.variables),
+  query: JSON.parse(row.query),
+  ...(access ? { access: JSON.parse(access) } : {})
+});
+
 export const PlatformDB = {
   createProject: (name: string, subdomain: string): Project => {
     const id = uuidv4();
@@ -80,19 +164,59 @@ export const PlatformDB = {
     return db.prepare('SELECT * FROM projects WHERE id = ?').get(id) as Project;
   },
 
+  /**
+   * Bundle size budget of the project's MFEs, or null when none is set
+   */
+  getSizeBudget: (projectId: string): SizeBudget | null => {
+    const row = db.prepare('SELECT size_budget FROM projects WHERE id = ?').get(projectId) as { size_budget: string | null } | undefined;
+    return row?.size_budget ? JSON.parse(row.size_budget) : null;
+  },
+
+  setSizeBudget: (projectId: string, budget: SizeBudget | null): void => {
+    db.prepare('UPDATE projects SET size_budget = ? WHERE id = ?').run(budget ? JSON.stringify(budget) : null, projectId);
+  },
+
+  getProjectBySubdomain: (subdomain: string): Project | undefined => {
+    return db.prepare('SELECT * FROM projects WHERE subdomain = ?').get(subdomain) as Project;
+  },
+
   getAllProjects: (): Project[] => {
     return db.prepare('SELECT * FROM projects ORDER BY created_at DESC').all() as Project[];
   },
 
-  saveBlueprint: (projectId: string, uiSchema: any, dataSchema: any): Blueprint => {
+  /**
+   * Store a new blueprint version. It is a draft unless `publish` is set, in which
+   * case it also becomes the active version.
+   */
+  saveBlueprint: (projectId: string, uiSchema: unknown, dataSchema: any, userId?: string, options: { publish?: boolean } = {}): Blueprint => {
+    // Reject broken layouts here rather than at render time
+    const validation = validateUISchema(uiSchema);
+    if (!validation.success) {
+      throw new BlueprintValidationError(validation.error, validation.issues);
+    }
+
     const id = uuidv4();
-    const count = db.prepare('SELECT COUNT(*) as count FROM blueprints WHERE project_id = ?').get(projectId) as { count: number };
-    const version = count.count + 1;
+    const now = new Date().toISOString();
+    const publish = options.publish === true;
 
-    db.prepare('UPDATE blueprints SET active = 0 WHERE project_id = ?').run(projectId);
+    const version = db.transaction(() => {
+      const latest = db.prepare('SELECT MAX(version) as version FROM blueprints WHERE project_id = ?').get(projectId) as { version: number | null };
+      const next = (latest.version || 0) + 1;
 
-    const stmt = db.prepare('INSERT INTO blueprints (id, project_id, version, ui_schema, data_schema, active) VALUES (?, ?, ?, ?, ?, 1)');
-    stmt.run(id, projectId, version, JSON.stringify(uiSchema), JSON.stringify(dataSchema));
+      if (publish) {
+        db.prepare('UPDATE blueprints SET active = 0 WHERE project_id = ?').run(projectId);
+      }
+      db.prepare(`
+        INSERT INTO blueprints (id, project_id, version, ui_schema, data_schema, active, status, created_by, activated_by, activated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        id, projectId, next, JSON.stringify(uiSchema), JSON.stringify(dataSchema),
+        publish ? 1 : 0, publish ? 'published' : 'draft',
+        userId || null, publish ? userId || null : null, publish ? now : null
+      );
+
+      return next;
+    })();
 
     return {
       id,
@@ -100,8 +224,12 @@ export const PlatformDB = {
       version,
       ui_schema: JSON.stringify(uiSchema),
       data_schema: JSON.stringify(dataSchema),
-      active: true,
-      created_at: new Date().toISOString()
+      active: publish,
+      status: publish ? 'published' : 'draft',
+      created_at: now,
+      created_by: userId || null,
+      activated_by: publish ? userId || null : null,
+      activated_at: publish ? now : null
     };
   },
 
@@ -109,6 +237,41 @@ export const PlatformDB = {
     return db.prepare('SELECT * FROM blueprints WHERE project_id = ? AND active = 1 ORDER BY version DESC LIMIT 1').get(projectId) as Blueprint;
   },
 
+  /**
+   * Newest version, draft or not; what the agents build on
+   */
+  getLatestBlueprint: (projectId: string): Blueprint | undefined => {
+    return db.prepare('SELECT * FROM blueprints WHERE project_id = ? ORDER BY version DESC LIMIT 1').get(projectId) as Blueprint | undefined;
+  },
+
+  getBlueprint: (projectId: string, version: number): Blueprint | undefined => {
+    return db.prepare('SELECT * FROM blueprints WHERE project_id = ? AND version = ?').get(projectId, version) as Blueprint | undefined;
+  },
+
+  listBlueprints: (projectId: string): BlueprintVersion[] => {
+    return db.prepare(`
+      SELECT id, project_id, version, active, status, created_at, created_by, activated_by, activated_at
+      FROM blueprints WHERE project_id = ? ORDER BY version DESC
+    `).all(projectId) as BlueprintVersion[];
+  },
+
+  /**
+   * Make an existing version the active blueprint: publishes a draft, or rolls back/forward.
+   * Runs in one transaction so a project never has zero or two active blueprints.
+   */
+  activateBlueprint: (projectId: string, version: number, userId?: string): Blueprint | undefined => {
+    return db.transaction(() => {
+      const target = db.prepare('SELECT id FROM blueprints WHERE project_id = ? AND version = ?').get(projectId, version) as { id: string } | undefined;
+      if (!target) return undefined;
+
+      db.prepare('UPDATE blueprints SET active = 0 WHERE project_id = ?').run(projectId);
+      db.prepare("UPDATE blueprints SET active = 1, status = 'published', activated_by = ?, activated_at = ? WHERE id = ?")
+        .run(userId || null, new Date().toISOString(), target.id);
+
+      return db.prepare('SELECT * FROM blueprints WHERE id = ?').get(target.id) as Blueprint;
+    })();
+  },
+
   saveFunction: (projectId: string, name: string, code: string, method: string = 'GET') => {
     // Check if function with this name exists
     const existing = db.prepare('SELECT id FROM functions WHERE project_id = ? AND name = ?').get(projectId, name) as { id: string };
@@ -126,5 +289,66 @@ export const PlatformDB = {
 
   getFunctions: (projectId: string): FunctionDef[] => {
     return db.prepare('SELECT * FROM functions WHERE project_id = ?').all(projectId) as FunctionDef[];
+  },
+
+  saveRoute: (projectId: string, route: RouteDefinition): ProjectRoute => {
+    // Patterns are unique per project, so saving an existing pattern re-targets it
+    db.prepare(`
+      INSERT INTO routes (id, project_id, pattern, mfe, priority, variables, query, access)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(project_id, pattern) DO UPDATE SET
+        mfe = excluded.mfe,
+        priority = excluded.priority,
+        variables = excluded.variables,
+        query = excluded.query,
+        access = excluded.access
+    `).run(
+      uuidv4(),
+      projectId,
+      route.pattern,
+      route.mfe,
+      route.priority ?? 0,
+      JSON.stringify(route.variables || {}),
+      JSON.stringify(route.query || {}),
+      route.access ? JSON.stringify(route.access) : null
+    );
+
+    const row = db.prepare('SELECT * FROM routes WHERE project_id = ? AND pattern = ?').get(projectId, route.pattern) as RouteRow;
+    return toProjectRoute(row);
+  },
+
+  getRoutes: (projectId: string): ProjectRoute[] => {
+    const rows = db.prepare('SELECT * FROM routes WHERE project_id = ? ORDER BY priority DESC, pattern').all(projectId) as RouteRow[];
+    return rows.map(toProjectRoute);
+  },
+
+  deleteRoute: (projectId: string, pattern: string): boolean => {
+    const result = db.prepare('DELETE FROM routes WHERE project_id = ? AND pattern = ?').run(projectId, pattern);
+    return result.changes > 0;
+  },
+
+  saveTranslations: (projectId: string, locale: string, messages: TranslationMessages, userId?: string): TranslationCatalog => {
+    // One catalog per locale; saving replaces it
+    db.prepare(`
+      INSERT INTO translations (project_id, locale, messages, updated_by)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(project_id, locale) DO UPDATE SET
+        messages = excluded.messages,
+        updated_by = excluded.updated_by,
+        updated_at = CURRENT_TIMESTAMP
+    `).run(projectId, locale, JSON.stringify(messages), userId || null);
+
+    const row = db.prepare('SELECT * FROM translations WHERE project_id = ? AND locale = ?').get(projectId, locale) as TranslationRow;
+    return toTranslationCatalog(row);
+  },
+
+  getTranslations: (projectId: string): TranslationCatalog[] => {
+    const rows = db.prepare('SELECT * FROM translations WHERE project_id = ? ORDER BY locale').all(projectId) as TranslationRow[];
+    return rows.map(toTranslationCatalog);
+  },
+
+  deleteTranslations: (projectId: string, locale: string): boolean => {
+    const result = db.prepare('DELETE FROM translations WHERE project_id = ? AND locale = ?').run(projectId, locale);
+    return result.changes > 0;
   }
 };
@@ -0,0 +1,9 @@
+/// <reference path="../.astro/types.d.ts" />
+
+declare namespace App {
+    interface Locals {
+        /** Tenant project resolved from the request Host (see src/middleware.ts) */
+        project?: import('./db/platform').Project;
+        tenantSource?: import('./platform/tenancy').TenantSource;
+    }
+}
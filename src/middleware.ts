@@ -0,0 +1,22 @@
+/**
+ * Astro Middleware
+ * Resolves the tenant project from the request Host before any page or API route runs
+ */
+
+import { defineMiddleware } from 'astro:middleware';
+import { getSubdomain, resolveTenant } from './platform/tenancy';
+
+export const onRequest = defineMiddleware(async (context, next) => {
+    if (context.isPrerendered) return next();
+
+    const tenant = resolveTenant(context.request, context.url);
+    if (tenant) {
+        context.locals.project = tenant.project;
+        context.locals.tenantSource = tenant.source;
+    } else if (getSubdomain(context.request.headers.get('host'))) {
+        // A tenant hostname that maps to no project must not fall through to the platform
+        return new Response('Unknown tenant', { status: 404 });
+    }
+
+    return next();
+});
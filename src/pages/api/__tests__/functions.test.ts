@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ALL as invoke } from '../functions/[name]';
+import { PlatformDB } from '../../../db/platform';
+import { executeFunction } from '../../../platform/executor';
+import { signJWT } from '../../../auth/jwt';
+import { signPreviewToken } from '../../../auth/preview';
+
+vi.mock('../../../db/platform', () => ({
+    PlatformDB: {
+        getProject: vi.fn(),
+        getFunctions: vi.fn()
+    }
+}));
+
+vi.mock('../../../platform/executor', () => ({
+    executeFunction: vi.fn(async () => ({ ok: true }))
+}));
+
+const acme = { id: 'p-acme', name: 'Acme', subdomain: 'acme', created_at: '' };
+
+function call(headers: Record<string, string>, project?: typeof acme) {
+    const url = new URL('http://localhost/api/functions/listPatients');
+    const request = new Request(url, { headers });
+    return invoke({ params: { name: 'listPatients' }, request, url, locals: { project } } as any) as Promise<Response>;
+}
+
+describe('Function invocation', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(PlatformDB.getProject).mockImplementation(id => (id === acme.id ? acme : undefined) as any);
+        vi.mocked(PlatformDB.getFunctions).mockReturnValue([{ name: 'listPatients', code: 'return []' }] as any);
+    });
+
+    it('should invoke functions of the project named by a preview page without a tenant host', async () => {
+        const previewToken = signPreviewToken({ projectId: 'p-acme', version: 2 });
+        expect((await call({ 'X-Project-Id': 'p-acme', 'X-Preview-Token': previewToken })).status).toBe(200);
+        expect(executeFunction).toHaveBeenCalledWith('p-acme', 'return []', {});
+
+        expect((await call({})).status).toBe(400);
+        const missing = signPreviewToken({ projectId: 'p-missing', version: 1 });
+        expect((await call({ 'X-Project-Id': 'p-missing', 'X-Preview-Token': missing })).status).toBe(404);
+    });
+
+    it('should invoke functions of the project of a signed-in member without a tenant host', async () => {
+        const member = signJWT({ sub: 'u1', roles: ['viewer'], sessionId: 's1', projectId: 'p-acme' });
+        expect((await call({ 'X-Project-Id': 'p-acme', Authorization: `Bearer ${member}` })).status).toBe(200);
+        expect(executeFunction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject anonymous and cross-project calls without a tenant host', async () => {
+        expect((await call({ 'X-Project-Id': 'p-acme' })).status).toBe(401);
+
+        const otherPreview = signPreviewToken({ projectId: 'p-other', version: 1 });
+        expect((await call({ 'X-Project-Id': 'p-acme', 'X-Preview-Token': otherPreview })).status).toBe(401);
+        expect((await call({ 'X-Project-Id': 'p-acme', 'X-Preview-Token': 'forged.token' })).status).toBe(401);
+
+        const otherMember = signJWT({ sub: 'u2', roles: ['developer'], sessionId: 's2', projectId: 'p-other' });
+        expect((await call({ 'X-Project-Id': 'p-acme', Authorization: `Bearer ${otherMember}` })).status).toBe(403);
+        expect(executeFunction).not.toHaveBeenCalled();
+    });
+
+    it('should not let a tenant host invoke another project\'s functions', async () => {
+        expect((await call({ 'X-Project-Id': 'p-other' }, acme)).status).toBe(404);
+        expect((await call({ 'X-Project-Id': 'p-acme' }, acme)).status).toBe(200);
+        expect(executeFunction).toHaveBeenCalledTimes(1);
+    });
+});
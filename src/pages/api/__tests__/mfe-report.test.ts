@@ -0,0 +1,37 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST as report } from '../mfe/report';
+import { auditLog } from '../../../security/audit';
+
+vi.mock('../../../security/audit', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../../../security/audit')>()),
+    auditLog: vi.fn()
+}));
+
+function send(body: unknown) {
+    const request = new Request('http://localhost/api/mfe/report', { method: 'POST', body: JSON.stringify(body) });
+    return report({ request, locals: { project: { id: 'p-acme' } } } as any) as Promise<Response>;
+}
+
+const failure = { type: 'runtime_error', mfe: 'hc-patients', url: '/mfe/hc-patients/index.js', message: 'Crashed' };
+
+describe('MFE failure reports', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should keep client details from overwriting the recorded fields', async () => {
+        const res = await send({ ...failure, details: { projectId: 'p-other', url: 'https://evil.example', componentStack: 'at Card' } });
+
+        expect(res.status).toBe(204);
+        expect(vi.mocked(auditLog).mock.calls[0][0].metadata).toMatchObject({
+            projectId: 'p-acme',
+            url: '/mfe/hc-patients/index.js',
+            details: { projectId: 'p-other', url: 'https://evil.example', componentStack: 'at Card' }
+        });
+    });
+
+    it('should reject oversized details', async () => {
+        expect((await send({ ...failure, details: { stack: 'x'.repeat(10_000) } })).status).toBe(400);
+        expect(auditLog).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { APIRoute } from 'astro';
+import { signJWT } from '../../../auth/jwt';
+import { projectService } from '../../../services/project.service';
+import * as routes from '../projects/[projectId]/routes';
+import * as translations from '../projects/[projectId]/translations';
+import * as blueprints from '../projects/[projectId]/blueprints/index';
+import * as blueprintDiff from '../projects/[projectId]/blueprints/diff';
+import * as activate from '../projects/[projectId]/blueprints/[version]/activate';
+import * as preview from '../projects/[projectId]/blueprints/[version]/preview';
+import * as budget from '../projects/[projectId]/builds/budget';
+
+// Denied requests are audited; keep them out of data/audit
+vi.mock('../../../security/audit', () => ({ auditLog: vi.fn() }));
+
+vi.mock('../../../services/project.service', () => ({
+    projectService: {
+        saveRoute: vi.fn(),
+        deleteRoute: vi.fn(),
+        saveTranslations: vi.fn(),
+        deleteTranslations: vi.fn(),
+        listBlueprints: vi.fn(async () => ({ success: true, data: [] })),
+        diffBlueprints: vi.fn(async () => ({ success: true, data: [] })),
+        saveBlueprint: vi.fn(),
+        activateBlueprint: vi.fn(),
+        createPreviewLink: vi.fn(),
+        saveSizeBudget: vi.fn()
+    }
+}));
+
+function call(handler: APIRoute, method: string, token?: string) {
+    const url = new URL('http://localhost/api/projects/p1/resource?pattern=/about');
+    const request = new Request(url, {
+        method,
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+        body: method === 'DELETE' || method === 'GET' ? undefined : JSON.stringify({})
+    });
+    return handler({ params: { projectId: 'p1', version: '2' }, request, url } as any) as Promise<Response>;
+}
+
+const otherProject = () => signJWT({ sub: 'u2', roles: ['developer'], sessionId: 's2', projectId: 'p2' });
+const viewer = () => signJWT({ sub: 'u3', roles: ['viewer'], sessionId: 's3', projectId: 'p1' });
+
+const WRITE_ENDPOINTS = [
+    ['POST routes', routes.POST, 'POST'],
+    ['DELETE routes', routes.DELETE, 'DELETE'],
+    ['PUT translations', translations.PUT, 'PUT'],
+    ['DELETE translations', translations.DELETE, 'DELETE'],
+    ['POST blueprints', blueprints.POST, 'POST'],
+    ['POST blueprint activate', activate.POST, 'POST'],
+    ['POST blueprint preview', preview.POST, 'POST'],
+    ['PUT build budget', budget.PUT, 'PUT']
+] as const;
+
+describe('Project API access', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it.each([
+        ['GET blueprints', blueprints.GET, 'GET'],
+        ['GET blueprint diff', blueprintDiff.GET, 'GET'],
+        ...WRITE_ENDPOINTS
+    ] as const)('should reject unauthenticated and other-project callers: %s', async (_, handler, method) => {
+        expect((await call(handler, method)).status).toBe(401);
+        expect((await call(handler, method, otherProject())).status).toBe(403);
+        expect(Object.values(projectService).every(fn => vi.mocked(fn).mock.calls.length === 0)).toBe(true);
+    });
+
+    it.each(WRITE_ENDPOINTS)('should require project:write of project members: %s', async (_, handler, method) => {
+        expect((await call(handler, method, viewer())).status).toBe(403);
+        expect(Object.values(projectService).every(fn => vi.mocked(fn).mock.calls.length === 0)).toBe(true);
+    });
+
+    it('should let project viewers read the blueprint history', async () => {
+        expect((await call(blueprints.GET, 'GET', viewer())).status).toBe(200);
+        expect((await call(blueprintDiff.GET, 'GET', viewer())).status).toBe(200);
+    });
+});
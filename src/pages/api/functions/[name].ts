@@ -0,0 +1,78 @@
+import type { APIRoute } from 'astro';
+import { PlatformDB } from '../../../db/platform';
+import { executeFunction } from '../../../platform/executor';
+import { isTenantAllowed } from '../../../platform/tenancy';
+import { authenticate } from '../../../auth/middleware';
+import { hasProjectScope } from '../../../auth/access';
+import { verifyPreviewToken } from '../../../auth/preview';
+import { PREVIEW_HEADER, PROJECT_HEADER } from '../../../components/system/actions';
+
+/**
+ * Invoke a Tenant Backend Function
+ * ALL /api/functions/:name
+ *
+ * The function is looked up in the project resolved from the request Host, so
+ * one tenant can never invoke another tenant's code. Without a tenant host
+ * the caller names the project in the X-Project-Id header and must prove it:
+ * preview pages send their preview token (X-Preview-Token), other callers must
+ * be signed in to that project. On a tenant host the header must name that tenant.
+ * Query parameters and a JSON body are merged into the function params.
+ */
+export const ALL: APIRoute = async ({ params, request, url, locals }) => {
+    const json = (status: number, data: unknown) => new Response(JSON.stringify(data), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+
+    const requested = request.headers.get(PROJECT_HEADER);
+    if (requested && !isTenantAllowed(locals.project, requested)) {
+        return json(404, { error: `Function not found: ${params.name}` });
+    }
+
+    if (requested && !locals.project) {
+        const preview = verifyPreviewToken(request.headers.get(PREVIEW_HEADER) || '');
+        if (preview?.projectId !== requested) {
+            const auth = await authenticate(request);
+            if (!auth) {
+                return json(401, { error: 'Authentication required' });
+            }
+            if (!hasProjectScope(auth, requested)) {
+                return json(403, { error: 'Forbidden: No access to this project' });
+            }
+        }
+    }
+
+    const project = locals.project || (requested ? PlatformDB.getProject(requested) : undefined);
+    if (!project) {
+        return json(requested ? 404 : 400, { error: requested ? 'Project not found' : 'Function invocation requires a tenant host or project' });
+    }
+
+    const fn = PlatformDB.getFunctions(project.id).find(f => f.name === params.name);
+    if (!fn) {
+        return json(404, { error: `Function not found: ${params.name}` });
+    }
+
+    if (fn.method && fn.method !== request.method) {
+        return json(405, { error: `${fn.method} required` });
+    }
+
+    let body = {};
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+        try {
+            body = await request.json();
+        } catch (e) {
+            // ignore if no body
+        }
+    }
+
+    const result = await executeFunction(project.id, fn.code, {
+        ...Object.fromEntries(url.searchParams),
+        ...body
+    });
+
+    if (result && typeof result === 'object' && 'error' in result && result.error) {
+        return json(500, { error: result.error });
+    }
+
+    return json(200, result);
+};
@@ -1,32 +1,49 @@
-
 import type { APIRoute } from 'astro';
 import fs from 'fs';
 import path from 'path';
+import crypto from 'crypto';
+import { isTenantAllowed } from '../../../../platform/tenancy';
+import { contentHashOf } from '../../../../platform/bundler';
 
 /**
- * Serve Built MFE Bundles
+ * Serve Built MFE Bundles and Stylesheets
  * GET /api/mfe/[projectId]/[component].js
+ * GET /api/mfe/[projectId]/[component].css
+ *
+ * Content-hashed files (`<name>.<hash>.js|css`, see platform/bundler) never
+ * change and are cached as immutable. `<name>.js` and `<name>.css` always hold
+ * the latest build and are revalidated on every use. All carry an ETag.
  */
-export const GET: APIRoute = async ({ params }) => {
+export const GET: APIRoute = async ({ params, locals, request }) => {
     const { projectId, component } = params;
 
     if (!projectId || !component) {
         return new Response('Missing parameters', { status: 400 });
     }
 
+    // Tenant hosts only serve their own bundles
+    if (!isTenantAllowed(locals.project, projectId)) {
+        return new Response('MFE not found', { status: 404 });
+    }
+
     const distDir = path.resolve(process.cwd(), 'data', 'tenants', projectId, 'dist');
     const filePath = path.join(distDir, component); // Component usually includes .js extension in URL
 
-    if (!fs.existsSync(filePath)) {
-         return new Response(`MFE not found: ${filePath}`, { status: 404 });
+    if (!/^[\w.-]+\.(js|css)$/.test(component) || !fs.existsSync(filePath)) {
+        return new Response(`MFE not found: ${component}`, { status: 404 });
     }
 
-    const content = fs.readFileSync(filePath, 'utf-8');
+    const content = fs.readFileSync(filePath);
+    const hash = contentHashOf(component);
+    const etag = `"${hash ?? crypto.createHash('sha256').update(content).digest('hex').slice(0, 16)}"`;
+    const headers = {
+        'Content-Type': component.endsWith('.css') ? 'text/css' : 'application/javascript',
+        'Cache-Control': hash ? 'public, max-age=31536000, immutable' : 'no-cache',
+        'ETag': etag
+    };
 
-    return new Response(content, {
-        headers: {
-            'Content-Type': 'application/javascript',
-            'Cache-Control': 'no-cache'
-        }
-    });
+    if (request.headers.get('If-None-Match')?.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag)) {
+        return new Response(null, { status: 304, headers });
+    }
+    return new Response(content, { headers });
 };
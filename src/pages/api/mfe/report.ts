@@ -0,0 +1,53 @@
+import type { APIRoute } from 'astro';
+import { validators } from '../../../security/validator';
+import { auditLog, AuditActions } from '../../../security/audit';
+
+/**
+ * MFE Failure Reports
+ * POST /api/mfe/report
+ *
+ * Receives failures detected by the client-side MFE loader and error boundaries
+ * (integrity mismatches, failed or timed-out loads, runtime crashes) and records them in the audit log.
+ */
+
+const AUDIT_ACTIONS = {
+    integrity_mismatch: AuditActions.MFE_INTEGRITY_FAIL,
+    load_error: AuditActions.MFE_LOAD_FAIL,
+    load_timeout: AuditActions.MFE_LOAD_FAIL,
+    runtime_error: AuditActions.MFE_RUNTIME_ERROR
+} as const;
+
+export const POST: APIRoute = async ({ request, locals }) => {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch (e) {
+        return new Response(JSON.stringify({ error: 'Invalid request body' }), { status: 400 });
+    }
+
+    const validation = await validators.mfeFailureReport(body);
+    if (!validation.success) {
+        return new Response(JSON.stringify({ error: validation.error }), { status: 400 });
+    }
+
+    const report = validation.data;
+
+    await auditLog({
+        action: AUDIT_ACTIONS[report.type],
+        resource: `mfe:${report.mfe}`,
+        success: false,
+        ip: request.headers.get('x-forwarded-for') || undefined,
+        userAgent: request.headers.get('user-agent') || undefined,
+        // Client-supplied details stay nested, so they cannot pose as the fields we record
+        metadata: {
+            details: report.details,
+            url: report.url,
+            version: report.version,
+            message: report.message,
+            type: report.type,
+            projectId: locals.project?.id
+        }
+    });
+
+    return new Response(null, { status: 204 });
+};
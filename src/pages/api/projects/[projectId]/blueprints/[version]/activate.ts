@@ -0,0 +1,24 @@
+import type { APIRoute } from 'astro';
+import { requireProjectPermission } from '../../../../../../auth/middleware';
+import { projectService } from '../../../../../../services/project.service';
+
+/**
+ * Activate a Blueprint Version
+ * POST /api/projects/:projectId/blueprints/:version/activate
+ *
+ * Publishes a draft, or rolls the project back (or forward) to an existing
+ * version. Requires `project:write`; the caller is recorded on the blueprint
+ * and in the audit log.
+ */
+export const POST: APIRoute = requireProjectPermission('project:write')(async (auth, { params }) => {
+    const result = await projectService.activateBlueprint(
+        { projectId: params.projectId, version: params.version },
+        auth.userId
+    );
+
+    const status = result.success ? 200 : result.error === 'Blueprint not found' ? 404 : 400;
+    return new Response(JSON.stringify(result), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+});
@@ -0,0 +1,30 @@
+import type { APIRoute } from 'astro';
+import { requireProjectPermission } from '../../../../../../auth/middleware';
+import { projectService } from '../../../../../../services/project.service';
+
+/**
+ * Blueprint Preview Link
+ * POST /api/projects/:projectId/blueprints/:version/preview   { expiresIn?: seconds }
+ *
+ * Returns a signed, expiring `/app/?preview=<token>` link that renders this
+ * version (typically a draft) without publishing it.
+ */
+export const POST: APIRoute = requireProjectPermission('project:write')(async (auth, { params, request }) => {
+    let body: Record<string, unknown> = {};
+    try {
+        body = await request.json();
+    } catch (e) {
+        // Body is optional
+    }
+
+    const result = await projectService.createPreviewLink(
+        { expiresIn: body.expiresIn, projectId: params.projectId, version: params.version },
+        auth.userId
+    );
+
+    const status = result.success ? 201 : result.error === 'Blueprint not found' ? 404 : 400;
+    return new Response(JSON.stringify(result), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+});
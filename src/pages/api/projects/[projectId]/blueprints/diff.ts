@@ -0,0 +1,24 @@
+import type { APIRoute } from 'astro';
+import { requireProjectPermission } from '../../../../../auth/middleware';
+import { projectService } from '../../../../../services/project.service';
+
+/**
+ * Blueprint Diff
+ * GET /api/projects/:projectId/blueprints/diff?from=3&to=5
+ *
+ * Structural changes to ui_schema and data_schema; `to` defaults to the active version.
+ * Diffs expose draft contents, so they require `project:read` like the history.
+ */
+export const GET: APIRoute = requireProjectPermission('project:read')(async (_auth, { params, url }) => {
+    const result = await projectService.diffBlueprints({
+        projectId: params.projectId,
+        from: url.searchParams.get('from'),
+        to: url.searchParams.get('to') || undefined
+    });
+
+    const status = result.success ? 200 : result.error === 'Blueprint not found' ? 404 : 400;
+    return new Response(JSON.stringify(result), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+});
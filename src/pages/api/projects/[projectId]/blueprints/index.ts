@@ -0,0 +1,39 @@
+import type { APIRoute } from 'astro';
+import { requireProjectPermission } from '../../../../../auth/middleware';
+import { projectService } from '../../../../../services/project.service';
+
+/**
+ * Blueprint History
+ * GET  /api/projects/:projectId/blueprints    list versions, newest first
+ * POST /api/projects/:projectId/blueprints    save a new version { uiSchema, dataSchema?, publish? }
+ *
+ * Saved versions are drafts unless `publish` is set. Without `dataSchema`
+ * the newest version's data schema is kept. Listing requires `project:read`
+ * on the project: drafts stay private until activated or previewed with a
+ * signed token. Saving requires `project:write`.
+ */
+export const GET: APIRoute = requireProjectPermission('project:read')(async (_auth, { params }) => {
+    const result = await projectService.listBlueprints(params.projectId || '');
+    return new Response(JSON.stringify(result), {
+        status: result.success ? 200 : 400,
+        headers: { 'Content-Type': 'application/json' }
+    });
+});
+
+export const POST: APIRoute = requireProjectPermission('project:write')(async (auth, { params, request }) => {
+    let body: Record<string, unknown>;
+    try {
+        body = await request.json();
+    } catch (e) {
+        return new Response(JSON.stringify({ success: false, error: 'Invalid request body' }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+
+    const result = await projectService.saveBlueprint({ ...body, projectId: params.projectId }, auth.userId);
+    return new Response(JSON.stringify(result), {
+        status: result.success ? 201 : 400,
+        headers: { 'Content-Type': 'application/json' }
+    });
+});
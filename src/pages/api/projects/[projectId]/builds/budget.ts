@@ -0,0 +1,28 @@
+import type { APIRoute } from 'astro';
+import { requireProjectPermission } from '../../../../../auth/middleware';
+import { projectService } from '../../../../../services/project.service';
+
+/**
+ * MFE Bundle Size Budget
+ * PUT /api/projects/:projectId/builds/budget    set the budget { budget: { warnBytes?, maxBytes?, warnGrowth?, maxGrowth? } | null }
+ *
+ * Sizes are gzip bytes, growth a fraction of the previous build's size.
+ * `null` restores the platform default. Read it with GET .../builds.
+ */
+export const PUT: APIRoute = requireProjectPermission('project:write')(async (auth, { params, request }) => {
+    let body: Record<string, unknown>;
+    try {
+        body = await request.json();
+    } catch (e) {
+        return new Response(JSON.stringify({ success: false, error: 'Invalid request body' }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+
+    const result = await projectService.saveSizeBudget({ ...body, projectId: params.projectId }, auth.userId);
+    return new Response(JSON.stringify(result), {
+        status: result.success ? 200 : result.error === 'Project not found' ? 404 : 400,
+        headers: { 'Content-Type': 'application/json' }
+    });
+});
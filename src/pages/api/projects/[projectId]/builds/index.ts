@@ -0,0 +1,18 @@
+import type { APIRoute } from 'astro';
+import { projectService } from '../../../../../services/project.service';
+
+/**
+ * MFE Build Manifests
+ * GET /api/projects/:projectId/builds                   latest build of each MFE, with the size budget
+ * GET /api/projects/:projectId/builds?component=Card    every kept build of one MFE, newest first
+ */
+export const GET: APIRoute = async ({ params, url }) => {
+    const result = await projectService.listBuilds({
+        projectId: params.projectId,
+        component: url.searchParams.get('component') ?? undefined
+    });
+    return new Response(JSON.stringify(result), {
+        status: result.success ? 200 : result.error === 'Project not found' ? 404 : 400,
+        headers: { 'Content-Type': 'application/json' }
+    });
+};
@@ -0,0 +1,45 @@
+import type { APIRoute } from 'astro';
+import { requireProjectPermission } from '../../../../auth/middleware';
+import { projectService } from '../../../../services/project.service';
+import type { APIResponse } from '../../../../types';
+
+/**
+ * Project Route Table
+ * GET    /api/projects/:projectId/routes                  list routes
+ * POST   /api/projects/:projectId/routes                  create/update a route { pattern, mfe, priority?, variables?, query? }
+ * DELETE /api/projects/:projectId/routes?pattern=/path    delete a route
+ */
+
+const json = (status: number, data: unknown) => new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+});
+
+const toResponse = (result: APIResponse, successStatus = 200) => {
+    if (result.success) return json(successStatus, result);
+    return json(result.error === 'Project not found' || result.error === 'Route not found' ? 404 : 400, result);
+};
+
+export const GET: APIRoute = async ({ params }) => {
+    return toResponse(await projectService.listRoutes(params.projectId || ''));
+};
+
+export const POST: APIRoute = requireProjectPermission('project:write')(async (auth, { params, request }) => {
+    let body: Record<string, unknown>;
+    try {
+        body = await request.json();
+    } catch (e) {
+        return json(400, { success: false, error: 'Invalid request body' });
+    }
+
+    const result = await projectService.saveRoute({ ...body, projectId: params.projectId }, auth.userId);
+    return toResponse(result, 201);
+});
+
+export const DELETE: APIRoute = requireProjectPermission('project:write')(async (auth, { params, url }) => {
+    const result = await projectService.deleteRoute(
+        { projectId: params.projectId, pattern: url.searchParams.get('pattern') },
+        auth.userId
+    );
+    return toResponse(result);
+});
@@ -0,0 +1,45 @@
+import type { APIRoute } from 'astro';
+import { requireProjectPermission } from '../../../../auth/middleware';
+import { projectService } from '../../../../services/project.service';
+import type { APIResponse } from '../../../../types';
+
+/**
+ * Project Translation Catalogs
+ * GET    /api/projects/:projectId/translations             list catalogs (all locales)
+ * PUT    /api/projects/:projectId/translations             create/replace a catalog { locale, messages }
+ * DELETE /api/projects/:projectId/translations?locale=ar   delete a catalog
+ */
+
+const json = (status: number, data: unknown) => new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+});
+
+const toResponse = (result: APIResponse, successStatus = 200) => {
+    if (result.success) return json(successStatus, result);
+    return json(result.error === 'Project not found' || result.error === 'Translations not found' ? 404 : 400, result);
+};
+
+export const GET: APIRoute = async ({ params }) => {
+    return toResponse(await projectService.listTranslations(params.projectId || ''));
+};
+
+export const PUT: APIRoute = requireProjectPermission('project:write')(async (auth, { params, request }) => {
+    let body: Record<string, unknown>;
+    try {
+        body = await request.json();
+    } catch (e) {
+        return json(400, { success: false, error: 'Invalid request body' });
+    }
+
+    const result = await projectService.saveTranslations({ ...body, projectId: params.projectId }, auth.userId);
+    return toResponse(result);
+});
+
+export const DELETE: APIRoute = requireProjectPermission('project:write')(async (auth, { params, url }) => {
+    const result = await projectService.deleteTranslations(
+        { projectId: params.projectId, locale: url.searchParams.get('locale') },
+        auth.userId
+    );
+    return toResponse(result);
+});
@@ -2,16 +2,25 @@
 import type { APIRoute } from 'astro';
 import { readFile } from 'fs/promises';
 import { join } from 'path';
+import { compileRoutes, matchRoute, registryRoutes } from '../../platform/router';
+import { PlatformDB } from '../../db/platform';
+import { projectRegistry } from '../../platform/tenancy';
+import type { MFERegistry } from '../../types';
 
 /**
- * Route Registry - Reads from mfe-registry.json
+ * Route Registry
+ * With a tenant (Host) or `projectId`, the project's route table is matched first, so tenants can
+ * own the same paths. Otherwise (or on no match) falls back to mfe-registry.json.
+ * MFEs resolve against the project's view of the registry: platform MFEs and its own builds.
  */
-export const GET: APIRoute = async ({ url }) => {
+export const GET: APIRoute = async ({ url, locals }) => {
     const path = url.searchParams.get('path') || '/';
+    // A tenant host always scopes the lookup to its own project
+    const projectId = locals.project?.id || url.searchParams.get('projectId');
 
     // Read registry
     const registryPath = join(process.cwd(), 'public', 'mfe', 'mfe-registry.json');
-    let registry: any = { mfes: {} };
+    let registry: MFERegistry = { mfes: {}, generatedAt: '' };
 
     try {
         const fileContent = await readFile(registryPath, 'utf-8');
@@ -20,30 +29,41 @@ export const GET: APIRoute = async ({ url }) => {
         // console.error('Failed to read MFE registry', e);
         // Fallback or empty
     }
+    registry = projectRegistry(registry, projectId);
 
-    const pathWithoutSlash = path.startsWith('/') ? path.slice(1) : path;
-    const firstSegment = pathWithoutSlash.split('/')[0];
+    // Query string of the requested page, not of this API call
+    const pageQuery = new URL(path, url).searchParams;
+    const pagePath = path.split('?')[0];
 
-    // Check availability in registry
-    if (registry.mfes[firstSegment]) {
-        const mfeDef = registry.mfes[firstSegment];
-
-        // Extract any path parameters
-        const pathParts = pathWithoutSlash.split('/');
-        const variables: Record<string, string> = { ...mfeDef.variables };
-
-        if (pathParts.length > 1) {
-            variables['id'] = pathParts[1];
+    let match = null;
+    if (projectId) {
+        try {
+            match = matchRoute(compileRoutes(PlatformDB.getRoutes(projectId)), pagePath, pageQuery);
+        } catch (e) {
+            console.error(`Failed to load routes for project ${projectId}`, e);
         }
+    }
+    match = match || matchRoute(compileRoutes(registryRoutes(registry)), pagePath, pageQuery);
+    const mfeDef = match ? registry.mfes[match.route.mfe] : undefined;
 
+    if (match && mfeDef) {
         return new Response(JSON.stringify({
-            route: `/${firstSegment}`,
+            route: match.route.pattern,
+            params: match.params,
+            // Rules of the route and of its MFE; the catch-all page enforces them
+            access: [match.route.access, mfeDef.access].filter(Boolean),
             mfe: {
-                name: firstSegment,
+                name: match.route.mfe,
                 source: mfeDef.source,
                 integrity: mfeDef.integrity,
-                variables,
-                version: mfeDef.version
+                variables: { ...mfeDef.variables, ...match.variables },
+                version: mfeDef.version,
+                events: mfeDef.events,
+                loading: mfeDef.loading,
+                ssr: mfeDef.ssr,
+                styles: mfeDef.styles,
+                encapsulation: mfeDef.encapsulation,
+                fallback: mfeDef.fallback
             }
         }), {
             status: 200,
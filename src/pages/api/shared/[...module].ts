@@ -0,0 +1,32 @@
+import type { APIRoute } from 'astro';
+import { findSharedModule, sharedModuleSource } from '../../../platform/import-map';
+
+/**
+ * Shared Modules
+ * GET /api/shared/<specifier>.js?v=<version>
+ *
+ * Serves the modules of the host's import map (see platform/import-map).
+ * URLs of the current version are immutable, since upgrades change `v`.
+ */
+export const GET: APIRoute = async ({ params, url }) => {
+    const specifier = (params.module || '').replace(/\.js$/, '');
+    const module = findSharedModule(specifier);
+    if (!module) {
+        return new Response(`Not a shared module: ${specifier}`, { status: 404 });
+    }
+
+    try {
+        const source = await sharedModuleSource(module);
+        return new Response(source, {
+            headers: {
+                'Content-Type': 'application/javascript',
+                'Cache-Control': url.searchParams.get('v') === module.version
+                    ? 'public, max-age=31536000, immutable'
+                    : 'no-cache'
+            }
+        });
+    } catch (e: unknown) {
+        console.error(`Failed to serve shared module ${specifier}:`, e);
+        return new Response(`Failed to build shared module: ${specifier}`, { status: 500 });
+    }
+};
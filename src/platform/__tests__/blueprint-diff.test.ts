@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { diffJSON } from '../blueprint-diff';
+
+describe('Blueprint diff', () => {
+    it('should report changes by node path', () => {
+        const before = {
+            root: {
+                type: 'layout',
+                layout: 'sidebar',
+                children: [
+                    { type: 'mfe', name: 'hc-patients' },
+                    { type: 'outlet' }
+                ]
+            }
+        };
+        const after = {
+            root: {
+                type: 'layout',
+                layout: 'stack',
+                gap: 'lg',
+                children: [
+                    { type: 'mfe', name: 'hc-records' }
+                ]
+            }
+        };
+
+        expect(diffJSON(before, after)).toEqual([
+            { path: 'root.layout', kind: 'changed', before: 'sidebar', after: 'stack' },
+            { path: 'root.children[0].name', kind: 'changed', before: 'hc-patients', after: 'hc-records' },
+            { path: 'root.children[1]', kind: 'removed', before: { type: 'outlet' } },
+            { path: 'root.gap', kind: 'added', after: 'lg' }
+        ]);
+    });
+
+    it('should return no changes for identical schemas', () => {
+        const schema = { tables: [{ name: 'patients', columns: [{ name: 'id', type: 'TEXT' }] }] };
+        expect(diffJSON(schema, structuredClone(schema))).toEqual([]);
+    });
+});
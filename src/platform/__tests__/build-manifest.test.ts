@@ -0,0 +1,42 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { checkBudget, describeManifest } from '../build-manifest';
+import type { BuildManifest } from '../../types';
+
+describe('Size budgets', () => {
+    it('should warn and fail on size and growth', () => {
+        const budget = { warnBytes: 10_000, maxBytes: 20_000, warnGrowth: 0.1, maxGrowth: 0.5 };
+
+        expect(checkBudget(5_000, undefined, budget)).toEqual({ status: 'ok', messages: [] });
+        expect(checkBudget(12_000, 11_500, budget)).toEqual({
+            status: 'warn',
+            messages: ['11.7 kB gzip exceeds the 9.8 kB warning threshold'],
+            previousGzip: 11_500
+        });
+        expect(checkBudget(9_500, 6_000, budget)).toEqual({
+            status: 'fail',
+            messages: ['grew 58% over the previous build (5.9 kB gzip), more than the 50% allowed'],
+            previousGzip: 6_000
+        });
+        expect(checkBudget(25_000, undefined, budget).status).toBe('fail');
+        expect(checkBudget(25_000, undefined, {}).status).toBe('ok');
+    });
+
+    it('should summarize the largest modules of builds over budget', () => {
+        const manifest: BuildManifest = {
+            component: 'Chart',
+            file: 'Chart.0123456789abcdef.js',
+            builtAt: '2026-01-01T00:00:00.000Z',
+            durationMs: 42,
+            size: { raw: 300_000, gzip: 90_000 },
+            imports: ['react'],
+            modules: [{ name: 'recharts', bytes: 250_000 }, { name: 'frontend/Chart.tsx', bytes: 2_000 }],
+            exports: ['default'],
+            warnings: [],
+            budget: { status: 'warn', messages: ['87.9 kB gzip exceeds the 80.0 kB warning threshold'] }
+        };
+        expect(describeManifest(manifest)).toBe(
+            '87.9 kB gzip (293.0 kB raw), built in 42 ms. Budget warn: 87.9 kB gzip exceeds the 80.0 kB warning threshold. Largest modules: recharts 244.1 kB, frontend/Chart.tsx 2.0 kB'
+        );
+    });
+});
@@ -0,0 +1,76 @@
+// @vitest-environment node
+import { describe, it, expect, afterAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { FileSystem } from '../../db/fs';
+import { buildMFE, contentHashOf } from '../bundler';
+import { listManifests } from '../build-manifest';
+
+const projectId = 'bundler-test-project';
+const distDir = path.join(FileSystem.getProjectDir(projectId), '..', 'dist');
+
+async function buildWith(code: string) {
+    await FileSystem.writeFile(projectId, 'frontend/Card.tsx', code);
+    return buildMFE(projectId, 'Card');
+}
+
+afterAll(() => {
+    fs.rmSync(path.join(FileSystem.getProjectDir(projectId), '..'), { recursive: true, force: true });
+});
+
+describe('MFE bundler', () => {
+    it('should write content-hashed builds and keep earlier ones', async () => {
+        const first = await buildWith(`export default () => 'first';`);
+        expect(first.file).toMatch(/^Card\.[0-9a-f]{16}\.js$/);
+        expect(contentHashOf(first.file)).toBe(first.file.split('.')[1]);
+
+        const second = await buildWith(`export default () => 'second';`);
+        expect(second.file).not.toBe(first.file);
+        expect(fs.readFileSync(path.join(distDir, first.file), 'utf-8')).toContain('first');
+        expect(fs.readFileSync(path.join(distDir, 'Card.js'), 'utf-8')).toContain('second');
+
+        // Unchanged sources build to the same file
+        expect((await buildWith(`export default () => 'second';`)).file).toBe(second.file);
+        expect(contentHashOf('Card.js')).toBeNull();
+    });
+
+    it('should store a manifest next to each build', async () => {
+        const { file, manifest } = await buildWith(`import { useState } from 'react'; export const label = 'Card'; export default () => useState(label)[0];`);
+
+        expect(manifest).toMatchObject({
+            component: 'Card',
+            file,
+            imports: ['react'],
+            exports: ['default', 'label'],
+            warnings: []
+        });
+        // Compared against the previous build of Card
+        expect(manifest.budget.previousGzip).toBeGreaterThan(0);
+        expect(manifest.size.gzip).toBeGreaterThan(0);
+        expect(manifest.size.raw).toBe(fs.statSync(path.join(distDir, file)).size);
+        expect(manifest.modules).toEqual([{ name: 'frontend/Card.tsx', bytes: expect.any(Number) }]);
+
+        expect(listManifests(distDir).map(entry => entry.file)).toEqual([file]);
+        expect(listManifests(distDir, 'Card')[0]).toEqual(manifest);
+    });
+
+    it('should emit a stylesheet with Tailwind classes and imported CSS', async () => {
+        await FileSystem.writeFile(projectId, 'frontend/Card.module.css', '.title { letter-spacing: 0.1em; }');
+        const { stylesheet, manifest } = await buildWith(
+            `import styles from './Card.module.css'; export default () => <h2 className={'p-4 bg-primary ' + styles.title}>Hi</h2>;`
+        );
+
+        expect(stylesheet).toMatch(/^Card\.[0-9a-f]{16}\.css$/);
+        expect(manifest.stylesheet?.file).toBe(stylesheet);
+        const css = fs.readFileSync(path.join(distDir, stylesheet!), 'utf-8');
+        expect(css).toContain('.p-4{');
+        // Theme tokens follow the page's blueprint theme
+        expect(css).toContain('background-color:var(--color-primary, #4f46e5)');
+        expect(css).toMatch(/\.[\w-]+\{letter-spacing:\.1em\}/);
+        expect(fs.readFileSync(path.join(distDir, 'Card.css'), 'utf-8')).toBe(css);
+
+        const unstyled = await buildWith(`export default () => null;`);
+        expect(unstyled.stylesheet).toBeNull();
+        expect(fs.existsSync(path.join(distDir, 'Card.css'))).toBe(false);
+    });
+});
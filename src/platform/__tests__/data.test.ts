@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { resolveDataRequests, loadNodeData } from '../data';
+import { PlatformDB } from '../../db/platform';
+import { executeFunction } from '../executor';
+
+vi.mock('../../db/platform', () => ({
+    PlatformDB: { getFunctions: vi.fn() }
+}));
+
+vi.mock('../executor', () => ({
+    executeFunction: vi.fn()
+}));
+
+const tenantDB = new Database(':memory:');
+tenantDB.exec(`
+    CREATE TABLE patients (id TEXT, name TEXT, ward TEXT);
+    INSERT INTO patients VALUES ('P001', 'John Smith', 'A'), ('P002', 'Emma Wilson', 'B'), ('P003', 'Lisa Anderson', 'A');
+`);
+
+vi.mock('../../db', () => ({
+    DatabaseManager: { withTenantDB: (_projectId: string, fn: (db: unknown) => unknown) => Promise.resolve(fn(tenantDB)) }
+}));
+
+describe('Data source resolution', () => {
+    beforeEach(() => {
+        vi.mocked(PlatformDB.getFunctions).mockReturnValue([
+            { name: 'listPatients', code: 'listPatients.js', method: 'GET' },
+            { name: 'deletePatient', code: 'deletePatient.js', method: 'POST' }
+        ] as any);
+        vi.mocked(executeFunction).mockReset();
+    });
+
+    it('should read tenant tables with bound filters and ordering', async () => {
+        const { patients } = await resolveDataRequests('p1', {
+            patients: { kind: 'table', table: 'patients', where: { ward: 'A' }, orderBy: { column: 'name', direction: 'desc' } }
+        });
+
+        expect(patients).toEqual({
+            status: 'ready',
+            data: [
+                { id: 'P003', name: 'Lisa Anderson', ward: 'A' },
+                { id: 'P001', name: 'John Smith', ward: 'A' }
+            ]
+        });
+    });
+
+    it('should run GET functions once per identical request and reject others', async () => {
+        vi.mocked(executeFunction).mockResolvedValue([{ id: 'P001' }] as any);
+
+        const results = await resolveDataRequests('p1', {
+            a: { kind: 'function', name: 'listPatients', params: { ward: 'A' } },
+            b: { kind: 'function', name: 'listPatients', params: { ward: 'A' } },
+            c: { kind: 'function', name: 'deletePatient', params: {} },
+            d: { kind: 'table', table: 'missing', where: {} }
+        });
+
+        expect(executeFunction).toHaveBeenCalledTimes(1);
+        expect(executeFunction).toHaveBeenCalledWith('p1', 'listPatients.js', { ward: 'A' });
+        expect(results.a).toEqual(results.b);
+        expect(results.c).toMatchObject({ status: 'error', error: expect.stringContaining('only GET') });
+        expect(results.d).toMatchObject({ status: 'error', error: 'Table not found: missing' });
+    });
+
+    it('should merge slot data into props and drop the requests', async () => {
+        vi.mocked(executeFunction).mockResolvedValue({ error: 'boom' });
+
+        const [node] = await loadNodeData('p1', [{
+            type: 'mfe',
+            spec: { name: 'hc-patients', url: '/mfe/hc-patients/index.js', props: { title: 'Patients' } },
+            data: { patients: { kind: 'function', name: 'listPatients', params: {} } }
+        }]) as any[];
+
+        expect(node.data).toBeUndefined();
+        expect(node.spec.props).toEqual({
+            title: 'Patients',
+            patients: null,
+            dataStatus: { patients: { status: 'error', error: 'boom' } }
+        });
+    });
+});
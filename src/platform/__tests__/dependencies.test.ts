@@ -0,0 +1,93 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import { build } from 'esbuild';
+import { sharedModulesPlugin } from '../import-map';
+import { DependencyError, installDependencies, policyViolation, readDeclaredDependencies, tenantDependenciesPlugin, type PackagePolicy } from '../dependencies';
+
+let root: string;
+
+/** Vendor an npm-style tarball (`package/` prefix) into the project sources */
+function vendorPackage(name: string, version: string, files: Record<string, string>) {
+    const staging = fs.mkdtempSync(path.join(os.tmpdir(), 'pkg-'));
+    fs.mkdirSync(path.join(staging, 'package'));
+    fs.writeFileSync(path.join(staging, 'package', 'package.json'), JSON.stringify({ name, version, main: 'index.js' }));
+    for (const [file, contents] of Object.entries(files)) {
+        fs.writeFileSync(path.join(staging, 'package', file), contents);
+    }
+    execFileSync('tar', ['-czf', path.join(root, 'src', 'vendor', `${name}-${version}.tgz`), '-C', staging, 'package']);
+    fs.rmSync(staging, { recursive: true, force: true });
+}
+
+function declare(dependencies: Record<string, string>) {
+    fs.writeFileSync(path.join(root, 'src', 'package.json'), JSON.stringify({ name: 'tenant', dependencies }));
+}
+
+async function bundle(contents: string, policy: PackagePolicy) {
+    const installed = await installDependencies(root, policy);
+    const used = new Set<string>();
+    const result = await build({
+        stdin: { contents, resolveDir: path.join(root, 'src', 'frontend'), loader: 'tsx' },
+        bundle: true,
+        write: false,
+        format: 'esm',
+        logLevel: 'silent',
+        plugins: [sharedModulesPlugin(), tenantDependenciesPlugin(installed, used)]
+    });
+    return { text: result.outputFiles[0].text, versions: installed.versions, used };
+}
+
+beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'tenant-'));
+    fs.mkdirSync(path.join(root, 'src', 'vendor'), { recursive: true });
+    fs.mkdirSync(path.join(root, 'src', 'frontend'));
+    vendorPackage('tiny-chart', '1.2.0', { 'index.js': `export const chart = () => 'tiny chart';` });
+});
+
+afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('Tenant dependencies', () => {
+    it('should match packages against the allow and deny lists', () => {
+        const policy = { allow: ['recharts', '@tanstack/*'], deny: ['@tanstack/legacy'] };
+        expect(policyViolation('@tanstack/table', policy)).toBeNull();
+        expect(policyViolation('left-pad', policy)).toBe('"left-pad" is not allowed by the package policy');
+        expect(policyViolation('@tanstack/legacy', policy)).toBe('"@tanstack/legacy" is denied by the package policy');
+        expect(policyViolation('left-pad', policy, false)).toBeNull();
+    });
+
+    it('should reject network sources and tarballs outside the project', async () => {
+        declare({ chart: 'https://example.com/chart.tgz' });
+        expect(() => readDeclaredDependencies(root)).toThrow('must be version ranges or file: tarballs');
+
+        declare({ chart: 'file:../../chart.tgz' });
+        await expect(installDependencies(root, { allow: ['chart'], deny: [] })).rejects.toThrow('"chart" must be vendored inside the project');
+    });
+
+    it('should bundle vendored packages offline and only declared ones', async () => {
+        declare({ 'tiny-chart': 'file:vendor/tiny-chart-1.2.0.tgz', react: '^19.0.0' });
+        const policy = { allow: ['tiny-*'], deny: [] };
+
+        const { text, versions, used } = await bundle(`import { chart } from 'tiny-chart'; import React from 'react'; export default () => [React, chart()];`, policy);
+        expect(text).toContain('tiny chart');
+        expect(text).toMatch(/from ["']react["']/);
+        expect(versions).toEqual({ 'tiny-chart': '1.2.0' });
+        expect(used).toEqual(new Set(['tiny-chart']));
+
+        // Installed on the host, but not declared by the project
+        await expect(bundle(`import { z } from 'zod'; export default z;`, policy))
+            .rejects.toThrow('"zod" is not a dependency of this project; declare it in package.json');
+    }, 60000);
+
+    it('should refuse packages outside the policy or the offline cache', async () => {
+        declare({ 'tiny-chart': 'file:vendor/tiny-chart-1.2.0.tgz' });
+        await expect(installDependencies(root, { allow: [], deny: [] })).rejects.toThrow(DependencyError);
+
+        declare({ 'left-pad': '^1.3.0' });
+        await expect(installDependencies(root, { allow: ['left-pad'], deny: [] })).rejects.toThrow('could not be installed offline');
+    }, 60000);
+});
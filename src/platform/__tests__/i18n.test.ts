@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+import { negotiateLocale, parseAcceptLanguage, splitLocalePrefix, localeChain, resolveMessages, textDirection } from '../i18n';
+import { resolveBlueprintTree } from '../renderer';
+
+vi.mock('../../db/platform', () => ({
+    PlatformDB: { getActiveBlueprint: vi.fn() }
+}));
+
+const config = { defaultLocale: 'en', locales: ['en', 'ar', 'pt-BR'] };
+
+describe('Locale negotiation', () => {
+    it('should prefer the URL prefix, then the cookie, then Accept-Language', () => {
+        expect(negotiateLocale({ prefix: 'ar', cookie: 'en', acceptLanguage: 'pt-BR' }, config)).toBe('ar');
+        expect(negotiateLocale({ cookie: 'ar', acceptLanguage: 'pt-BR' }, config)).toBe('ar');
+        expect(negotiateLocale({ acceptLanguage: 'fr-FR, ar-EG;q=0.8, en;q=0.5' }, config)).toBe('ar');
+        expect(negotiateLocale({ acceptLanguage: 'pt' }, config)).toBe('pt-BR');
+        expect(negotiateLocale({ acceptLanguage: 'de' }, config)).toBe('en');
+    });
+
+    it('should parse Accept-Language by quality', () => {
+        expect(parseAcceptLanguage('en;q=0.5, ar-eg, *;q=0.1, fr;q=0')).toEqual(['ar-EG', 'en']);
+        expect(parseAcceptLanguage(null)).toEqual([]);
+    });
+
+    it('should strip supported locale prefixes only', () => {
+        expect(splitLocalePrefix('/ar/patients/7', config.locales)).toEqual({ locale: 'ar', path: '/patients/7' });
+        expect(splitLocalePrefix('/ar', config.locales)).toEqual({ locale: 'ar', path: '/' });
+        expect(splitLocalePrefix('/archive', config.locales)).toEqual({ path: '/archive' });
+    });
+
+    it('should build fallback chains and text direction', () => {
+        expect(localeChain('ar-EG', 'en')).toEqual(['ar-EG', 'ar', 'en']);
+        expect(localeChain('en', 'en')).toEqual(['en']);
+        expect(textDirection('ar-EG')).toBe('rtl');
+        expect(textDirection('pt-BR')).toBe('ltr');
+    });
+});
+
+describe('Localized resolution', () => {
+    it('should fill missing messages from fallback locales', () => {
+        const messages = resolveMessages({
+            en: { nav: { home: 'Home', patients: 'Patients' }, save: 'Save' },
+            ar: { nav: { home: 'الرئيسية' } }
+        }, ['ar-EG', 'ar', 'en']);
+
+        expect(messages).toEqual({ nav: { home: 'الرئيسية', patients: 'Patients' }, save: 'Save' });
+    });
+
+    it('should localize primitives, message bindings and MFE variables', () => {
+        const registry = {
+            'hc-patients': { source: '/mfe/hc-patients/index.js', version: '1.0.0', variables: { title: { $i18n: { en: 'Patients', ar: 'المرضى' } } } }
+        } as any;
+
+        const nodes = resolveBlueprintTree({
+            type: 'layout',
+            layout: 'stack',
+            children: [
+                { type: 'heading', text: { $i18n: { en: 'Welcome', ar: 'مرحبا' } } },
+                { type: 'button', text: 'Save', bindings: { text: { source: 'messages', path: 'actions.save' } } },
+                { type: 'text', text: { $i18n: { fr: 'Bonjour' } } },
+                { type: 'mfe', name: 'hc-patients', variables: { subtitle: { $i18n: { en: 'All', ar: 'الكل' } } } }
+            ]
+        }, {
+            registry,
+            context: { route: {}, query: {}, messages: { actions: { save: 'حفظ' } } },
+            outlet: null,
+            locales: ['ar-EG', 'ar', 'en']
+        });
+
+        const [heading, button, text, mfe] = (nodes[0] as any).children;
+        expect(heading.text).toBe('مرحبا');
+        expect(button.text).toBe('حفظ');
+        expect(text.text).toBe('Bonjour');
+        expect(mfe.spec.props).toEqual({ title: 'المرضى', subtitle: 'الكل' });
+    });
+});
@@ -0,0 +1,46 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { createRequire } from 'module';
+import { build } from 'esbuild';
+import { findSharedModule, getImportMap, packageOf, sharedModuleSource, sharedModulesPlugin, sharedVersions } from '../import-map';
+
+const reactVersion: string = createRequire(import.meta.url)('react/package.json').version;
+
+async function bundle(contents: string, used: Set<string>) {
+    const result = await build({
+        stdin: { contents, resolveDir: process.cwd(), loader: 'tsx' },
+        bundle: true,
+        write: false,
+        format: 'esm',
+        logLevel: 'silent',
+        plugins: [sharedModulesPlugin(used)]
+    });
+    return result.outputFiles[0].text;
+}
+
+describe('Shared modules', () => {
+    it('should publish the host React modules with their versions', () => {
+        const { imports } = getImportMap();
+        expect(Object.keys(imports)).toEqual(['react', 'react/jsx-runtime', 'react-dom', 'react-dom/client']);
+        expect(imports['react/jsx-runtime']).toBe(`/api/shared/react/jsx-runtime.js?v=${reactVersion}`);
+        expect(packageOf('@acme/ui/button')).toBe('@acme/ui');
+    });
+
+    it('should serve host modules from the instances the page provides', async () => {
+        const source = await sharedModuleSource(findSharedModule('react')!);
+        expect(source).toContain('globalThis["__SDUI_SHARED__"]?.["react"]');
+        expect(source).toMatch(/export const \{[^}]*\buseState\b[^}]*\} = m;/);
+    });
+
+    it('should externalize exactly the shared modules and record their versions', async () => {
+        const used = new Set<string>();
+        const output = await bundle(`import { useState } from 'react'; import { jsx } from 'react/jsx-runtime'; export default () => jsx('p', { children: useState(1)[0] });`, used);
+
+        expect(output).toMatch(/from ["']react["']/);
+        expect(output).toMatch(/from ["']react\/jsx-runtime["']/);
+        expect(sharedVersions(used)).toEqual({ react: reactVersion });
+
+        await expect(bundle(`import { renderToString } from 'react-dom/server'; export default renderToString;`, new Set()))
+            .rejects.toThrow('"react-dom/server" is not a shared module; use react-dom or react-dom/client');
+    });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { deriveMenu, landingPath, resolveNavigation, type NavigationOptions } from '../navigation';
+import type { MFERegistry } from '../../types';
+import type { AuthContext } from '../../types/auth';
+
+const mfe = (title: string, extra: object = {}) => ({
+    source: '/mfe/x.js', version: '1.0.0', variables: { title }, active: true,
+    createdAt: new Date(), updatedAt: new Date(), ...extra
+});
+
+const registry: MFERegistry = {
+    mfes: {
+        'hc-patients': mfe('Patients'),
+        'hc-records': mfe('Records'),
+        'hc-settings': mfe('Settings', { access: { permissions: ['project:read'] } }),
+        'lab-results': { ...mfe(''), variables: {} }
+    },
+    routes: [
+        { pattern: '/patients/:patientId?', mfe: 'hc-patients' },
+        { pattern: '/patients/:patientId/records/:recordId?', mfe: 'hc-records' },
+        { pattern: '/settings/*section', mfe: 'hc-settings' },
+        { pattern: '/settings/lab-results', mfe: 'lab-results' }
+    ],
+    generatedAt: ''
+};
+
+const viewer: AuthContext = { userId: 'u1', roles: ['viewer'], sessionId: 's1', expiresAt: Date.now() + 60_000 };
+
+function options(overrides: Partial<NavigationOptions> = {}): NavigationOptions {
+    return { projectRoutes: [], registry, auth: null, path: '/', params: {}, locales: ['en'], basePath: '/app', ...overrides };
+}
+
+describe('App navigation', () => {
+    it('should derive a menu from routes that open without params', () => {
+        expect(landingPath('/patients/:patientId?')).toBe('/patients');
+        expect(landingPath('/patients/:patientId/records/:recordId?')).toBeNull();
+
+        expect(deriveMenu(registry.routes!, registry.mfes)).toEqual([
+            { label: 'Patients', path: '/patients' },
+            { label: 'Settings', path: '/settings', children: [{ label: 'Lab results', path: '/settings/lab-results' }] }
+        ]);
+    });
+
+    it('should hide entries the visitor may not open', () => {
+        const anonymous = resolveNavigation({}, options());
+        expect(anonymous.primary.map(item => item.label)).toEqual(['Patients']);
+
+        const signedIn = resolveNavigation({}, options({ auth: viewer }));
+        expect(signedIn.primary.map(item => item.label)).toEqual(['Patients', 'Settings']);
+
+        const declared = resolveNavigation({
+            menus: { primary: [{ label: 'Patients', path: '/patients', access: { roles: ['developer'] } }] }
+        }, options({ auth: viewer }));
+        expect(declared.primary).toEqual([]);
+    });
+
+    it('should mark the active trail and build breadcrumbs', () => {
+        const navigation = resolveNavigation({
+            layout: 'topbar',
+            menus: {
+                primary: [{
+                    label: { $i18n: { en: 'Patients', ar: 'المرضى' } },
+                    path: '/patients',
+                    children: [{ label: 'Records', path: '/patients/:patientId/records' }]
+                }],
+                secondary: [{ label: 'Home', path: '/', match: 'exact' }]
+            }
+        }, options({ path: '/patients/P001/records/R9', params: { patientId: 'P001', recordId: 'R9' }, locales: ['ar', 'en'], basePath: '/app/ar' }));
+
+        const [patients] = navigation.primary;
+        expect(patients).toMatchObject({ label: 'المرضى', href: '/app/ar/patients', active: true, current: false });
+        expect(patients.children[0]).toMatchObject({ href: '/app/ar/patients/P001/records', active: true, current: true });
+        expect(navigation.secondary[0]).toMatchObject({ href: '/app/ar', active: false });
+        expect(navigation.breadcrumbs).toEqual([
+            { label: 'المرضى', href: '/app/ar/patients' },
+            { label: 'Records', href: '/app/ar/patients/P001/records' },
+            { label: 'R9', href: '/app/ar/patients/P001/records/R9' }
+        ]);
+    });
+
+    it('should hide entries whose params the current route does not provide', () => {
+        const navigation = resolveNavigation({
+            auto: false,
+            menus: { secondary: [{ label: 'Records', path: '/patients/:patientId/records' }] }
+        }, options({ path: '/patients' }));
+        expect(navigation.primary).toEqual([]);
+        expect(navigation.secondary).toEqual([]);
+    });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi } from 'vitest';
+import { resolveBlueprintTree, blueprintAccessRules } from '../renderer';
+import { checkAccess } from '../../auth/access';
+
+vi.mock('../../db/platform', () => ({
+    PlatformDB: { getActiveBlueprint: vi.fn() }
+}));
+
+describe('Blueprint tree resolution', () => {
+    const registry = {
+        'hc-patients': { source: '/mfe/hc-patients/index.js', version: '1.0.0', variables: { title: 'Patients' } },
+        'hc-records': { source: '/mfe/hc-records/index.js', version: '1.0.0', variables: {} }
+    } as any;
+
+    it('should resolve MFE slots, bindings and the outlet', () => {
+        const nodes = resolveBlueprintTree({
+            type: 'layout',
+            layout: 'sidebar',
+            children: [
+                { type: 'mfe', name: 'hc-patients', variables: { compact: true } },
+                { type: 'heading', text: 'Fallback', bindings: { text: { source: 'query', path: 'title' } } },
+                { type: 'outlet' },
+                { type: 'mfe', name: 'unknown-mfe' }
+            ]
+        }, {
+            registry,
+            context: { route: {}, query: { title: 'From query' } },
+            outlet: { url: '/mfe/hc-records/index.js', name: 'hc-records' }
+        });
+
+        const layout = nodes[0] as any;
+        expect(layout.children[0].spec).toMatchObject({
+            url: '/mfe/hc-patients/index.js',
+            props: { title: 'Patients', compact: true }
+        });
+        expect(layout.children[1].text).toBe('From query');
+        expect(layout.children[2].spec.name).toBe('hc-records');
+        expect(layout.children[3]).toMatchObject({ spec: null, missing: 'unknown-mfe' });
+    });
+
+    it('should expand repeated MFE slots per item', () => {
+        const nodes = resolveBlueprintTree({
+            type: 'mfe',
+            name: 'hc-records',
+            repeat: { source: { source: 'data', path: 'patients' }, key: 'id' },
+            bindings: { patientId: { source: 'item', path: 'id' } }
+        }, {
+            registry,
+            context: { route: {}, query: {}, data: { patients: [{ id: 'P001' }, { id: 'P002' }] } },
+            outlet: null
+        });
+
+        expect(nodes).toHaveLength(2);
+        expect(nodes.map((n: any) => n.spec.props.patientId)).toEqual(['P001', 'P002']);
+        expect(nodes.map(n => n.id)).toEqual(['hc-records-P001', 'hc-records-P002']);
+    });
+
+    it('should resolve slot fallbacks over registry fallbacks without chaining', () => {
+        const withFallbacks = {
+            ...registry,
+            'hc-records': { ...registry['hc-records'], fallback: { text: 'Records unavailable' } },
+            'hc-patients': { ...registry['hc-patients'], fallback: { mfe: 'hc-records' } }
+        };
+        const [fromRegistry, fromSlot] = resolveBlueprintTree({
+            type: 'layout',
+            layout: 'stack',
+            children: [
+                { type: 'mfe', name: 'hc-patients' },
+                { type: 'mfe', name: 'hc-records', fallback: { text: 'Slot fallback' }, loading: { retries: 0 } }
+            ]
+        }, { registry: withFallbacks, context: { route: {}, query: {} }, outlet: null })
+            .flatMap((node: any) => node.children);
+
+        expect((fromRegistry as any).spec.fallback.spec.name).toBe('hc-records');
+        expect((fromRegistry as any).spec.fallback.spec.fallback).toBeUndefined();
+        expect((fromSlot as any).spec).toMatchObject({ fallback: { text: 'Slot fallback' }, loading: { retries: 0 } });
+    });
+
+    it('should bind slot data sources against the render context', () => {
+        const [node] = resolveBlueprintTree({
+            type: 'mfe',
+            name: 'hc-records',
+            data: {
+                records: { kind: 'table', table: 'records', where: { patient_id: { source: 'route', path: 'patientId' } }, limit: 20 },
+                summary: { kind: 'function', name: 'patientSummary', params: { id: { source: 'route', path: 'patientId' }, full: true } }
+            }
+        }, { registry, context: { route: { patientId: 'P001' }, query: {} }, outlet: null }) as any[];
+
+        expect(node.data).toEqual({
+            records: { kind: 'table', table: 'records', where: { patient_id: 'P001' }, orderBy: undefined, limit: 20 },
+            summary: { kind: 'function', name: 'patientSummary', params: { id: 'P001', full: true } }
+        });
+        expect(node.spec.props).not.toHaveProperty('records');
+    });
+
+    it('should apply the access rules of MFEs in slots and fallbacks to the page', () => {
+        const restricted = {
+            ...registry,
+            'hc-settings': { source: '/mfe/hc-settings/index.js', access: { roles: ['admin'] } },
+            'hc-audit': { source: '/mfe/hc-audit/index.js', access: { permissions: ['project:write'] } },
+            'hc-patients': { ...registry['hc-patients'], fallback: { mfe: 'hc-audit' } }
+        } as any;
+        const root = {
+            type: 'layout',
+            layout: 'stack',
+            children: [
+                { type: 'region', children: [{ type: 'mfe', name: 'hc-settings' }] },
+                { type: 'mfe', name: 'hc-patients' },
+                { type: 'mfe', name: 'hc-records', fallback: { mfe: 'hc-settings' } }
+            ]
+        } as any;
+
+        const rules = blueprintAccessRules(root, restricted);
+        expect(rules).toEqual([{ roles: ['admin'] }, { permissions: ['project:write'] }, { roles: ['admin'] }]);
+        expect(checkAccess(rules, null)).toMatchObject({ allowed: false, status: 401 });
+        expect(blueprintAccessRules(root, registry)).toEqual([]);
+    });
+
+    it('should not let bound values replace heading levels or unsafe URLs', () => {
+        const nodes = resolveBlueprintTree({
+            type: 'layout',
+            layout: 'stack',
+            children: [
+                { type: 'heading', text: 'Title', level: 3, bindings: { level: { source: 'query', path: 'level' } } },
+                { type: 'link', text: 'Home', href: '/', bindings: { href: { source: 'query', path: 'next' } } },
+                { type: 'image', src: '/logo.png', bindings: { src: { source: 'query', path: 'logo' } } },
+                { type: 'link', text: 'Docs', href: '/', bindings: { href: { source: 'route', path: 'docs' } } }
+            ]
+        }, {
+            registry,
+            context: { route: { docs: 'https://docs.example.com' }, query: { level: 'script', next: 'java\tscript:alert(1)', logo: 'data:text/html,x' } },
+            outlet: null
+        });
+
+        const [heading, link, image, docs] = (nodes[0] as any).children;
+        expect(heading.level).toBe(3);
+        expect(link.href).toBe('/');
+        expect(image.src).toBe('/logo.png');
+        expect(docs.href).toBe('https://docs.example.com');
+    });
+});
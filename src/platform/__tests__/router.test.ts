@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { compileRoutes, matchRoute } from '../router';
+
+describe('Route Matcher', () => {
+    const routes = compileRoutes([
+        { pattern: '/patients/:patientId?', mfe: 'hc-patients', query: { q: 'search' } },
+        { pattern: '/patients/:patientId/records/:recordId?', mfe: 'hc-records' },
+        { pattern: '/patients/new', mfe: 'patient-form' },
+        { pattern: '/docs/*rest', mfe: 'docs' },
+        { pattern: '/docs/changelog', mfe: 'docs', priority: -5 },
+        { pattern: '/:anything', mfe: 'catch-all', priority: -1 }
+    ]);
+
+    it('should match nested params and merge them into variables', () => {
+        const match = matchRoute(routes, '/patients/P001/records/R9');
+        expect(match?.route.mfe).toBe('hc-records');
+        expect(match?.params).toEqual({ patientId: 'P001', recordId: 'R9' });
+
+        const optional = matchRoute(routes, '/patients/P001/records');
+        expect(optional?.params).toEqual({ patientId: 'P001' });
+    });
+
+    it('should prefer static segments over params', () => {
+        expect(matchRoute(routes, '/patients/new')?.route.mfe).toBe('patient-form');
+        expect(matchRoute(routes, '/patients/P001')?.route.mfe).toBe('hc-patients');
+    });
+
+    it('should honour explicit priority before specificity', () => {
+        const match = matchRoute(routes, '/docs/changelog');
+        expect(match?.route.pattern).toBe('/docs/*rest');
+        expect(match?.params).toEqual({ rest: 'changelog' });
+    });
+
+    it('should map query parameters into variables', () => {
+        const match = matchRoute(routes, '/patients', new URLSearchParams('q=smith'));
+        expect(match?.variables).toEqual({ search: 'smith' });
+    });
+
+    it('should return null when nothing matches', () => {
+        expect(matchRoute(routes, '/a/b/c')).toBeNull();
+    });
+});
@@ -0,0 +1,79 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { renderMFEToHTML, renderNodesToHTML } from '../ssr';
+import type { MFESpec, ResolvedNode } from '../renderer';
+
+const bundleDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mfe-ssr-'));
+
+vi.mock('../../dashboard/lib/mfe-manager', () => ({
+    resolveSourcePath: (source: string) => path.join(bundleDir, source)
+}));
+
+const BUNDLES: Record<string, string> = {
+    'greeting.js': `
+        const h = window.React.createElement;
+        export default function Greeting({ name, patients }) {
+            return h('p', null, 'Hello ' + name + ' (' + patients.length + ')');
+        }`,
+    'mounted.js': `export function mount(container) { container.textContent = 'mounted'; }`,
+    'browser-only.js': `
+        export default function Width() {
+            return window.React.createElement('span', null, document.body.clientWidth);
+        }`
+};
+
+function integrity(file: string): string {
+    return `sha384-${crypto.createHash('sha384').update(BUNDLES[file]).digest('base64')}`;
+}
+
+function spec(file: string, overrides: Partial<MFESpec> = {}): MFESpec {
+    return { name: file.replace('.js', ''), url: `/mfe/${file}`, integrity: integrity(file), ssr: true, ...overrides };
+}
+
+describe('MFE server rendering', () => {
+    beforeAll(() => {
+        fs.mkdirSync(path.join(bundleDir, 'mfe'));
+        for (const [file, code] of Object.entries(BUNDLES)) {
+            fs.writeFileSync(path.join(bundleDir, 'mfe', file), code);
+        }
+        vi.spyOn(console, 'warn').mockImplementation(() => { });
+    });
+
+    afterAll(() => {
+        fs.rmSync(bundleDir, { recursive: true, force: true });
+    });
+
+    it('should render a component bundle with its props', async () => {
+        const html = await renderMFEToHTML(spec('greeting.js', { props: { name: 'Ada', patients: [1, 2] } }));
+        expect(html).toBe('<p>Hello Ada (2)</p>');
+    });
+
+    it('should leave MFEs that are not SSR-safe to the client', async () => {
+        expect(await renderMFEToHTML(spec('mounted.js'))).toBeNull();
+        expect(await renderMFEToHTML(spec('browser-only.js'))).toBeNull();
+        expect(await renderMFEToHTML(spec('greeting.js', { integrity: integrity('mounted.js'), props: { name: 'Ada', patients: [] } }))).toBeNull();
+
+        // Tenant-built bundles never run on the server
+        fs.mkdirSync(path.join(bundleDir, 'api', 'mfe', 'p1'), { recursive: true });
+        fs.writeFileSync(path.join(bundleDir, 'api', 'mfe', 'p1', 'greeting.js'), BUNDLES['greeting.js']);
+        expect(await renderMFEToHTML(spec('greeting.js', { url: '/api/mfe/p1/greeting.js', props: { name: 'Ada', patients: [] } }))).toBeNull();
+    });
+
+    it('should only render opted-in slots of a tree', async () => {
+        const ssr = spec('greeting.js', { props: { name: 'Bo', patients: [] } });
+        const clientOnly = spec('greeting.js', { ssr: false, props: { name: 'Cy', patients: [] } });
+        const nodes: ResolvedNode[] = [{
+            type: 'region',
+            name: 'main',
+            children: [{ type: 'mfe', spec: ssr }, { type: 'outlet', spec: clientOnly }]
+        }];
+
+        await renderNodesToHTML(nodes);
+        expect(ssr.html).toBe('<p>Hello Bo (0)</p>');
+        expect(clientOnly.html).toBeUndefined();
+    });
+});
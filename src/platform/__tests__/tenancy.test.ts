@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getSubdomain, resolveTenant, projectRegistry, tenantMFEName } from '../tenancy';
+import { PlatformDB } from '../../db/platform';
+
+vi.mock('../../db/platform', () => ({
+    PlatformDB: {
+        getProject: vi.fn(),
+        getProjectBySubdomain: vi.fn()
+    }
+}));
+
+describe('Tenant Resolution', () => {
+    const acme = { id: 'p-acme', name: 'Acme', subdomain: 'acme', created_at: '' };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(PlatformDB.getProjectBySubdomain).mockImplementation(s => (s === 'acme' ? acme : undefined));
+    });
+
+    it('should extract a single-label subdomain of the base domain', () => {
+        expect(getSubdomain('acme.localhost:4321')).toBe('acme');
+        expect(getSubdomain('ACME.example.com', 'example.com')).toBe('acme');
+        expect(getSubdomain('localhost:4321')).toBeNull();
+        expect(getSubdomain('a.b.localhost')).toBeNull();
+        expect(getSubdomain('acme.other.com')).toBeNull();
+    });
+
+    it('should resolve the project from the Host header', () => {
+        const request = new Request('http://acme.localhost:4321/app/dashboard', {
+            headers: { host: 'acme.localhost:4321' }
+        });
+
+        expect(resolveTenant(request)).toEqual({ project: acme, source: 'host' });
+    });
+
+    it('should ignore the query fallback when the host names a tenant', () => {
+        const request = new Request('http://acme.localhost/app?tenant=other', {
+            headers: { host: 'acme.localhost' }
+        });
+
+        expect(resolveTenant(request)?.project).toBe(acme);
+    });
+
+    it('should fall back to the tenant query param in development', () => {
+        const request = new Request('http://localhost/app?tenant=acme', {
+            headers: { host: 'localhost' }
+        });
+
+        expect(resolveTenant(request)).toEqual({ project: acme, source: 'query' });
+    });
+
+    it('should scope the registry to the platform MFEs and the project\'s own builds', () => {
+        const registry = {
+            generatedAt: '',
+            mfes: {
+                'hc-patients': { source: '/mfe/hc-patients/index.js' },
+                Card: { source: '/mfe/card.js' },
+                [tenantMFEName('p-acme', 'Card')]: { source: '/api/mfe/p-acme/Card.js' },
+                [tenantMFEName('p-other', 'Card')]: { source: '/api/mfe/p-other/Card.js' },
+                [tenantMFEName('p-other', 'Chart')]: { source: '/api/mfe/p-other/Chart.js' }
+            }
+        };
+
+        expect(projectRegistry(registry, 'p-acme').mfes).toEqual({
+            'hc-patients': { source: '/mfe/hc-patients/index.js' },
+            Card: { source: '/api/mfe/p-acme/Card.js' }
+        });
+        expect(Object.keys(projectRegistry(registry, null).mfes)).toEqual(['hc-patients', 'Card']);
+    });
+});
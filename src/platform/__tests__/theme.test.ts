@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { resolveTheme, themeToCSS, applyTheme, DEFAULT_THEME } from '../theme';
+import type { ResolvedNode } from '../renderer';
+
+describe('Blueprint theme', () => {
+    it('should merge declared tokens over the defaults', () => {
+        const theme = resolveTheme({ colors: { primary: '#0f766e' }, typography: { fontFamily: 'Georgia, serif' } });
+
+        expect(theme.colors.primary).toBe('#0f766e');
+        expect(theme.colors.danger).toBe(DEFAULT_THEME.colors.danger);
+        expect(theme.typography.fontFamily).toBe('Georgia, serif');
+        expect(theme.typography.monoFontFamily).toBe(DEFAULT_THEME.typography.monoFontFamily);
+        expect(resolveTheme(undefined)).toBe(DEFAULT_THEME);
+    });
+
+    it('should emit CSS variables with a dark palette per mode', () => {
+        const light = themeToCSS(resolveTheme({ colors: { primary: '#0f766e' }, radii: { md: '0.75rem' } }));
+        expect(light).toContain('--color-primary: #0f766e;');
+        expect(light).toContain('--radius-md: 0.75rem;');
+        expect(light).not.toContain('prefers-color-scheme');
+
+        const system = themeToCSS(resolveTheme({ mode: 'system', dark: { colors: { primary: '#5eead4' } } }));
+        expect(system).toMatch(/@media \(prefers-color-scheme: dark\) \{ :root \{[^}]*--color-primary: #5eead4;/);
+
+        const dark = themeToCSS(resolveTheme({ mode: 'dark' }));
+        expect(dark).toContain(`--color-background: ${DEFAULT_THEME.darkColors.background};`);
+    });
+
+    it('should pass the theme to every MFE, including fallbacks', () => {
+        const fallback = { name: 'offline', url: '/mfe/offline/index.js' };
+        const nodes: ResolvedNode[] = [{
+            type: 'region',
+            name: 'main',
+            children: [
+                { type: 'mfe', spec: { name: 'patients', url: '/mfe/patients/index.js', props: { title: 'Patients' }, fallback: { spec: fallback } } },
+                { type: 'outlet', spec: null }
+            ]
+        }];
+
+        applyTheme(nodes, DEFAULT_THEME);
+        const slot = (nodes[0] as Extract<ResolvedNode, { type: 'region' }>).children[0] as Extract<ResolvedNode, { type: 'mfe' }>;
+        expect(slot.spec?.props).toEqual({ title: 'Patients', theme: DEFAULT_THEME });
+        expect(slot.spec?.fallback?.spec?.props).toEqual({ theme: DEFAULT_THEME });
+    });
+});
@@ -0,0 +1,85 @@
+/**
+ * Data Bindings
+ * Pure binding resolution shared by the server renderer and the client action runtime
+ */
+
+import type { DataBinding, DataParam } from '../security/validator';
+
+/**
+ * Values available to data bindings.
+ * `event` and `result` are only set while actions run on the client.
+ */
+export interface RenderContext {
+  route: Record<string, string>;
+  query: Record<string, string>;
+  data?: Record<string, unknown>;
+  state?: Record<string, unknown>;
+  item?: unknown;
+  /** Payload of the event or submitted form that triggered an action chain */
+  event?: unknown;
+  /** Result of the previous action, or `{ error }` in a failure branch */
+  result?: unknown;
+  /** Translation catalog of the page locale */
+  messages?: Record<string, unknown>;
+}
+
+/**
+ * Read a dotted path from a value
+ */
+export function readPath(value: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((acc, key) => {
+    if (acc === null || acc === undefined) return undefined;
+    return (acc as Record<string, unknown>)[key];
+  }, value);
+}
+
+/**
+ * Resolve a single binding against the render context
+ */
+export const resolveBinding = (binding: DataBinding, context: RenderContext): unknown => {
+  const value = readPath(context[binding.source], binding.path);
+  return value === undefined ? binding.default : value;
+};
+
+/**
+ * Resolve a parameter map of literals and bindings
+ */
+export function bindParams(params: Record<string, DataParam> | undefined, context: RenderContext): Record<string, unknown> {
+  const bound: Record<string, unknown> = {};
+  for (const [key, param] of Object.entries(params || {})) {
+    bound[key] = param !== null && typeof param === 'object' ? resolveBinding(param, context) : param;
+  }
+  return bound;
+}
+
+const URL_BASE = 'http://bound-url.invalid';
+const SAFE_URL_PROTOCOLS = new Set(['http:', 'https:', 'mailto:', 'tel:']);
+
+/** Primitive fields rendered as URLs */
+const URL_FIELDS = new Set(['href', 'src']);
+/** Enum fields of primitives the renderer relies on, e.g. `h${level}` */
+const FIXED_FIELDS = new Set(['level', 'inputType']);
+
+/**
+ * Whether a URL may be rendered in `href` or `src`: relative, or http(s), mailto
+ * or tel. The URL parser drops the tabs and newlines browsers ignore, so
+ * `java\tscript:` is caught too.
+ */
+export function isSafeUrl(url: unknown): boolean {
+  if (typeof url !== 'string') return false;
+  try {
+    return SAFE_URL_PROTOCOLS.has(new URL(url, URL_BASE).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a bound value may replace a field of a primitive node. Bound values
+ * skip the blueprint validation, so enum fields cannot be bound and URLs are
+ * checked again; a rejected value leaves the field as validated.
+ */
+export function isSafeBoundValue(field: string, value: unknown): boolean {
+  if (FIXED_FIELDS.has(field)) return false;
+  return !URL_FIELDS.has(field) || isSafeUrl(value);
+}
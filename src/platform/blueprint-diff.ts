@@ -0,0 +1,75 @@
+/**
+ * Blueprint Diff
+ * Structural diff of blueprint JSON (ui_schema / data_schema) between two versions.
+ *
+ * Paths use the same notation as blueprint validation issues, e.g.
+ * `root.children[2].name`. Arrays are compared by index.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BlueprintChange {
+    path: string;
+    kind: 'added' | 'removed' | 'changed';
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface BlueprintDiff {
+    from: number;
+    to: number;
+    uiSchema: BlueprintChange[];
+    dataSchema: BlueprintChange[];
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function join(path: string, key: string | number): string {
+    if (typeof key === 'number') return `${path}[${key}]`;
+    return path ? `${path}.${key}` : key;
+}
+
+/**
+ * List the changes that turn `before` into `after`
+ */
+export function diffJSON(before: unknown, after: unknown, path = ''): BlueprintChange[] {
+    if (Array.isArray(before) && Array.isArray(after)) {
+        const changes: BlueprintChange[] = [];
+        for (let i = 0; i < Math.max(before.length, after.length); i++) {
+            if (i >= after.length) {
+                changes.push({ path: join(path, i), kind: 'removed', before: before[i] });
+            } else if (i >= before.length) {
+                changes.push({ path: join(path, i), kind: 'added', after: after[i] });
+            } else {
+                changes.push(...diffJSON(before[i], after[i], join(path, i)));
+            }
+        }
+        return changes;
+    }
+
+    if (isObject(before) && isObject(after)) {
+        const changes: BlueprintChange[] = [];
+        const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+        for (const key of keys) {
+            if (!(key in after)) {
+                changes.push({ path: join(path, key), kind: 'removed', before: before[key] });
+            } else if (!(key in before)) {
+                changes.push({ path: join(path, key), kind: 'added', after: after[key] });
+            } else {
+                changes.push(...diffJSON(before[key], after[key], join(path, key)));
+            }
+        }
+        return changes;
+    }
+
+    if (before === after) return [];
+    return [{ path, kind: 'changed', before, after }];
+}
@@ -0,0 +1,201 @@
+/**
+ * MFE Build Manifests and Size Budgets
+ * Every build records what it produced: bundle size (raw and gzip), its
+ * stylesheet, the modules it imports through the import map, what each
+ * package or source contributes, its exports, esbuild warnings and how long
+ * it took.
+ *
+ * Manifests are stored next to the artifact (`<name>.<hash>.manifest.json`),
+ * with the latest build of each MFE also at `<name>.manifest.json`.
+ *
+ * A project's size budget (or DEFAULT_SIZE_BUDGET when it has none) is
+ * checked against the gzip size and the growth over the previous build;
+ * builds over a `max` limit fail and are not written.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import type { Message, Metafile } from 'esbuild';
+import { packageOf } from './import-map';
+import type { BudgetStatus, BuildManifest, SizeBudget } from '../types';
+
+export const DEFAULT_SIZE_BUDGET: SizeBudget = {
+    warnBytes: 100 * 1024,
+    maxBytes: 250 * 1024,
+    warnGrowth: 0.2
+};
+
+/**
+ * Raised when a build is over its size budget; the build is not written
+ */
+export class BudgetExceededError extends Error {
+    constructor(public manifest: BuildManifest) {
+        super(`Bundle is over the size budget: ${describeManifest(manifest)}`);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+const LATEST_MANIFEST = /^([a-zA-Z][\w-]*)\.manifest\.json$/;
+
+export function formatBytes(bytes: number): string {
+    return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} kB`;
+}
+
+// ============================================================================
+// Budgets
+// ============================================================================
+
+/**
+ * Check a bundle's gzip size, and its growth over the previous build, against `budget`
+ */
+export function checkBudget(gzip: number, previousGzip: number | undefined, budget: SizeBudget): BuildManifest['budget'] {
+    const failures: string[] = [];
+    const warnings: string[] = [];
+
+    if (budget.maxBytes !== undefined && gzip > budget.maxBytes) {
+        failures.push(`${formatBytes(gzip)} gzip exceeds the ${formatBytes(budget.maxBytes)} limit`);
+    } else if (budget.warnBytes !== undefined && gzip > budget.warnBytes) {
+        warnings.push(`${formatBytes(gzip)} gzip exceeds the ${formatBytes(budget.warnBytes)} warning threshold`);
+    }
+
+    if (previousGzip) {
+        const growth = (gzip - previousGzip) / previousGzip;
+        const grew = `grew ${Math.round(growth * 100)}% over the previous build (${formatBytes(previousGzip)} gzip)`;
+        if (budget.maxGrowth !== undefined && growth > budget.maxGrowth) {
+            failures.push(`${grew}, more than the ${Math.round(budget.maxGrowth * 100)}% allowed`);
+        } else if (budget.warnGrowth !== undefined && growth > budget.warnGrowth) {
+            warnings.push(grew);
+        }
+    }
+
+    const status: BudgetStatus = failures.length > 0 ? 'fail' : warnings.length > 0 ? 'warn' : 'ok';
+    return {
+        status,
+        messages: [...failures, ...warnings],
+        ...(previousGzip ? { previousGzip } : {})
+    };
+}
+
+// ============================================================================
+// Manifests
+// ============================================================================
+
+export interface ManifestInput {
+    component: string;
+    file: string;
+    contents: Uint8Array;
+    stylesheet?: { file: string; contents: string } | null;
+    metafile: Metafile;
+    warnings: Message[];
+    durationMs: number;
+    /** Project sources directory, for naming source modules */
+    projectDir: string;
+    previous?: BuildManifest | null;
+    budget: SizeBudget;
+}
+
+/**
+ * Package a bundled input belongs to, or its path within the project sources
+ */
+function moduleName(input: string, projectDir: string): string {
+    const marker = input.lastIndexOf('node_modules/');
+    if (marker !== -1) return packageOf(input.slice(marker + 'node_modules/'.length));
+    return path.relative(projectDir, path.resolve(input));
+}
+
+function formatWarning(warning: Message, projectDir: string): string {
+    const location = warning.location;
+    if (!location) return warning.text;
+    return `${moduleName(location.file, projectDir)}:${location.line}:${location.column}: ${warning.text}`;
+}
+
+export function createManifest(input: ManifestInput): BuildManifest {
+    const output = Object.entries(input.metafile.outputs).find(([file]) => file.endsWith('.js'))?.[1];
+
+    const modules = new Map<string, number>();
+    for (const [file, { bytesInOutput }] of Object.entries(output?.inputs ?? {})) {
+        if (bytesInOutput === 0) continue;
+        const name = moduleName(file, input.projectDir);
+        modules.set(name, (modules.get(name) ?? 0) + bytesInOutput);
+    }
+
+    const gzip = zlib.gzipSync(input.contents).length;
+    const previousGzip = input.previous && input.previous.file !== input.file ? input.previous.size.gzip : undefined;
+
+    return {
+        component: input.component,
+        file: input.file,
+        builtAt: new Date().toISOString(),
+        durationMs: input.durationMs,
+        size: { raw: input.contents.length, gzip },
+        ...(input.stylesheet ? {
+            stylesheet: {
+                file: input.stylesheet.file,
+                size: { raw: Buffer.byteLength(input.stylesheet.contents), gzip: zlib.gzipSync(input.stylesheet.contents).length }
+            }
+        } : {}),
+        imports: [...new Set((output?.imports ?? []).filter(entry => entry.external).map(entry => entry.path))].sort(),
+        modules: [...modules].map(([name, bytes]) => ({ name, bytes })).sort((a, b) => b.bytes - a.bytes),
+        exports: output?.exports ?? [],
+        warnings: input.warnings.map(warning => formatWarning(warning, input.projectDir)),
+        budget: checkBudget(gzip, previousGzip, input.budget)
+    };
+}
+
+/**
+ * Store a manifest next to its artifact and as the latest of its MFE
+ */
+export function writeManifest(distDir: string, manifest: BuildManifest): void {
+    const contents = JSON.stringify(manifest, null, 2);
+    fs.writeFileSync(path.join(distDir, manifest.file.replace(/\.js$/, '.manifest.json')), contents);
+    fs.writeFileSync(path.join(distDir, `${manifest.component}.manifest.json`), contents);
+}
+
+function readManifest(file: string): BuildManifest | null {
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch {
+        return null;
+    }
+}
+
+export function readLatestManifest(distDir: string, component: string): BuildManifest | null {
+    return readManifest(path.join(distDir, `${component}.manifest.json`));
+}
+
+/**
+ * Latest build of every MFE in `distDir`, or every kept build of `component`, newest first
+ */
+export function listManifests(distDir: string, component?: string): BuildManifest[] {
+    if (!fs.existsSync(distDir)) return [];
+
+    const pattern = component
+        ? new RegExp(`^${component.replace(/[^\w-]/g, '')}\\.[0-9a-f]{16}\\.manifest\\.json$`)
+        : LATEST_MANIFEST;
+    return fs.readdirSync(distDir)
+        .filter(file => pattern.test(file))
+        .map(file => readManifest(path.join(distDir, file)))
+        .filter((manifest): manifest is BuildManifest => manifest !== null)
+        .sort((a, b) => b.builtAt.localeCompare(a.builtAt));
+}
+
+/**
+ * Summary of a build for the engineer agent
+ */
+export function describeManifest(manifest: BuildManifest): string {
+    const lines = [
+        `${formatBytes(manifest.size.gzip)} gzip (${formatBytes(manifest.size.raw)} raw), built in ${manifest.durationMs} ms`
+    ];
+    if (manifest.budget.messages.length > 0) {
+        lines.push(`Budget ${manifest.budget.status}: ${manifest.budget.messages.join('; ')}`);
+    }
+    if (manifest.budget.status !== 'ok') {
+        const largest = manifest.modules.slice(0, 5).map(module => `${module.name} ${formatBytes(module.bytes)}`);
+        lines.push(`Largest modules: ${largest.join(', ')}`);
+    }
+    if (manifest.warnings.length > 0) {
+        lines.push(`Warnings: ${manifest.warnings.slice(0, 5).join('; ')}`);
+    }
+    return lines.join('. ');
+}
@@ -1,12 +1,53 @@
-
+import fs from 'fs';
 import path from 'path';
+import crypto from 'crypto';
 import { build } from 'esbuild';
 import { FileSystem } from '../db/fs';
+import { PlatformDB } from '../db/platform';
+import { sharedModulesPlugin, sharedVersions } from './import-map';
+import { installDependencies, tenantDependenciesPlugin } from './dependencies';
+import { buildStylesheet } from './styles';
+import { BudgetExceededError, DEFAULT_SIZE_BUDGET, createManifest, readLatestManifest, writeManifest } from './build-manifest';
+import type { BuildManifest } from '../types';
+
+export interface MFEBuild {
+    /** Content-hashed bundle file in the project's dist directory */
+    file: string;
+    /** Content-hashed stylesheet, when the MFE has styles (see platform/styles) */
+    stylesheet: string | null;
+    /** Versions of the shared packages the bundle imports, by package name */
+    shared: Record<string, string>;
+    /** Versions of the project's own packages the bundle includes, by package name */
+    dependencies: Record<string, string>;
+    manifest: BuildManifest;
+}
+
+/** `<name>.<hash>.js|css`; the hash is the first 16 hex digits of the file's SHA-256 */
+const HASHED_FILE = /^([a-zA-Z][\w-]*)\.([0-9a-f]{16})\.(js|css)$/;
+
+export function hashedFileName(componentName: string, contents: string | Uint8Array, extension: 'js' | 'css' = 'js'): string {
+    const hash = crypto.createHash('sha256').update(contents).digest('hex').slice(0, 16);
+    return `${componentName}.${hash}.${extension}`;
+}
+
+/**
+ * Content hash of a hashed bundle or stylesheet file name, or null for other files
+ */
+export function contentHashOf(fileName: string): string | null {
+    return fileName.match(HASHED_FILE)?.[2] ?? null;
+}
 
 /**
- * Builds a React Component (MFE) into a standalone JS bundle
+ * Builds a React Component (MFE) into a standalone JS bundle.
+ * Each build is written to a content-hashed file next to the previous ones,
+ * so earlier builds stay loadable; `<name>.js` is rewritten to the latest.
+ * Builds over the project's size budget fail (see platform/build-manifest).
+ * Tailwind classes and imported CSS (including `.module.css` CSS modules)
+ * go to a stylesheet next to the bundle.
+ * Shared modules (React, ...) are left to the host's import map; other
+ * packages must be declared in the project's package.json (see platform/dependencies).
  */
-export const buildMFE = async (projectId: string, componentName: string) => {
+export const buildMFE = async (projectId: string, componentName: string): Promise<MFEBuild> => {
     const projectDir = FileSystem.getProjectDir(projectId);
     const inputFile = path.join(projectDir, 'frontend', `${componentName}.tsx`);
     const outDir = path.join(projectDir, '..', 'dist'); // data/tenants/<id>/dist
@@ -19,17 +60,65 @@ export const buildMFE = async (projectId: string, componentName: string) => {
     }
 
     try {
-        await build({
+        const started = Date.now();
+        const installed = await installDependencies(path.join(projectDir, '..'));
+        const used = new Set<string>();
+        const usedDependencies = new Set<string>();
+        const result = await build({
             entryPoints: [inputFile],
             bundle: true,
             outfile: path.join(outDir, `${componentName}.js`),
+            write: false,
+            metafile: true,
             format: 'esm', // Standard ESM for browser loading
             target: 'es2020',
-            external: ['react', 'react-dom'], // Peer dependencies provided by host
-            loader: { '.tsx': 'tsx', '.ts': 'ts' },
+            plugins: [
+                sharedModulesPlugin(used), // Provided by the host's import map
+                tenantDependenciesPlugin(installed, usedDependencies)
+            ],
+            loader: { '.tsx': 'tsx', '.ts': 'ts', '.css': 'css', '.module.css': 'local-css' },
             minify: true, // "Serverless" optimized
         });
-        return true;
+
+        const { contents } = result.outputFiles.find(output => output.path.endsWith('.js'))!;
+        const file = hashedFileName(componentName, contents);
+
+        const importedCSS = result.outputFiles.find(output => output.path.endsWith('.css'))?.text ?? '';
+        const css = await buildStylesheet(Object.keys(result.metafile.inputs), importedCSS);
+        const stylesheet = css === null ? null : { file: hashedFileName(componentName, css, 'css'), contents: css };
+
+        const manifest = createManifest({
+            component: componentName,
+            file,
+            contents,
+            stylesheet,
+            metafile: result.metafile,
+            warnings: result.warnings,
+            durationMs: Date.now() - started,
+            projectDir,
+            previous: readLatestManifest(outDir, componentName),
+            budget: PlatformDB.getSizeBudget(projectId) ?? DEFAULT_SIZE_BUDGET
+        });
+        if (manifest.budget.status === 'fail') throw new BudgetExceededError(manifest);
+
+        fs.mkdirSync(outDir, { recursive: true });
+        fs.writeFileSync(path.join(outDir, file), contents);
+        fs.writeFileSync(path.join(outDir, `${componentName}.js`), contents);
+        if (stylesheet) {
+            fs.writeFileSync(path.join(outDir, stylesheet.file), stylesheet.contents);
+            fs.writeFileSync(path.join(outDir, `${componentName}.css`), stylesheet.contents);
+        } else {
+            fs.rmSync(path.join(outDir, `${componentName}.css`), { force: true });
+        }
+        writeManifest(outDir, manifest);
+
+        return {
+            file,
+            stylesheet: stylesheet?.file ?? null,
+            manifest,
+            shared: sharedVersions(used),
+            dependencies: Object.fromEntries(Object.entries(installed.versions).filter(([name]) => usedDependencies.has(name)))
+        };
     } catch (e: any) {
         console.error('Build failed:', e);
         throw e;
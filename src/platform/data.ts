@@ -0,0 +1,163 @@
+/**
+ * Data Source Resolution
+ * Executes the data sources declared in a blueprint on the server, scoped to the
+ * tenant project, so MFEs receive their data as props instead of fetching it.
+ *
+ * Sources are read-only: functions must be registered as GET, and tables are
+ * read with a parameterized SELECT.
+ */
+
+import { PlatformDB } from '../db/platform';
+import { DatabaseManager } from '../db';
+import { executeFunction } from './executor';
+import type { DataRequest, ResolvedNode } from './renderer';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DataResult =
+    | { status: 'ready'; data: unknown }
+    | { status: 'error'; error: string };
+
+/**
+ * Per-source status passed to MFEs next to the data, as the `dataStatus` prop
+ */
+export type DataStatus = Record<string, { status: DataResult['status']; error?: string }>;
+
+const DATA_TIMEOUT_MS = Number(process.env.DATA_SOURCE_TIMEOUT_MS) || 5000;
+const DEFAULT_TABLE_LIMIT = 100;
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+async function runFunction(projectId: string, request: Extract<DataRequest, { kind: 'function' }>): Promise<unknown> {
+    const fn = PlatformDB.getFunctions(projectId).find(f => f.name === request.name);
+    if (!fn) {
+        throw new Error(`Function not found: ${request.name}`);
+    }
+    if (fn.method && fn.method !== 'GET') {
+        throw new Error(`Function ${request.name} is ${fn.method}; only GET functions can be data sources`);
+    }
+
+    const result = await executeFunction(projectId, fn.code, request.params);
+    if (result && typeof result === 'object' && 'error' in result && result.error) {
+        throw new Error(String(result.error));
+    }
+    return result;
+}
+
+async function readTable(projectId: string, request: Extract<DataRequest, { kind: 'table' }>): Promise<unknown> {
+    return DatabaseManager.withTenantDB(projectId, db => {
+        const exists = db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(request.table);
+        if (!exists) {
+            throw new Error(`Table not found: ${request.table}`);
+        }
+
+        // Identifiers are validated by DataSourceSchema; values are always bound
+        const conditions = Object.keys(request.where).map(column => `"${column}" = ?`);
+        const sql = [
+            `SELECT * FROM "${request.table}"`,
+            conditions.length ? `WHERE ${conditions.join(' AND ')}` : '',
+            request.orderBy ? `ORDER BY "${request.orderBy.column}" ${request.orderBy.direction === 'desc' ? 'DESC' : 'ASC'}` : '',
+            'LIMIT ?'
+        ].filter(Boolean).join(' ');
+
+        return db.prepare(sql).all(...Object.values(request.where), request.limit || DEFAULT_TABLE_LIMIT);
+    });
+}
+
+function withTimeout<T>(promise: Promise<T>, label: string): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Data source ${label} timed out after ${DATA_TIMEOUT_MS}ms`)), DATA_TIMEOUT_MS);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Execute one data request. Never throws; failures become an error result.
+ */
+export async function executeDataRequest(projectId: string, request: DataRequest): Promise<DataResult> {
+    const label = request.kind === 'function' ? request.name : request.table;
+    try {
+        const data = await withTimeout(
+            request.kind === 'function' ? runFunction(projectId, request) : readTable(projectId, request),
+            label
+        );
+        return { status: 'ready', data };
+    } catch (e) {
+        const error = e instanceof Error ? e.message : 'Failed to resolve data source';
+        console.error(`Data source ${label} failed for project ${projectId}:`, e);
+        return { status: 'error', error };
+    }
+}
+
+/**
+ * Execute a set of keyed requests in parallel.
+ * Identical requests (same kind and bound params) run once.
+ */
+export async function resolveDataRequests(
+    projectId: string,
+    requests: Record<string, DataRequest>
+): Promise<Record<string, DataResult>> {
+    const inflight = new Map<string, Promise<DataResult>>();
+
+    const entries = await Promise.all(Object.entries(requests).map(async ([key, request]) => {
+        const id = JSON.stringify(request);
+        if (!inflight.has(id)) {
+            inflight.set(id, executeDataRequest(projectId, request));
+        }
+        return [key, await inflight.get(id)!] as const;
+    }));
+
+    return Object.fromEntries(entries);
+}
+
+/**
+ * Split results into values (null on error) and their status
+ */
+export function toDataProps(results: Record<string, DataResult>): { values: Record<string, unknown>; status: DataStatus } {
+    const values: Record<string, unknown> = {};
+    const status: DataStatus = {};
+
+    for (const [key, result] of Object.entries(results)) {
+        values[key] = result.status === 'ready' ? result.data : null;
+        status[key] = result.status === 'ready' ? { status: 'ready' } : { status: 'error', error: result.error };
+    }
+
+    return { values, status };
+}
+
+// ============================================================================
+// Tree Hydration
+// ============================================================================
+
+function collectDataNodes(nodes: ResolvedNode[], found: Array<Extract<ResolvedNode, { type: 'mfe' }>> = []) {
+    for (const node of nodes) {
+        if (node.type === 'mfe' && node.data && node.spec) found.push(node);
+        if ('children' in node) collectDataNodes(node.children, found);
+    }
+    return found;
+}
+
+/**
+ * Resolve the data sources of every MFE slot in a resolved tree and merge the
+ * results into the slot props (`<key>` and `dataStatus`). The bound requests are
+ * removed so they never reach the client.
+ */
+export async function loadNodeData(projectId: string, nodes: ResolvedNode[]): Promise<ResolvedNode[]> {
+    const slots = collectDataNodes(nodes);
+
+    await Promise.all(slots.map(async node => {
+        const { values, status } = toDataProps(await resolveDataRequests(projectId, node.data!));
+        node.spec = {
+            ...node.spec!,
+            props: { ...node.spec!.props, ...values, dataStatus: status }
+        };
+        delete node.data;
+    }));
+
+    return nodes;
+}
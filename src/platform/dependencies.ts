@@ -0,0 +1,322 @@
+/**
+ * Tenant Package Dependencies
+ * Third-party packages a project's frontends may bundle, declared in the
+ * project's own `package.json` (`dependencies`) and installed without network
+ * access.
+ *
+ * Packages come from the offline package cache (an npm cache directory,
+ * MFE_PACKAGE_CACHE, filled by operators with `npm cache add <pkg>@<version>`)
+ * or from tarballs vendored into the project (`"chart": "file:vendor/chart-1.0.0.tgz"`).
+ * They are installed with scripts disabled into `data/tenants/<id>/deps`,
+ * outside the sources the agent can read and write.
+ *
+ * The package policy (MFE_PACKAGE_POLICY, default data/package-policy.json)
+ * decides what may be bundled: a declared package must match an `allow`
+ * pattern, and no installed package, including transitive ones, may match a
+ * `deny` pattern. Without a policy file no packages are allowed.
+ *
+ * Shared modules (see platform/import-map) are provided by the host and are
+ * never installed for a project.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import util from 'util';
+import { execFile } from 'child_process';
+import { z } from 'zod';
+import type { Plugin } from 'esbuild';
+import { getSharedModules, packageOf } from './import-map';
+
+const execFileAsync = util.promisify(execFile);
+
+/**
+ * Raised when a project's dependencies are invalid, not allowed or not available offline
+ */
+export class DependencyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DependencyError';
+    }
+}
+
+const POLICY_PATH = process.env.MFE_PACKAGE_POLICY || path.join(process.cwd(), 'data', 'package-policy.json');
+const PACKAGE_CACHE = process.env.MFE_PACKAGE_CACHE || path.join(process.cwd(), 'data', 'npm-cache');
+const INSTALL_TIMEOUT_MS = Number(process.env.MFE_INSTALL_TIMEOUT_MS) || 120000;
+
+// ============================================================================
+// Package Policy
+// ============================================================================
+
+/**
+ * Package name patterns: exact names, or prefixes ending in `*` (`@radix-ui/*`, `d3-*`)
+ */
+export const PackagePolicySchema = z.object({
+    allow: z.array(z.string().min(1)).default([]),
+    deny: z.array(z.string().min(1)).default([])
+}).strict();
+
+export type PackagePolicy = z.infer<typeof PackagePolicySchema>;
+
+export function loadPackagePolicy(): PackagePolicy {
+    if (!fs.existsSync(POLICY_PATH)) return { allow: [], deny: [] };
+
+    const result = PackagePolicySchema.safeParse(JSON.parse(fs.readFileSync(POLICY_PATH, 'utf-8')));
+    if (!result.success) {
+        throw new DependencyError(`Invalid package policy ${POLICY_PATH}: ${result.error.errors[0].message}`);
+    }
+    return result.data;
+}
+
+function matchesPattern(name: string, pattern: string): boolean {
+    return pattern.endsWith('*') ? name.startsWith(pattern.slice(0, -1)) : name === pattern;
+}
+
+/**
+ * Why the policy rejects `name`, or null when it may be bundled.
+ * Only declared packages need to be allowed; transitive ones come with them.
+ */
+export function policyViolation(name: string, policy: PackagePolicy, declared = true): string | null {
+    if (policy.deny.some(pattern => matchesPattern(name, pattern))) return `"${name}" is denied by the package policy`;
+    if (declared && !policy.allow.some(pattern => matchesPattern(name, pattern))) return `"${name}" is not allowed by the package policy`;
+    return null;
+}
+
+// ============================================================================
+// Project Manifest
+// ============================================================================
+
+const PackageNameSchema = z.string()
+    .max(214)
+    .regex(/^(@[a-z0-9][\w.-]*\/)?[a-z0-9][\w.-]*$/, 'Invalid package name');
+
+/** Registry version ranges, or tarballs vendored into the project; no URLs or git sources */
+const PackageSpecSchema = z.string()
+    .max(256)
+    .refine(
+        spec => /^file:[\w./-]+\.tgz$/.test(spec) || /^[\w.^~<>=*|\s-]+$/.test(spec),
+        'Dependencies must be version ranges or file: tarballs in the project'
+    );
+
+const ProjectManifestSchema = z.object({
+    dependencies: z.record(PackageNameSchema, PackageSpecSchema).optional()
+});
+
+/**
+ * Dependencies declared in `src/package.json` of the project at `root`
+ */
+export function readDeclaredDependencies(root: string): Record<string, string> {
+    const manifestPath = path.join(root, 'src', 'package.json');
+    if (!fs.existsSync(manifestPath)) return {};
+
+    let manifest: unknown;
+    try {
+        manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    } catch (e: any) {
+        throw new DependencyError(`package.json is not valid JSON: ${e.message}`);
+    }
+
+    const result = ProjectManifestSchema.safeParse(manifest);
+    if (!result.success) {
+        const issue = result.error.errors[0];
+        throw new DependencyError(`package.json ${issue.path.join('.')}: ${issue.message}`);
+    }
+    return result.data.dependencies || {};
+}
+
+/**
+ * Absolute tarball path of a `file:` dependency, which must lie inside the project sources
+ */
+function vendoredTarball(root: string, name: string, spec: string): string {
+    const srcDir = path.join(root, 'src');
+    const tarball = path.resolve(srcDir, spec.slice('file:'.length));
+    if (path.relative(srcDir, tarball).startsWith('..')) {
+        throw new DependencyError(`"${name}" must be vendored inside the project`);
+    }
+    if (!fs.existsSync(tarball)) {
+        throw new DependencyError(`Vendored tarball for "${name}" not found: ${spec.slice('file:'.length)}`);
+    }
+    return tarball;
+}
+
+// ============================================================================
+// Installation
+// ============================================================================
+
+export interface TenantDependencies {
+    /** Directory whose node_modules holds the installed packages */
+    dir: string;
+    /** Installed versions of the declared packages, by package name */
+    versions: Record<string, string>;
+}
+
+interface InstalledPackage {
+    name: string;
+    version: string;
+}
+
+/**
+ * Every package under `modulesDir`, including nested node_modules
+ */
+function installedPackages(modulesDir: string): InstalledPackage[] {
+    if (!fs.existsSync(modulesDir)) return [];
+
+    const dirs = fs.readdirSync(modulesDir)
+        .filter(entry => !entry.startsWith('.'))
+        .flatMap(entry => entry.startsWith('@')
+            ? fs.readdirSync(path.join(modulesDir, entry)).map(scoped => path.join(modulesDir, entry, scoped))
+            : [path.join(modulesDir, entry)]);
+
+    return dirs.flatMap(dir => {
+        try {
+            const { name, version } = JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf-8'));
+            return [{ name, version }, ...installedPackages(path.join(dir, 'node_modules'))];
+        } catch {
+            return [];
+        }
+    });
+}
+
+/**
+ * First npm error lines, without the pointer to the debug log
+ */
+function npmErrorMessage(e: any): string {
+    const lines = String(e.stderr || e.message)
+        .split('\n')
+        .filter(line => line.startsWith('npm error') && !line.includes('complete log'))
+        .map(line => line.replace(/^npm error\s*/, ''))
+        .filter(Boolean);
+    return lines.slice(0, 3).join('; ') || e.message;
+}
+
+const installs = new Map<string, Promise<unknown>>();
+
+/** Run installs of the same project one at a time */
+function serialized<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const next = (installs.get(key) ?? Promise.resolve()).catch(() => undefined).then(task);
+    installs.set(key, next);
+    return next;
+}
+
+/**
+ * Install the declared dependencies of the project at `root` (data/tenants/<id>)
+ * from the offline package cache and vendored tarballs. Unchanged declarations
+ * are not reinstalled.
+ */
+export function installDependencies(root: string, policy: PackagePolicy = loadPackagePolicy()): Promise<TenantDependencies> {
+    const dir = path.join(root, 'deps');
+    const modulesDir = path.join(dir, 'node_modules');
+
+    return serialized(dir, async () => {
+        const sharedPackages = new Set(getSharedModules().map(module => module.package));
+        const declared = Object.entries(readDeclaredDependencies(root)).filter(([name]) => !sharedPackages.has(name));
+
+        const violations = declared.map(([name]) => policyViolation(name, policy)).filter(Boolean);
+        if (violations.length > 0) throw new DependencyError(violations.join('; '));
+        if (declared.length === 0) return { dir, versions: {} };
+
+        const dependencies: Record<string, string> = {};
+        const fingerprint = crypto.createHash('sha256');
+        for (const [name, spec] of declared) {
+            if (spec.startsWith('file:')) {
+                const tarball = vendoredTarball(root, name, spec);
+                const stat = fs.statSync(tarball);
+                dependencies[name] = `file:${tarball}`;
+                fingerprint.update(`${name}@${tarball}:${stat.size}:${stat.mtimeMs}\n`);
+            } else {
+                dependencies[name] = spec;
+                fingerprint.update(`${name}@${spec}\n`);
+            }
+        }
+        const hash = fingerprint.digest('hex');
+        const hashFile = path.join(dir, '.install-hash');
+
+        const upToDate = fs.existsSync(modulesDir) && fs.existsSync(hashFile) && fs.readFileSync(hashFile, 'utf-8') === hash;
+        if (!upToDate) {
+            fs.rmSync(dir, { recursive: true, force: true });
+            fs.mkdirSync(dir, { recursive: true });
+            fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ private: true, dependencies }, null, 2));
+            try {
+                await execFileAsync('npm', [
+                    'install', '--offline', '--ignore-scripts', '--legacy-peer-deps',
+                    '--no-package-lock', '--no-audit', '--no-fund', '--loglevel=error'
+                ], {
+                    cwd: dir,
+                    env: { ...process.env, npm_config_cache: PACKAGE_CACHE },
+                    timeout: INSTALL_TIMEOUT_MS
+                });
+            } catch (e: any) {
+                throw new DependencyError(`Dependencies could not be installed offline: ${npmErrorMessage(e)}`);
+            }
+            fs.writeFileSync(hashFile, hash);
+        }
+
+        const installed = installedPackages(modulesDir);
+        const denied = [...new Set(installed.map(pkg => policyViolation(pkg.name, policy, false)).filter(Boolean))];
+        if (denied.length > 0) throw new DependencyError(denied.join('; '));
+
+        const versions: Record<string, string> = {};
+        for (const [name] of declared) {
+            const pkg = installed.find(candidate => candidate.name === name);
+            if (pkg) versions[name] = pkg.version;
+        }
+        return { dir, versions };
+    });
+}
+
+// ============================================================================
+// Bundling
+// ============================================================================
+
+const RESOLVING = { tenantDependencies: true };
+
+function isInside(file: string, dir: string): boolean {
+    const relative = path.relative(dir, file);
+    return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * esbuild plugin resolving bare imports from the project's installed
+ * dependencies only. Project sources may import declared packages; installed
+ * packages may import their own dependencies. Nothing resolves from the
+ * host's node_modules. Declared packages the build imports are added to `used`.
+ * Place it after sharedModulesPlugin so shared modules stay external.
+ */
+export function tenantDependenciesPlugin(dependencies: TenantDependencies, used: Set<string> = new Set()): Plugin {
+    const modulesDir = path.join(dependencies.dir, 'node_modules');
+
+    return {
+        name: 'tenant-dependencies',
+        setup(build) {
+            build.onResolve({ filter: /^[^./]/ }, async args => {
+                if (args.pluginData === RESOLVING) return undefined;
+
+                const pkg = packageOf(args.path);
+                const fromPackage = isInside(args.importer, modulesDir);
+                if (!fromPackage) {
+                    if (!(pkg in dependencies.versions)) {
+                        return { errors: [{ text: `"${pkg}" is not a dependency of this project; declare it in package.json` }] };
+                    }
+                    used.add(pkg);
+                }
+
+                const result = await build.resolve(args.path, {
+                    kind: args.kind,
+                    importer: args.importer,
+                    resolveDir: fromPackage ? args.resolveDir : dependencies.dir,
+                    pluginData: RESOLVING
+                });
+                if (result.errors.length > 0) return { errors: result.errors };
+                if (!result.external && !isInside(result.path, modulesDir)) {
+                    return { errors: [{ text: `"${args.path}" is not installed for this project` }] };
+                }
+                return {
+                    path: result.path,
+                    external: result.external,
+                    namespace: result.namespace,
+                    sideEffects: result.sideEffects
+                };
+            });
+        }
+    };
+}
@@ -0,0 +1,199 @@
+/**
+ * Localization
+ * Locale negotiation and resolution of localized blueprint values.
+ *
+ * Values are localized inline (`{ "$i18n": { "en": "Patients", "ar": "المرضى" } }`)
+ * or read from the project translation catalog with `messages` bindings. Both
+ * resolve through a fallback chain, e.g. `ar-EG` → `ar` → the default locale.
+ */
+
+import type { I18nConfig, LocalizedString } from '../security/validator';
+import type { TranslationMessages } from '../types';
+import type { MFESpec, ResolvedNode } from './renderer';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TextDirection = 'ltr' | 'rtl';
+
+/**
+ * Locale of a page, passed to every MFE as the `i18n` prop
+ */
+export interface PageLocale {
+    locale: string;
+    dir: TextDirection;
+    /** Catalog of the locale, with missing keys filled from its fallbacks */
+    messages: TranslationMessages;
+}
+
+/**
+ * Where the locale of a request may come from, in order of precedence
+ */
+export interface LocaleHints {
+    /** First path segment, e.g. `ar` in /app/ar/patients */
+    prefix?: string;
+    cookie?: string;
+    acceptLanguage?: string | null;
+}
+
+export const DEFAULT_LOCALE = 'en';
+
+const RTL_LANGUAGES = new Set(['ar', 'fa', 'he', 'ur', 'ps', 'sd', 'ug', 'yi', 'dv', 'ckb']);
+
+// ============================================================================
+// Negotiation
+// ============================================================================
+
+/**
+ * Canonical casing of a language tag: language lowercase, region uppercase, script titlecase
+ */
+export function normalizeLocale(tag: string): string {
+    const [language, ...rest] = tag.trim().replace(/_/g, '-').split('-');
+    const subtags = rest.map(part =>
+        part.length === 2 ? part.toUpperCase() : part.length === 4 ? part[0].toUpperCase() + part.slice(1).toLowerCase() : part
+    );
+    return [language.toLowerCase(), ...subtags].join('-');
+}
+
+/**
+ * Language tags of an Accept-Language header, most preferred first
+ */
+export function parseAcceptLanguage(header: string | null | undefined): string[] {
+    if (!header) return [];
+
+    return header
+        .split(',')
+        .map((part, index) => {
+            const [tag, ...params] = part.trim().split(';');
+            const q = params.map(p => p.trim()).find(p => p.startsWith('q='));
+            return { tag: tag.trim(), q: q ? Number(q.slice(2)) : 1, index };
+        })
+        .filter(entry => entry.tag && entry.tag !== '*' && entry.q > 0)
+        .sort((a, b) => b.q - a.q || a.index - b.index)
+        .map(entry => normalizeLocale(entry.tag));
+}
+
+/**
+ * Best supported match for a requested tag: exact, then same language
+ */
+function matchLocale(requested: string, supported: string[]): string | undefined {
+    const tag = normalizeLocale(requested);
+    const language = tag.split('-')[0];
+    return supported.find(locale => locale === tag)
+        || supported.find(locale => locale === language)
+        || supported.find(locale => locale.split('-')[0] === language);
+}
+
+/**
+ * Pick the page locale from the URL prefix, then the cookie, then Accept-Language
+ */
+export function negotiateLocale(hints: LocaleHints, config: I18nConfig): string {
+    const candidates = [hints.prefix, hints.cookie, ...parseAcceptLanguage(hints.acceptLanguage)];
+    for (const candidate of candidates) {
+        const match = candidate && matchLocale(candidate, config.locales);
+        if (match) return match;
+    }
+    return config.defaultLocale;
+}
+
+/**
+ * Strip a supported locale prefix from a path: `/ar/patients` → `ar`, `/patients`
+ */
+export function splitLocalePrefix(path: string, locales: string[]): { locale?: string; path: string } {
+    const [, first, ...rest] = path.split('/');
+    const locale = first && locales.find(l => l.toLowerCase() === first.toLowerCase());
+    if (!locale) return { path };
+    return { locale, path: '/' + rest.join('/') };
+}
+
+/**
+ * Locales to try for a value, most specific first: `ar-EG` → `ar` → default
+ */
+export function localeChain(locale: string, defaultLocale: string): string[] {
+    const chain: string[] = [];
+    const parts = locale.split('-');
+    for (let i = parts.length; i > 0; i--) {
+        chain.push(parts.slice(0, i).join('-'));
+    }
+    for (const fallback of [defaultLocale, defaultLocale.split('-')[0]]) {
+        if (!chain.includes(fallback)) chain.push(fallback);
+    }
+    return chain;
+}
+
+export function textDirection(locale: string): TextDirection {
+    return RTL_LANGUAGES.has(locale.split('-')[0]) ? 'rtl' : 'ltr';
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+export function isLocalized(value: unknown): value is LocalizedString {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+        && Object.keys(value).length === 1 && '$i18n' in value;
+}
+
+/**
+ * Replace every localized value inside `value` with its translation for the chain.
+ * When no locale of the chain is translated, the first translation is used.
+ */
+export function localize<T>(value: T, chain: string[]): T {
+    if (isLocalized(value)) {
+        const translations = value.$i18n;
+        const locale = chain.find(l => translations[l] !== undefined);
+        return (locale ? translations[locale] : Object.values(translations)[0] ?? '') as T;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => localize(item, chain)) as T;
+    }
+    if (typeof value === 'object' && value !== null) {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, localize(item, chain)])) as T;
+    }
+    return value;
+}
+
+/**
+ * Localize the props of an MFE spec and of its fallback MFE
+ */
+export function localizeSpec(spec: MFESpec | null, chain: string[]): MFESpec | null {
+    if (!spec) return null;
+    const fallback = spec.fallback?.spec ? { ...spec.fallback, spec: localizeSpec(spec.fallback.spec, chain) } : spec.fallback;
+    return { ...spec, props: localize(spec.props, chain), ...(fallback ? { fallback } : {}) };
+}
+
+function mergeMessages(base: TranslationMessages, override: TranslationMessages): TranslationMessages {
+    const merged: TranslationMessages = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+        const current = merged[key];
+        merged[key] = typeof value === 'object' && typeof current === 'object' ? mergeMessages(current, value) : value;
+    }
+    return merged;
+}
+
+/**
+ * Catalog for a locale chain; more specific locales win key by key
+ */
+export function resolveMessages(catalogs: Record<string, TranslationMessages>, chain: string[]): TranslationMessages {
+    return [...chain].reverse().reduce<TranslationMessages>(
+        (messages, locale) => catalogs[locale] ? mergeMessages(messages, catalogs[locale]) : messages,
+        {}
+    );
+}
+
+function withLocale(spec: MFESpec, page: PageLocale): void {
+    spec.props = { ...spec.props, i18n: page };
+    if (spec.fallback?.spec) withLocale(spec.fallback.spec, page);
+}
+
+/**
+ * Pass the page locale and messages to every MFE of a resolved tree as the `i18n` prop, in place
+ */
+export function applyLocale(nodes: ResolvedNode[], page: PageLocale): ResolvedNode[] {
+    for (const node of nodes) {
+        if ((node.type === 'mfe' || node.type === 'outlet') && node.spec) withLocale(node.spec, page);
+        if ('children' in node) applyLocale(node.children, page);
+    }
+    return nodes;
+}
@@ -0,0 +1,210 @@
+/**
+ * Shared Modules and Import Map
+ * The singletons every MFE bundle shares with the host, published to the
+ * browser as an import map so bundles can `import 'react'` by bare specifier.
+ *
+ * React and ReactDOM are served from the host's own instances (see
+ * components/system/shared-deps), so all MFEs render with the host's React.
+ * Further packages installed on the host, such as a UI kit or a date library,
+ * are shared by listing their module specifiers in MFE_SHARED_PACKAGES
+ * (e.g. `@acme/ui,dayjs,dayjs/plugin/utc`); they are bundled to ESM on first
+ * request, with the other shared modules left external.
+ *
+ * The bundler externalizes exactly these specifiers and records the versions
+ * a build was made against.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { build, type Plugin } from 'esbuild';
+import { SHARED_MODULES_GLOBAL, hostModules } from '../components/system/shared-deps';
+
+export interface SharedModule {
+    specifier: string;
+    package: string;
+    version: string;
+    /** Served from the host's own instance rather than bundled from node_modules */
+    host: boolean;
+}
+
+export interface ImportMap {
+    imports: Record<string, string>;
+}
+
+const SHARED_ROUTE = '/api/shared';
+
+const EXTRA_SPECIFIERS = (process.env.MFE_SHARED_PACKAGES || '')
+    .split(',')
+    .map(specifier => specifier.trim())
+    .filter(Boolean);
+
+/**
+ * Package a module specifier belongs to (`@scope/pkg/sub` → `@scope/pkg`)
+ */
+export function packageOf(specifier: string): string {
+    const parts = specifier.split('/');
+    return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+function installedVersion(pkg: string): string | null {
+    try {
+        const manifest = path.join(process.cwd(), 'node_modules', pkg, 'package.json');
+        return JSON.parse(fs.readFileSync(manifest, 'utf-8')).version || null;
+    } catch {
+        return null;
+    }
+}
+
+let sharedModules: SharedModule[] | null = null;
+
+/**
+ * The shared modules with the installed versions; configured packages that
+ * are not installed are left out
+ */
+export function getSharedModules(): SharedModule[] {
+    if (sharedModules) return sharedModules;
+
+    const hostSpecifiers = Object.keys(hostModules);
+    const specifiers = [...new Set([...hostSpecifiers, ...EXTRA_SPECIFIERS])];
+
+    sharedModules = specifiers.flatMap(specifier => {
+        const pkg = packageOf(specifier);
+        const version = installedVersion(pkg);
+        if (!version) {
+            console.warn(`Shared module ${specifier} is not installed and will not be shared`);
+            return [];
+        }
+        return [{ specifier, package: pkg, version, host: hostSpecifiers.includes(specifier) }];
+    });
+    return sharedModules;
+}
+
+export function findSharedModule(specifier: string): SharedModule | undefined {
+    return getSharedModules().find(module => module.specifier === specifier);
+}
+
+/**
+ * URL a shared module is served at; the version keeps upgrades from being served stale
+ */
+export function sharedModuleURL(module: SharedModule): string {
+    return `${SHARED_ROUTE}/${module.specifier}.js?v=${encodeURIComponent(module.version)}`;
+}
+
+/**
+ * Import map published on pages that render MFEs
+ */
+export function getImportMap(): ImportMap {
+    return {
+        imports: Object.fromEntries(getSharedModules().map(module => [module.specifier, sharedModuleURL(module)]))
+    };
+}
+
+/**
+ * Versions of the packages behind `specifiers`, as recorded with a build
+ */
+export function sharedVersions(specifiers: Iterable<string>): Record<string, string> {
+    const versions: Record<string, string> = {};
+    for (const specifier of specifiers) {
+        const module = findSharedModule(specifier);
+        if (module) versions[module.package] = module.version;
+    }
+    return versions;
+}
+
+/**
+ * esbuild plugin leaving exactly the shared modules external. Other modules
+ * of a shared package are rejected, as bundling them would load a second copy
+ * of the package. Shared specifiers the build imports are added to `used`.
+ */
+export function sharedModulesPlugin(used: Set<string> = new Set(), bundling?: string): Plugin {
+    return {
+        name: 'shared-modules',
+        setup(build) {
+            build.onResolve({ filter: /^[^./]/ }, args => {
+                if (args.path === bundling) return undefined;
+
+                const modules = getSharedModules();
+                if (modules.some(module => module.specifier === args.path)) {
+                    used.add(args.path);
+                    return { path: args.path, external: true };
+                }
+                const pkg = packageOf(args.path);
+                if (modules.some(module => module.package === pkg)) {
+                    const allowed = modules.filter(module => module.package === pkg).map(module => module.specifier);
+                    return { errors: [{ text: `"${args.path}" is not a shared module; use ${allowed.join(' or ')}` }] };
+                }
+                return undefined;
+            });
+        }
+    };
+}
+
+// ============================================================================
+// Module Sources
+// ============================================================================
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Export names of a module as Node sees it, including CommonJS exports
+ */
+async function exportNames(specifier: string): Promise<{ names: string[]; hasDefault: boolean }> {
+    const namespace = await import(/* @vite-ignore */ specifier);
+    const names = new Set([...Object.keys(namespace), ...Object.keys(namespace.default ?? {})]);
+    names.delete('default');
+    return { names: [...names].filter(name => IDENTIFIER.test(name)), hasDefault: 'default' in namespace };
+}
+
+/**
+ * Module re-exporting the host's instance from the shared modules global
+ */
+async function hostModuleSource(module: SharedModule): Promise<string> {
+    const { names } = await exportNames(module.specifier);
+    const key = JSON.stringify(module.specifier);
+    return [
+        `const m = globalThis[${JSON.stringify(SHARED_MODULES_GLOBAL)}]?.[${key}];`,
+        `if (!m) throw new Error(${JSON.stringify(`Shared module ${module.specifier} is not provided by the host`)});`,
+        `export default m.default ?? m;`,
+        names.length > 0 ? `export const { ${names.join(', ')} } = m;` : ''
+    ].join('\n');
+}
+
+/**
+ * Package bundled to a single ESM module, importing the other shared modules
+ * through the import map
+ */
+async function bundledModuleSource(module: SharedModule): Promise<string> {
+    const { hasDefault } = await exportNames(module.specifier);
+    const specifier = JSON.stringify(module.specifier);
+    const result = await build({
+        stdin: {
+            contents: `export * from ${specifier};${hasDefault ? ` export { default } from ${specifier};` : ''}`,
+            resolveDir: process.cwd(),
+            loader: 'js'
+        },
+        bundle: true,
+        write: false,
+        format: 'esm',
+        target: 'es2020',
+        platform: 'browser',
+        minify: true,
+        plugins: [sharedModulesPlugin(new Set(), module.specifier)]
+    });
+    return result.outputFiles[0].text;
+}
+
+const sources = new Map<string, Promise<string>>();
+
+/**
+ * JavaScript served for a shared module
+ */
+export function sharedModuleSource(module: SharedModule): Promise<string> {
+    const key = `${module.specifier}@${module.version}`;
+    let source = sources.get(key);
+    if (!source) {
+        source = module.host ? hostModuleSource(module) : bundledModuleSource(module);
+        sources.set(key, source);
+        source.catch(() => sources.delete(key));
+    }
+    return source;
+}
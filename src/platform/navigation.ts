@@ -0,0 +1,217 @@
+/**
+ * App Navigation
+ * Resolves the `navigation` section of a blueprint into the menus and
+ * breadcrumbs of the app shell for one request.
+ *
+ * Without a declared primary menu, one is derived from the route table: every
+ * route that can be opened without parameters becomes an entry. Entries the
+ * viewer may not open are left out, checked with the same access rules as
+ * the pages they link to.
+ */
+
+import { compileRoutePattern, compileRoutes, declaredRoutes, matchRoute, registryRoutes } from './router';
+import { localize } from './i18n';
+import { checkAccess } from '../auth/access';
+import type { Navigation, NavigationItem } from '../security/validator';
+import type { AccessRule, MFERegistry, RouteDefinition } from '../types';
+import type { AuthContext } from '../types/auth';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ResolvedNavItem {
+    label: string;
+    /** App path with params filled, e.g. `/patients/P001/records` */
+    path: string;
+    href: string;
+    /** The item or one of its children is the current page */
+    active: boolean;
+    /** The deepest active item */
+    current: boolean;
+    children: ResolvedNavItem[];
+}
+
+export interface Breadcrumb {
+    label: string;
+    href: string;
+}
+
+export interface ResolvedNavigation {
+    layout: 'sidebar' | 'topbar';
+    primary: ResolvedNavItem[];
+    secondary: ResolvedNavItem[];
+    breadcrumbs: Breadcrumb[];
+}
+
+export interface NavigationOptions {
+    /** The project's route table, matched before the registry like /api/routes does */
+    projectRoutes: RouteDefinition[];
+    registry: MFERegistry;
+    auth: AuthContext | null;
+    /** Current app path, without the locale prefix */
+    path: string;
+    /** Params of the current route, used to fill `:param`s of item paths */
+    params: Record<string, string>;
+    /** Locale fallback chain for labels (see platform/i18n) */
+    locales: string[];
+    /** Prefix of every href, e.g. `/app` or `/app/ar` */
+    basePath: string;
+}
+
+// ============================================================================
+// Derivation
+// ============================================================================
+
+/**
+ * Path a route is opened at without parameters (`/patients/:patientId?` → `/patients`),
+ * or null when it needs one
+ */
+export function landingPath(pattern: string): string | null {
+    const statics: string[] = [];
+    let dynamic = false;
+    for (const segment of compileRoutePattern(pattern)) {
+        if (segment.kind === 'param' && !segment.optional) return null;
+        if (segment.kind === 'static') {
+            // A static segment after an optional one can only be reached with that param
+            if (dynamic) return null;
+            statics.push(segment.value);
+        } else {
+            dynamic = true;
+        }
+    }
+    return statics.length > 0 ? '/' + statics.join('/') : null;
+}
+
+function humanize(segment: string): string {
+    const words = segment.replace(/[-_]+/g, ' ').trim();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function findParent(items: NavigationItem[], path: string): NavigationItem | undefined {
+    for (const item of items) {
+        if (path.startsWith(item.path + '/')) {
+            return findParent(item.children || [], path) || item;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Menu with one entry per route that can be opened without parameters.
+ * Labels come from the MFE's `title` variable; deeper paths nest under shorter ones.
+ */
+export function deriveMenu(routes: RouteDefinition[], registry: MFERegistry['mfes']): NavigationItem[] {
+    const entries = routes
+        .map(route => ({ route, path: landingPath(route.pattern) }))
+        .filter((entry): entry is { route: RouteDefinition; path: string } => entry.path !== null)
+        // Stable sort: parents first, table order within a depth
+        .sort((a, b) => a.path.split('/').length - b.path.split('/').length);
+
+    const menu: NavigationItem[] = [];
+    const seen = new Set<string>();
+    for (const { route, path } of entries) {
+        if (seen.has(path)) continue;
+        seen.add(path);
+
+        const title = registry[route.mfe]?.variables?.title;
+        const item: NavigationItem = {
+            label: typeof title === 'string' ? title : humanize(path.split('/').pop()!),
+            path
+        };
+        const parent = findParent(menu, path);
+        if (parent) {
+            parent.children = [...(parent.children || []), item];
+        } else {
+            menu.push(item);
+        }
+    }
+    return menu;
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Fill `:param`s from the current route; null when a required one is missing
+ */
+function fillParams(pattern: string, params: Record<string, string>): string | null {
+    let missing = false;
+    const path = pattern.replace(/\/:([a-zA-Z_][a-zA-Z0-9_]*)(\?)?/g, (_, name: string, optional?: string) => {
+        if (params[name] !== undefined) return '/' + encodeURIComponent(params[name]);
+        if (!optional) missing = true;
+        return '';
+    });
+    return missing ? null : path || '/';
+}
+
+function matchesPattern(pattern: string, path: string): boolean {
+    return matchRoute(compileRoutes([{ pattern, mfe: '' }]), path) !== null;
+}
+
+function isActive(item: NavigationItem, path: string, current: string): boolean {
+    if (path === current) return true;
+    if (item.match !== 'exact' && path !== '/' && current.startsWith(path + '/')) return true;
+    return (item.activeRoutes || []).some(pattern => matchesPattern(pattern, current));
+}
+
+function activeTrail(items: ResolvedNavItem[]): ResolvedNavItem[] {
+    const active = items.find(item => item.active);
+    return active ? [active, ...activeTrail(active.children)] : [];
+}
+
+/**
+ * Resolve the shell of a page: menus filtered for the viewer, active states and breadcrumbs
+ */
+export function resolveNavigation(navigation: Navigation, options: NavigationOptions): ResolvedNavigation {
+    const { registry, auth, params, locales, basePath } = options;
+    const current = options.path.replace(/\/+$/, '') || '/';
+    const tables = [compileRoutes(options.projectRoutes), compileRoutes(registryRoutes(registry))];
+
+    /** Rules of the route (and its MFE) a path opens, so hidden items match forbidden pages */
+    const routeAccess = (path: string): Array<AccessRule | undefined> => {
+        for (const table of tables) {
+            const match = matchRoute(table, path);
+            if (match) return [match.route.access, registry.mfes[match.route.mfe]?.access];
+        }
+        return [];
+    };
+
+    const resolveItems = (items: NavigationItem[]): ResolvedNavItem[] => items.flatMap(item => {
+        const path = fillParams(item.path, params);
+        if (path === null || !checkAccess([item.access, ...routeAccess(path)], auth).allowed) return [];
+
+        const children = resolveItems(item.children || []);
+        return [{
+            label: localize(item.label, locales) as string,
+            path,
+            href: path === '/' ? basePath : basePath + path,
+            active: isActive(item, path, current) || children.some(child => child.active),
+            current: false,
+            children
+        }];
+    });
+
+    const primary = resolveItems(navigation.menus?.primary
+        || (navigation.auto === false ? [] : deriveMenu([...options.projectRoutes, ...declaredRoutes(registry)], registry.mfes)));
+    const secondary = resolveItems(navigation.menus?.secondary || []);
+
+    const primaryTrail = activeTrail(primary);
+    const trail = primaryTrail.length > 0 ? primaryTrail : activeTrail(secondary);
+    const breadcrumbs: Breadcrumb[] = trail.map(item => ({ label: item.label, href: item.href }));
+
+    // Pages below the last menu entry, e.g. /patients/P001, end the trail with their own segment
+    const last = trail[trail.length - 1];
+    if (last) last.current = true;
+    if (last && last.path !== current && current.startsWith(last.path + '/')) {
+        breadcrumbs.push({ label: current.split('/').pop()!, href: basePath + current });
+    }
+
+    return {
+        layout: navigation.layout || 'sidebar',
+        primary,
+        secondary,
+        breadcrumbs: navigation.breadcrumbs === false || breadcrumbs.length < 2 ? [] : breadcrumbs
+    };
+}
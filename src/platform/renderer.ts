@@ -1,5 +1,11 @@
 import { PlatformDB } from '../db/platform';
 import type { Blueprint } from '../db/platform';
+import { validateUISchema, type UISchema, type BlueprintNode, type DataBinding, type DataSource, type Action, type LocalizedString } from '../security/validator';
+import type { AccessRule, MFERegistry, EventPayloadSchema, MFEFallback, MFELoadPolicy, RouteDefinition, TranslationMessages } from '../types';
+import { readPath, resolveBinding, bindParams, isSafeBoundValue, type RenderContext } from './bindings';
+import { localize, localizeSpec } from './i18n';
+
+export { resolveBinding, type RenderContext };
 
 export const getAppBlueprint = (projectId: string): Blueprint | null => {
   const blueprint = PlatformDB.getActiveBlueprint(projectId);
@@ -7,11 +13,301 @@ export const getAppBlueprint = (projectId: string): Blueprint | null => {
   return blueprint;
 };
 
-export const parseUISchema = (blueprint: Blueprint) => {
+export const getBlueprintVersion = (projectId: string, version: number): Blueprint | null => {
+  return PlatformDB.getBlueprint(projectId, version) || null;
+};
+
+/**
+ * Translation catalogs of a project, keyed by locale
+ */
+export const getTranslationCatalogs = (projectId: string): Record<string, TranslationMessages> => {
+  return Object.fromEntries(PlatformDB.getTranslations(projectId).map(catalog => [catalog.locale, catalog.messages]));
+};
+
+/**
+ * Route table of a project, as matched by /api/routes before the registry
+ */
+export const getProjectRoutes = (projectId: string): RouteDefinition[] => {
+  return PlatformDB.getRoutes(projectId);
+};
+
+export const parseUISchema = (blueprint: Blueprint): UISchema | null => {
   try {
-    return JSON.parse(blueprint.ui_schema);
+    const validation = validateUISchema(JSON.parse(blueprint.ui_schema));
+    if (!validation.success) {
+      console.error('Invalid UI schema', validation.issues);
+      return null;
+    }
+    return validation.data;
   } catch (e) {
     console.error('Failed to parse UI schema', e);
     return null;
   }
 };
+
+// ------------------------------------------------------------------
+// Tree Resolution
+// ------------------------------------------------------------------
+
+/**
+ * What the client needs to load and mount one MFE
+ */
+export interface MFESpec {
+  url: string;
+  name: string;
+  integrity?: string;
+  version?: string;
+  props?: Record<string, unknown>;
+  events?: Record<string, EventPayloadSchema>;
+  loading?: MFELoadPolicy;
+  /** Rendered instead of the MFE when it fails to load or crashes */
+  fallback?: ResolvedFallback;
+  /** Render on the server; `html` is set once it rendered there (see platform/ssr) */
+  ssr?: boolean;
+  html?: string;
+  /** Stylesheet URL; linked into the shadow root when encapsulated, into the page otherwise */
+  styles?: string;
+  encapsulation?: 'shadow';
+}
+
+export interface ResolvedFallback {
+  spec?: MFESpec | null;
+  text?: string;
+}
+
+/**
+ * A blueprint node after bindings, repeats and registry lookups are applied.
+ * MFE and outlet nodes carry a ready-to-mount spec; everything else is static,
+ * except fields bound to `state`, which stay `live` and are resolved on the client.
+ */
+export type ResolvedNode =
+  | (Resolved<Extract<BlueprintNode, { type: ContainerType }>, 'children'> & { children: ResolvedNode[] })
+  | { type: 'mfe'; id?: string; className?: string; spec: MFESpec | null; missing?: string; data?: Record<string, DataRequest>; on?: Record<string, Action[]> }
+  | { type: 'outlet'; id?: string; className?: string; spec: MFESpec | null }
+  | (Localized<Resolved<Exclude<BlueprintNode, { type: ContainerType | 'mfe' | 'outlet' }>>> & { live?: Record<string, DataBinding> });
+
+type ContainerType = 'layout' | 'region' | 'form';
+
+// Distributes over the node union so each variant keeps its own fields
+type Resolved<T, K extends PropertyKey = never> = T extends unknown ? Omit<T, 'bindings' | K> : never;
+
+// Localized text fields are plain strings once resolved for the page locale
+type Localized<T> = { [K in keyof T]: Exclude<T[K], LocalizedString> };
+
+export interface ResolveOptions {
+  registry: MFERegistry['mfes'];
+  context: RenderContext;
+  /** MFE matched by the route registry, mounted at `outlet` nodes */
+  outlet: MFESpec | null;
+  /** Locale fallback chain for localized values (see platform/i18n) */
+  locales?: string[];
+}
+
+/**
+ * A data source with its parameters bound, ready to execute on the server
+ */
+export type DataRequest =
+  | { kind: 'function'; name: string; params: Record<string, unknown> }
+  | { kind: 'table'; table: string; where: Record<string, unknown>; orderBy?: { column: string; direction?: 'asc' | 'desc' }; limit?: number };
+
+const RESERVED_FIELDS = new Set(['type', 'id', 'children', 'bindings', 'repeat', 'fallback', 'loading', 'ssr', 'data', 'on', 'onClick', 'onSubmit']);
+
+function resolveBindings(bindings: Record<string, DataBinding> | undefined, context: RenderContext): Record<string, unknown> {
+  const resolved: Record<string, unknown> = {};
+  for (const [field, binding] of Object.entries(bindings || {})) {
+    if (RESERVED_FIELDS.has(field) || binding.source === 'state') continue;
+    resolved[field] = resolveBinding(binding, context);
+  }
+  return resolved;
+}
+
+/**
+ * Bound fields of a primitive that may replace its validated ones (see isSafeBoundValue)
+ */
+function primitiveBindings(bindings: Record<string, DataBinding> | undefined, context: RenderContext): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(resolveBindings(bindings, context)).filter(([field, value]) => isSafeBoundValue(field, value))
+  );
+}
+
+/**
+ * State bindings of a primitive; host state only exists on the client
+ */
+function liveBindings(bindings: Record<string, DataBinding> | undefined): Record<string, DataBinding> | undefined {
+  const live = Object.entries(bindings || {}).filter(([field, binding]) => binding.source === 'state' && !RESERVED_FIELDS.has(field));
+  return live.length ? Object.fromEntries(live) : undefined;
+}
+
+/**
+ * Resolve a declared fallback against the registry.
+ * A fallback MFE does not get a fallback of its own, so chains cannot loop.
+ */
+export const resolveFallback = (
+  fallback: MFEFallback | undefined,
+  registry: MFERegistry['mfes']
+): ResolvedFallback | undefined => {
+  if (!fallback) return undefined;
+  if (fallback.text !== undefined) return { text: fallback.text };
+  if (!fallback.mfe) return undefined;
+
+  const spec = toMFESpec(fallback.mfe, registry, {}, { fallback: null });
+  return spec ? { spec } : undefined;
+};
+
+/**
+ * Bind data source parameters against the render context
+ */
+export const bindDataSources = (
+  sources: Record<string, DataSource> | undefined,
+  context: RenderContext
+): Record<string, DataRequest> => {
+  const requests: Record<string, DataRequest> = {};
+  for (const [key, source] of Object.entries(sources || {})) {
+    requests[key] = source.kind === 'function'
+      ? { kind: 'function', name: source.name, params: bindParams(source.params, context) }
+      : { kind: 'table', table: source.table, where: bindParams(source.where, context), orderBy: source.orderBy, limit: source.limit };
+  }
+  return requests;
+};
+
+/**
+ * Build the client spec for a registered MFE.
+ * `overrides` come from the blueprint slot and win over the registry entry;
+ * a `null` fallback disables it.
+ */
+export const toMFESpec = (
+  name: string,
+  registry: MFERegistry['mfes'],
+  variables: Record<string, unknown> = {},
+  overrides: { fallback?: MFEFallback | null; loading?: MFELoadPolicy; ssr?: boolean } = {}
+): MFESpec | null => {
+  const def = registry[name];
+  if (!def || def.active === false) return null;
+
+  const fallback = overrides.fallback === null ? undefined : resolveFallback(overrides.fallback || def.fallback, registry);
+
+  return {
+    url: def.source,
+    name,
+    integrity: def.integrity,
+    version: def.version,
+    props: { ...def.variables, ...variables },
+    events: def.events,
+    loading: { ...def.loading, ...overrides.loading },
+    ...((overrides.ssr ?? def.ssr) ? { ssr: true } : {}),
+    ...(def.styles ? { styles: def.styles } : {}),
+    ...(def.encapsulation === 'shadow' ? { encapsulation: 'shadow' as const } : {}),
+    ...(fallback ? { fallback } : {})
+  };
+};
+
+/**
+ * Access rules of a registered MFE and of the fallback MFE it would render.
+ * `fallback` is the slot's own declaration, which wins over the registry's.
+ */
+export function mfeAccessRules(
+  name: string,
+  registry: MFERegistry['mfes'],
+  fallback?: MFEFallback
+): AccessRule[] {
+  const def = registry[name];
+  if (!def || def.active === false) return [];
+
+  const fallbackName = (fallback || def.fallback)?.mfe;
+  const fallbackAccess = fallbackName ? registry[fallbackName]?.access : undefined;
+  return [def.access, fallbackAccess].filter((rule): rule is AccessRule => Boolean(rule));
+}
+
+/**
+ * Access rules of every MFE a blueprint places in a slot, fallbacks included.
+ * They apply to the whole page, like the rules of the routed MFE, and are
+ * known before anything is resolved.
+ */
+export function blueprintAccessRules(root: BlueprintNode, registry: MFERegistry['mfes']): AccessRule[] {
+  if (root.type === 'mfe') return mfeAccessRules(root.name, registry, root.fallback);
+  return 'children' in root ? root.children.flatMap(child => blueprintAccessRules(child, registry)) : [];
+}
+
+/**
+ * Stylesheets of the MFEs on a page that render into the page itself,
+ * so they can be linked in the head; shadow-encapsulated MFEs link their own
+ */
+export function pageStylesheets(nodes: ResolvedNode[]): string[] {
+  const hrefs = new Set<string>();
+  const addSpec = (spec: MFESpec | null | undefined) => {
+    if (!spec) return;
+    if (spec.styles && spec.encapsulation !== 'shadow') hrefs.add(spec.styles);
+    addSpec(spec.fallback?.spec);
+  };
+  const walk = (list: ResolvedNode[]) => {
+    for (const node of list) {
+      if (node.type === 'mfe' || node.type === 'outlet') addSpec(node.spec);
+      if ('children' in node) walk(node.children);
+    }
+  };
+
+  walk(nodes);
+  return [...hrefs];
+}
+
+function resolveNode(node: BlueprintNode, options: ResolveOptions): ResolvedNode[] {
+  const { context } = options;
+
+  switch (node.type) {
+    case 'layout':
+    case 'region':
+    case 'form': {
+      const { bindings, children, ...rest } = node;
+      return [{ ...rest, children: children.flatMap(child => resolveNode(child, options)) }];
+    }
+
+    case 'mfe': {
+      // Repeated slots render one MFE per item of the bound array
+      if (node.repeat) {
+        const items = resolveBinding(node.repeat.source, context);
+        if (!Array.isArray(items)) return [];
+
+        const { repeat, ...single } = node;
+        return items.flatMap((item, index) => {
+          const key = repeat.key ? String(readPath(item, repeat.key) ?? index) : String(index);
+          return resolveNode(
+            { ...single, id: `${node.id || node.name}-${key}` },
+            { ...options, context: { ...context, item } }
+          );
+        });
+      }
+
+      const variables = { ...node.variables, ...resolveBindings(node.bindings, context) };
+      const spec = localizeSpec(
+        toMFESpec(node.name, options.registry, variables, { fallback: node.fallback, loading: node.loading, ssr: node.ssr }),
+        options.locales || []
+      );
+      return [{
+        type: 'mfe',
+        id: node.id,
+        className: node.className,
+        spec,
+        ...(spec ? {} : { missing: node.name }),
+        ...(spec && node.data ? { data: bindDataSources(node.data, context) } : {}),
+        ...(spec && node.on ? { on: node.on } : {})
+      }];
+    }
+
+    case 'outlet':
+      return [{ type: 'outlet', id: node.id, className: node.className, spec: localizeSpec(options.outlet, options.locales || []) }];
+
+    default: {
+      const { bindings, ...rest } = node;
+      const live = liveBindings(bindings);
+      const fields = localize({ ...rest, ...primitiveBindings(bindings, context) }, options.locales || []);
+      return [{ ...fields, ...(live ? { live } : {}) } as ResolvedNode];
+    }
+  }
+}
+
+/**
+ * Resolve a blueprint tree into renderable nodes
+ */
+export const resolveBlueprintTree = (root: BlueprintNode, options: ResolveOptions): ResolvedNode[] => {
+  return resolveNode(root, options);
+};
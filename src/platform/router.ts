@@ -0,0 +1,206 @@
+/**
+ * Route Matcher
+ * Matches request paths against parameterized route patterns
+ *
+ * Pattern syntax:
+ *   /patients                 static segment
+ *   /patients/:patientId      named parameter
+ *   /patients/:patientId?     optional parameter (trailing segments only)
+ *   /files/*  or  /files/*rest  wildcard capturing the remaining path
+ */
+
+import { RouteDefinitionSchema } from '../security/validator';
+import type { MFERegistry, RouteDefinition } from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type PatternSegment =
+    | { kind: 'static'; value: string }
+    | { kind: 'param'; name: string; optional: boolean }
+    | { kind: 'wildcard'; name: string };
+
+export interface CompiledRoute {
+    definition: RouteDefinition;
+    segments: PatternSegment[];
+    rank: number[];
+}
+
+export interface RouteMatch {
+    route: RouteDefinition;
+    params: Record<string, string>;
+    /** Route variables, query mappings and path params merged in that order */
+    variables: Record<string, unknown>;
+}
+
+// ============================================================================
+// Compilation
+// ============================================================================
+
+function splitPath(path: string): string[] {
+    return path.split('/').filter(Boolean);
+}
+
+/**
+ * Parse a route pattern into segments
+ */
+export function compileRoutePattern(pattern: string): PatternSegment[] {
+    const parts = splitPath(pattern);
+
+    return parts.map((part, index) => {
+        if (part.startsWith('*')) {
+            if (index !== parts.length - 1) {
+                throw new Error(`Wildcard must be the last segment: ${pattern}`);
+            }
+            return { kind: 'wildcard', name: part.slice(1) || 'wildcard' };
+        }
+
+        if (part.startsWith(':')) {
+            const optional = part.endsWith('?');
+            const name = part.slice(1, optional ? -1 : undefined);
+            if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name)) {
+                throw new Error(`Invalid route parameter "${part}" in ${pattern}`);
+            }
+            return { kind: 'param', name, optional };
+        }
+
+        return { kind: 'static', value: part };
+    });
+}
+
+/**
+ * Rank a route for matching order (compared element-wise, higher first):
+ * explicit priority, static segments, required params, optional params, no wildcard
+ */
+function rankRoute(definition: RouteDefinition, segments: PatternSegment[]): number[] {
+    const count = (predicate: (s: PatternSegment) => boolean) => segments.filter(predicate).length;
+
+    return [
+        definition.priority ?? 0,
+        count(s => s.kind === 'static'),
+        count(s => s.kind === 'param' && !s.optional),
+        count(s => s.kind === 'param' && s.optional),
+        segments.some(s => s.kind === 'wildcard') ? 0 : 1
+    ];
+}
+
+function compareRanks(a: number[], b: number[]): number {
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] !== b[i]) return b[i] - a[i];
+    }
+    return 0;
+}
+
+/**
+ * Compile and order route definitions for matching
+ */
+export function compileRoutes(definitions: RouteDefinition[]): CompiledRoute[] {
+    return definitions
+        .map(definition => {
+            const segments = compileRoutePattern(definition.pattern);
+            return { definition, segments, rank: rankRoute(definition, segments) };
+        })
+        .sort((a, b) => compareRanks(a.rank, b.rank));
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+function matchSegments(segments: PatternSegment[], parts: string[]): Record<string, string> | null {
+    const params: Record<string, string> = {};
+
+    for (let i = 0; i < segments.length; i++) {
+        const segment = segments[i];
+        const part = parts[i];
+
+        if (segment.kind === 'wildcard') {
+            params[segment.name] = parts.slice(i).join('/');
+            return params;
+        }
+
+        if (part === undefined) {
+            if (segment.kind === 'param' && segment.optional) continue;
+            return null;
+        }
+
+        if (segment.kind === 'static') {
+            if (segment.value !== part) return null;
+            continue;
+        }
+
+        try {
+            params[segment.name] = decodeURIComponent(part);
+        } catch {
+            return null;
+        }
+    }
+
+    return parts.length <= segments.length ? params : null;
+}
+
+/**
+ * Find the best matching route for a path
+ */
+export function matchRoute(
+    routes: CompiledRoute[],
+    path: string,
+    query: URLSearchParams = new URLSearchParams()
+): RouteMatch | null {
+    const parts = splitPath(path);
+
+    for (const { definition, segments } of routes) {
+        const params = matchSegments(segments, parts);
+        if (!params) continue;
+
+        const mapped: Record<string, string> = {};
+        for (const [queryParam, variable] of Object.entries(definition.query || {})) {
+            const value = query.get(queryParam);
+            if (value !== null) mapped[variable] = value;
+        }
+
+        return {
+            route: definition,
+            params,
+            variables: { ...definition.variables, ...mapped, ...params }
+        };
+    }
+
+    return null;
+}
+
+// ============================================================================
+// Registry Routes
+// ============================================================================
+
+/**
+ * Routes declared in the registry; invalid entries are skipped
+ */
+export function declaredRoutes(registry: MFERegistry): RouteDefinition[] {
+    return (registry.routes || []).filter(route => {
+        const validation = RouteDefinitionSchema.safeParse(route);
+        if (!validation.success) {
+            console.warn(`Skipping invalid route ${JSON.stringify(route)}: ${validation.error.errors[0].message}`);
+        }
+        return validation.success;
+    });
+}
+
+/**
+ * Legacy `/<name>/:id?` route every registered MFE keeps
+ */
+export function implicitRoutes(registry: MFERegistry): RouteDefinition[] {
+    return Object.keys(registry.mfes).map(name => ({
+        pattern: `/${name}/:id?`,
+        mfe: name,
+        priority: -1
+    }));
+}
+
+/**
+ * Route table of the registry: declared routes first, then the implicit ones
+ */
+export function registryRoutes(registry: MFERegistry): RouteDefinition[] {
+    return [...declaredRoutes(registry), ...implicitRoutes(registry)];
+}
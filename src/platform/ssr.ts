@@ -0,0 +1,171 @@
+/**
+ * MFE Server Rendering
+ * Renders MFEs that opt in (`ssr: true`) to HTML on the server, so generated
+ * pages paint real content before the bundles download. RemoteRenderer shows
+ * the markup immediately and hydrates it once the bundle is loaded.
+ *
+ * Only platform bundles (served from /mfe/) are server rendered. Bundles run
+ * in a `vm` context that shares the host's React modules, and `vm` is not a
+ * security boundary, so tenant-built bundles (/api/mfe/) always render on the
+ * client, whatever their `ssr` setting.
+ *
+ * Only component-style bundles can be server rendered. mount()-style MFEs,
+ * shadow-encapsulated MFEs, bundles that fail their integrity check, and
+ * components that touch browser globals or throw while rendering are left to
+ * client-only rendering.
+ */
+
+import fs from 'fs/promises';
+import vm from 'vm';
+import React from 'react';
+import * as ReactDOM from 'react-dom';
+import * as JSXRuntime from 'react/jsx-runtime';
+import { renderToString } from 'react-dom/server';
+import { transform } from 'esbuild';
+import { resolveSourcePath } from '../dashboard/lib/mfe-manager';
+import { verifyIntegrity } from '../components/system/mfe-loader';
+import type { ScopedEventBus } from '../components/system/event-bus';
+import type { MFESpec, ResolvedNode } from './renderer';
+
+/**
+ * Raised when an MFE cannot be rendered on the server; the client renders it instead
+ */
+export class SSRUnsupportedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SSRUnsupportedError';
+    }
+}
+
+const SSR_TIMEOUT_MS = Number(process.env.MFE_SSR_TIMEOUT_MS) || 250;
+
+/** URL prefix of the platform's own bundles (public/mfe), the only ones trusted to run on the server */
+const PLATFORM_BUNDLE_PREFIX = '/mfe/';
+const MODULE_CACHE_SIZE = 50;
+
+/** Modules bundles may import; everything else is provided by the browser only */
+const SHARED_MODULES: Record<string, unknown> = {
+    'react': React,
+    'react-dom': ReactDOM,
+    'react/jsx-runtime': JSXRuntime
+};
+
+/** No-op bus handed to components on the server; events only flow on the client */
+const serverEventBus: ScopedEventBus = {
+    emit: () => { },
+    on: () => () => { },
+    last: () => undefined
+};
+
+// ============================================================================
+// Module Evaluation
+// ============================================================================
+
+const moduleCache = new Map<string, Promise<React.ComponentType<any>>>();
+
+async function readBundle(spec: MFESpec): Promise<Buffer> {
+    if (!spec.url.startsWith(PLATFORM_BUNDLE_PREFIX)) {
+        throw new SSRUnsupportedError('only platform bundles are server rendered');
+    }
+
+    const content = await fs.readFile(resolveSourcePath(spec.url));
+    if (spec.integrity) {
+        const bytes = content.buffer.slice(content.byteOffset, content.byteOffset + content.byteLength) as ArrayBuffer;
+        const { valid } = await verifyIntegrity(bytes, spec.integrity);
+        if (!valid) {
+            throw new SSRUnsupportedError('bundle does not match the registered integrity hash');
+        }
+    }
+    return content;
+}
+
+/**
+ * Evaluate a bundle in a fresh context that only exposes the shared React modules
+ */
+async function evaluateComponent(spec: MFESpec): Promise<React.ComponentType<any>> {
+    const source = await readBundle(spec);
+    const { code } = await transform(source.toString('utf-8'), { format: 'cjs', loader: 'js', target: 'es2020' });
+
+    const module = { exports: {} as Record<string, any> };
+    const require = (id: string) => {
+        if (!(id in SHARED_MODULES)) {
+            throw new SSRUnsupportedError(`import of "${id}" is not available on the server`);
+        }
+        return SHARED_MODULES[id];
+    };
+
+    const context = vm.createContext({ window: { React }, React, module, exports: module.exports, require, console });
+    vm.runInContext(code, context, { filename: spec.url, timeout: SSR_TIMEOUT_MS });
+
+    const exports = module.exports;
+    if (typeof exports.mount === 'function') {
+        throw new SSRUnsupportedError('mount()-style MFEs render on the client only');
+    }
+
+    const Component = exports.default || exports[spec.name];
+    if (typeof Component !== 'function') {
+        throw new SSRUnsupportedError(`component ${spec.name} not found in module`);
+    }
+    return Component;
+}
+
+function loadComponent(spec: MFESpec): Promise<React.ComponentType<any>> {
+    // Bundles without an integrity hash are re-read, since they may change in place
+    if (!spec.integrity) return evaluateComponent(spec);
+
+    const key = `${spec.url}#${spec.integrity}`;
+    let component = moduleCache.get(key);
+    if (!component) {
+        component = evaluateComponent(spec);
+        moduleCache.set(key, component);
+        if (moduleCache.size > MODULE_CACHE_SIZE) {
+            moduleCache.delete(moduleCache.keys().next().value!);
+        }
+    }
+    return component;
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Render one MFE to HTML with the same props it receives on the client.
+ * Resolves to null when the MFE has to render on the client instead.
+ */
+export async function renderMFEToHTML(spec: MFESpec): Promise<string | null> {
+    try {
+        const Component = await loadComponent(spec);
+        const variables = spec.props || {};
+        const element = React.createElement(Component, { ...variables, eventBus: serverEventBus, context: { variables, eventBus: serverEventBus } });
+
+        // Rendering runs inside the context too, so a runaway component is cut off by the timeout
+        const context = vm.createContext({ render: () => renderToString(element) });
+        return vm.runInContext('render()', context, { timeout: SSR_TIMEOUT_MS }) as string;
+    } catch (e) {
+        const reason = e instanceof Error ? e.message : String(e);
+        console.warn(`[SSR] MFE ${spec.name} will render on the client: ${reason}`);
+        return null;
+    }
+}
+
+function collectSSRSpecs(nodes: ResolvedNode[], found: MFESpec[] = []): MFESpec[] {
+    for (const node of nodes) {
+        // Shadow-encapsulated MFEs mount into a shadow root on the client, so their markup cannot be hydrated
+        if ((node.type === 'mfe' || node.type === 'outlet') && node.spec?.ssr && node.spec.encapsulation !== 'shadow') found.push(node.spec);
+        if ('children' in node) collectSSRSpecs(node.children, found);
+    }
+    return found;
+}
+
+/**
+ * Server render every opted-in MFE of a resolved tree, in place.
+ * Run after data loading so the markup includes the MFE's data props.
+ */
+export async function renderNodesToHTML(nodes: ResolvedNode[]): Promise<ResolvedNode[]> {
+    await Promise.all(collectSSRSpecs(nodes).map(async spec => {
+        const html = await renderMFEToHTML(spec);
+        if (html !== null) spec.html = html;
+    }));
+    return nodes;
+}
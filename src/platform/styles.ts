@@ -0,0 +1,94 @@
+/**
+ * MFE Stylesheets
+ * Each MFE build emits one stylesheet: the Tailwind utilities its sources
+ * use, followed by the CSS it imports (plain `.css` files and `.module.css`
+ * CSS modules, bundled by esbuild).
+ *
+ * Tailwind is compiled per MFE, so a bundle brings exactly the classes it
+ * uses instead of relying on what the host page happened to generate. The
+ * platform theme tokens (see platform/theme) are declared as references:
+ * `bg-primary` compiles to `var(--color-primary, <default>)` and follows the
+ * blueprint theme of the page, inside shadow roots as well.
+ *
+ * The stylesheet includes Tailwind's preflight so MFEs mounted in a shadow
+ * root (`encapsulation: 'shadow'`) are styled the same as on the page.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+import { compile } from 'tailwindcss';
+import { transform } from 'esbuild';
+import { DEFAULT_THEME } from './theme';
+
+/** Tailwind v4's browser baseline; nesting and other newer syntax is lowered below it */
+const STYLE_TARGETS = ['chrome111', 'edge111', 'firefox128', 'safari16.4'];
+
+const SOURCE_FILE = /\.(m?[jt]sx?|cjs)$/;
+
+const resolveModule = createRequire(import.meta.url).resolve;
+
+/**
+ * Theme tokens the platform defines, declared without emitting variables
+ */
+export function platformThemeCSS(): string {
+    const { colors, typography, radii, spacing } = DEFAULT_THEME;
+    const tokens = [
+        ...Object.entries(colors).map(([name, value]) => `--color-${name}: ${value};`),
+        `--font-sans: ${typography.fontFamily};`,
+        `--font-heading: ${typography.headingFontFamily};`,
+        `--font-mono: ${typography.monoFontFamily};`,
+        ...Object.entries(radii).map(([name, value]) => `--radius-${name}: ${value};`),
+        ...Object.entries(spacing).map(([name, value]) => `--spacing-${name}: ${value};`)
+    ];
+    return `@theme reference {\n${tokens.map(token => `  ${token}`).join('\n')}\n}`;
+}
+
+async function loadStylesheet(id: string, base: string) {
+    const file = id.startsWith('.') ? path.resolve(base, id) : resolveModule(id === 'tailwindcss' ? 'tailwindcss/index.css' : id, { paths: [base] });
+    return { path: file, base: path.dirname(file), content: fs.readFileSync(file, 'utf-8') };
+}
+
+/**
+ * Class name candidates in source text. Tailwind ignores candidates that are
+ * not utilities, so splitting on quotes and whitespace is enough.
+ */
+export function extractCandidates(source: string): string[] {
+    return source.split(/[\s'"`\\]+/).filter(token => token.length > 0 && token.length < 200);
+}
+
+/**
+ * Tailwind utilities used by `sources`, or null when they use none
+ */
+export async function tailwindCSS(sources: string[]): Promise<string | null> {
+    const compiler = await compile(`@import "tailwindcss";\n${platformThemeCSS()}`, {
+        base: process.cwd(),
+        loadStylesheet
+    });
+
+    const candidates = new Set(sources.flatMap(extractCandidates));
+    const baseline = compiler.build([]);
+    const css = compiler.build([...candidates]);
+    return css === baseline ? null : css;
+}
+
+/**
+ * Stylesheet of an MFE build: Tailwind for the source files among `inputs`
+ * (paths as listed in esbuild's metafile), then the bundled CSS imports.
+ * Null when the MFE has no styles.
+ */
+export async function buildStylesheet(inputs: string[], importedCSS: string): Promise<string | null> {
+    const sources = inputs
+        .filter(input => SOURCE_FILE.test(input))
+        .map(input => fs.readFileSync(path.resolve(input), 'utf-8'));
+
+    const utilities = await tailwindCSS(sources);
+    if (!utilities && !importedCSS.trim()) return null;
+
+    const result = await transform(`${utilities ?? ''}\n${importedCSS}`, {
+        loader: 'css',
+        minify: true,
+        target: STYLE_TARGETS
+    });
+    return result.code;
+}
@@ -0,0 +1,93 @@
+/**
+ * Tenant Resolution
+ * Maps an incoming request to the Project that owns it
+ *
+ * Production: `<subdomain>.<TENANT_BASE_DOMAIN>` (e.g. `acme.localhost`)
+ * Development: `?tenant=<subdomain or project id>` when the host carries no tenant
+ */
+
+import { PlatformDB, type Project } from '../db/platform';
+
+const BASE_DOMAIN = (process.env.TENANT_BASE_DOMAIN || 'localhost').toLowerCase();
+const QUERY_PARAM = 'tenant';
+
+export type TenantSource = 'host' | 'query';
+
+export interface TenantResolution {
+    project: Project;
+    source: TenantSource;
+}
+
+/**
+ * Extract the tenant subdomain from a Host header value
+ */
+export function getSubdomain(host: string | null, baseDomain: string = BASE_DOMAIN): string | null {
+    if (!host) return null;
+
+    const hostname = host.toLowerCase().replace(/:\d+$/, '');
+    const suffix = `.${baseDomain}`;
+    if (!hostname.endsWith(suffix)) return null;
+
+    const subdomain = hostname.slice(0, -suffix.length);
+    // Only a single label maps to a project (`a.b.localhost` does not)
+    return /^[a-z0-9-]+$/.test(subdomain) ? subdomain : null;
+}
+
+/**
+ * Whether the `?tenant=` fallback is honoured
+ */
+function isQueryFallbackEnabled(): boolean {
+    return import.meta.env.DEV || process.env.TENANT_QUERY_FALLBACK === 'true';
+}
+
+/**
+ * Resolve the tenant project for a request
+ */
+export function resolveTenant(request: Request, url: URL = new URL(request.url)): TenantResolution | null {
+    const subdomain = getSubdomain(request.headers.get('host') || url.host);
+    if (subdomain) {
+        const project = PlatformDB.getProjectBySubdomain(subdomain);
+        return project ? { project, source: 'host' } : null;
+    }
+
+    const requested = url.searchParams.get(QUERY_PARAM);
+    if (requested && isQueryFallbackEnabled()) {
+        const project = PlatformDB.getProjectBySubdomain(requested) || PlatformDB.getProject(requested);
+        return project ? { project, source: 'query' } : null;
+    }
+
+    return null;
+}
+
+/**
+ * Whether a project-scoped request may touch the given project.
+ * Requests without a resolved tenant (the platform host) are not restricted.
+ */
+export function isTenantAllowed(tenant: Project | undefined, projectId: string | undefined): boolean {
+    return !tenant || tenant.id === projectId;
+}
+
+/**
+ * Registry name of an MFE built by a project. Tenant builds are namespaced so
+ * one project's `Card` never replaces another's (or a platform MFE).
+ */
+export function tenantMFEName(projectId: string, name: string): string {
+    return `${projectId}/${name}`;
+}
+
+/**
+ * The registry as a project sees it: platform MFEs, overlaid by the project's
+ * own builds under their plain names. Other projects' builds are left out;
+ * without a project only platform MFEs remain.
+ */
+export function projectRegistry<R extends { mfes: Record<string, unknown> }>(registry: R, projectId?: string | null): R {
+    const prefix = projectId ? tenantMFEName(projectId, '') : null;
+    const mfes: Record<string, unknown> = {};
+    const own: Record<string, unknown> = {};
+
+    for (const [name, def] of Object.entries(registry.mfes)) {
+        if (!name.includes('/')) mfes[name] = def;
+        else if (prefix && name.startsWith(prefix)) own[name.slice(prefix.length)] = def;
+    }
+    return { ...registry, mfes: { ...mfes, ...own } };
+}
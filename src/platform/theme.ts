@@ -0,0 +1,158 @@
+/**
+ * Blueprint Theming
+ * Resolves the `theme` section of a blueprint against the platform defaults and
+ * exposes it two ways: as CSS variables on the page and as a `theme` prop
+ * passed to every MFE.
+ *
+ * Variable names follow the Tailwind theme namespaces (`--color-*`, `--font-*`,
+ * `--radius-*`, `--spacing-*`), so utilities such as `bg-primary` or
+ * `rounded-md` follow the blueprint theme as well.
+ */
+
+import type { Theme } from '../security/validator';
+import type { MFESpec, ResolvedNode } from './renderer';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ResolvedTheme {
+    mode: 'light' | 'dark' | 'system';
+    colors: Record<string, string>;
+    /** Palette used in dark mode; only differing colors need to be declared */
+    darkColors: Record<string, string>;
+    typography: {
+        fontFamily: string;
+        headingFontFamily: string;
+        monoFontFamily: string;
+        fontSize: string;
+        lineHeight: number;
+    };
+    radii: Record<string, string>;
+    spacing: Record<string, string>;
+}
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+export const DEFAULT_THEME: ResolvedTheme = {
+    mode: 'light',
+    colors: {
+        'primary': '#4f46e5',
+        'primary-foreground': '#ffffff',
+        'secondary': '#0ea5e9',
+        'background': '#ffffff',
+        'foreground': '#111827',
+        'surface': '#f9fafb',
+        'muted': '#6b7280',
+        'border': '#e5e7eb',
+        'success': '#16a34a',
+        'warning': '#d97706',
+        'danger': '#dc2626'
+    },
+    darkColors: {
+        'primary': '#818cf8',
+        'primary-foreground': '#111827',
+        'background': '#0f172a',
+        'foreground': '#f1f5f9',
+        'surface': '#1e293b',
+        'muted': '#94a3b8',
+        'border': '#334155'
+    },
+    typography: {
+        fontFamily: "Inter, system-ui, sans-serif",
+        headingFontFamily: "Inter, system-ui, sans-serif",
+        monoFontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+        fontSize: '16px',
+        lineHeight: 1.5
+    },
+    radii: {
+        'sm': '0.25rem',
+        'md': '0.5rem',
+        'lg': '1rem',
+        'full': '9999px'
+    },
+    spacing: {
+        'xs': '0.25rem',
+        'sm': '0.5rem',
+        'md': '1rem',
+        'lg': '2rem',
+        'xl': '4rem'
+    }
+};
+
+/**
+ * Merge a blueprint theme over the defaults. Declared tokens win; undeclared ones keep their default.
+ */
+export function resolveTheme(theme: Theme | undefined): ResolvedTheme {
+    if (!theme) return DEFAULT_THEME;
+
+    return {
+        mode: theme.mode || DEFAULT_THEME.mode,
+        colors: { ...DEFAULT_THEME.colors, ...theme.colors },
+        darkColors: { ...DEFAULT_THEME.darkColors, ...theme.dark?.colors },
+        typography: { ...DEFAULT_THEME.typography, ...theme.typography },
+        radii: { ...DEFAULT_THEME.radii, ...theme.radii },
+        spacing: { ...DEFAULT_THEME.spacing, ...theme.spacing }
+    };
+}
+
+// ============================================================================
+// CSS Variables
+// ============================================================================
+
+function colorVariables(colors: Record<string, string>): string[] {
+    return Object.entries(colors).map(([name, value]) => `--color-${name}: ${value};`);
+}
+
+/**
+ * Build the page stylesheet for a theme.
+ * Values were validated by ThemeSchema, so they are safe to place in a <style> element.
+ */
+export function themeToCSS(theme: ResolvedTheme): string {
+    const { typography } = theme;
+    const base = [
+        ...colorVariables(theme.mode === 'dark' ? { ...theme.colors, ...theme.darkColors } : theme.colors),
+        `--font-sans: ${typography.fontFamily};`,
+        `--font-heading: ${typography.headingFontFamily};`,
+        `--font-mono: ${typography.monoFontFamily};`,
+        ...Object.entries(theme.radii).map(([name, value]) => `--radius-${name}: ${value};`),
+        ...Object.entries(theme.spacing).map(([name, value]) => `--spacing-${name}: ${value};`),
+        `color-scheme: ${theme.mode === 'system' ? 'light dark' : theme.mode};`,
+        `font-size: ${typography.fontSize};`,
+        `line-height: ${typography.lineHeight};`
+    ];
+
+    const rules = [
+        `:root { ${base.join(' ')} }`,
+        'body { background-color: var(--color-background); color: var(--color-foreground); font-family: var(--font-sans); }',
+        'h1, h2, h3, h4, h5, h6 { font-family: var(--font-heading); }'
+    ];
+
+    if (theme.mode === 'system') {
+        rules.push(`@media (prefers-color-scheme: dark) { :root { ${colorVariables(theme.darkColors).join(' ')} } }`);
+    }
+
+    return rules.join('\n');
+}
+
+// ============================================================================
+// MFE Props
+// ============================================================================
+
+function withTheme(spec: MFESpec, theme: ResolvedTheme): void {
+    spec.props = { ...spec.props, theme };
+    if (spec.fallback?.spec) withTheme(spec.fallback.spec, theme);
+}
+
+/**
+ * Pass the theme to every MFE of a resolved tree as the `theme` prop, in place
+ */
+export function applyTheme(nodes: ResolvedNode[], theme: ResolvedTheme): ResolvedNode[] {
+    for (const node of nodes) {
+        if ((node.type === 'mfe' || node.type === 'outlet') && node.spec) withTheme(node.spec, theme);
+        if ('children' in node) applyTheme(node.children, theme);
+    }
+    return nodes;
+}
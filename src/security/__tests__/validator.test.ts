@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { validateUISchema, UISchemaJSONSchema } from '../validator';
+
+describe('Blueprint UI schema', () => {
+    it('should accept an empty blueprint and a nested tree', () => {
+        expect(validateUISchema({}).success).toBe(true);
+
+        const result = validateUISchema({
+            version: 1,
+            root: {
+                type: 'layout',
+                layout: 'sidebar',
+                children: [
+                    { type: 'region', name: 'sidebar', children: [{ type: 'mfe', name: 'hc-patients' }] },
+                    {
+                        type: 'region',
+                        name: 'content',
+                        children: [
+                            { type: 'heading', text: 'Records', level: 2 },
+                            {
+                                type: 'mfe',
+                                name: 'hc-records',
+                                bindings: { patientId: { source: 'route', path: 'patientId' } }
+                            }
+                        ]
+                    }
+                ]
+            }
+        });
+
+        expect(result.success).toBe(true);
+    });
+
+    it('should report every invalid node with its path', () => {
+        const result = validateUISchema({
+            root: {
+                type: 'layout',
+                layout: 'stack',
+                children: [
+                    { type: 'mfe' },
+                    { type: 'carousel' },
+                    { type: 'text', text: 'ok', colour: 'red' }
+                ]
+            }
+        });
+
+        expect(result.success).toBe(false);
+        if (result.success) return;
+
+        const paths = result.issues.map(i => i.path);
+        expect(paths).toContain('root.children[0].name');
+        expect(paths).toContain('root.children[1].type');
+        expect(paths).toContain('root.children[2]');
+        expect(result.error).toContain('root.children[0].name');
+    });
+
+    it('should reject script URLs in links and images', () => {
+        const tree = (href: string) => validateUISchema({
+            root: { type: 'layout', layout: 'stack', children: [{ type: 'link', text: 'Go', href }, { type: 'image', src: href }] }
+        });
+
+        expect(tree('/patients?ward=A').success).toBe(true);
+        expect(tree('https://example.com').success).toBe(true);
+
+        const result = tree(' JavaScript:alert(1)');
+        expect(result.success).toBe(false);
+        if (result.success) return;
+        expect(result.issues.map(i => i.path)).toEqual(['root.children[0].href', 'root.children[1].src']);
+    });
+
+    it('should validate nested action chains', () => {
+        const valid = validateUISchema({
+            root: {
+                type: 'form',
+                id: 'patient-form',
+                onSubmit: [{
+                    type: 'submitForm',
+                    form: 'patient-form',
+                    function: 'createPatient',
+                    onSuccess: [{ type: 'navigate', to: '/patients/:id', params: { id: { source: 'result', path: 'id' } } }],
+                    onError: [{ type: 'showToast', message: { source: 'result', path: 'error' }, variant: 'error' }]
+                }],
+                children: [
+                    { type: 'input', name: 'name', label: 'Name', required: true },
+                    { type: 'button', text: 'Save' }
+                ]
+            }
+        });
+        expect(valid.success).toBe(true);
+
+        const invalid = validateUISchema({
+            root: { type: 'button', text: 'Leave', onClick: [{ type: 'navigate', to: 'https://evil.example' }] }
+        });
+        expect(invalid.success).toBe(false);
+        if (invalid.success) return;
+        expect(invalid.issues[0].path).toBe('root.onClick[0].to');
+
+        // Browsers read a backslash as a slash and drop tabs, so these leave the origin
+        for (const to of ['//evil.example', '/\\evil.example', '/\t/evil.example']) {
+            expect(validateUISchema({ root: { type: 'button', text: 'Leave', onClick: [{ type: 'navigate', to }] } }).success).toBe(false);
+        }
+    });
+
+    it('should only accept plain CSS values as theme tokens', () => {
+        expect(validateUISchema({
+            theme: { mode: 'system', colors: { primary: '#0f766e', accent: 'hsl(200 80% 50%)' }, radii: { md: '0.75rem' } }
+        }).success).toBe(true);
+
+        const invalid = validateUISchema({
+            theme: { colors: { primary: 'red; } body { display: none' }, typography: { fontFamily: 'x</style><script>' } }
+        });
+        expect(invalid.success).toBe(false);
+        if (invalid.success) return;
+        expect(invalid.issues.map(i => i.path)).toEqual(['theme.colors.primary', 'theme.typography.fontFamily']);
+    });
+
+    it('should validate localized text and the locale configuration', () => {
+        expect(validateUISchema({
+            i18n: { defaultLocale: 'en', locales: ['en', 'ar'] },
+            root: { type: 'heading', text: { $i18n: { en: 'Patients', ar: 'المرضى' } } }
+        }).success).toBe(true);
+
+        const invalid = validateUISchema({
+            i18n: { defaultLocale: 'fr', locales: ['en', 'ar'] },
+            root: { type: 'text', text: { $i18n: { english: 'Hi' } } }
+        });
+        expect(invalid.success).toBe(false);
+        if (invalid.success) return;
+        expect(invalid.issues.map(i => i.path)).toEqual(expect.arrayContaining(['i18n.defaultLocale', 'root.text.$i18n.english']));
+    });
+
+    it('should only accept known permissions and local redirects in access rules', () => {
+        expect(validateUISchema({ access: { roles: ['developer'], permissions: ['project:read'], redirect: '/login' } }).success).toBe(true);
+
+        const invalid = validateUISchema({ access: { permissions: ['everything'], redirect: '//evil.example/login' } });
+        expect(invalid.success).toBe(false);
+        if (invalid.success) return;
+        expect(invalid.issues.map(i => i.path)).toEqual(['access.permissions[0]', 'access.redirect']);
+    });
+
+    it('should export a JSON Schema with the node definition', () => {
+        expect(UISchemaJSONSchema.definitions).toHaveProperty('UISchema');
+        expect(UISchemaJSONSchema.definitions).toHaveProperty('BlueprintNode');
+        expect(UISchemaJSONSchema.definitions).toHaveProperty('Action');
+    });
+});
@@ -277,12 +277,18 @@ export const AuditActions = {
     PROJECT_CREATE: 'project.create',
     PROJECT_UPDATE: 'project.update',
     PROJECT_DELETE: 'project.delete',
+    BLUEPRINT_SAVE: 'blueprint.save',
+    BLUEPRINT_ACTIVATE: 'blueprint.activate',
+    BLUEPRINT_PREVIEW: 'blueprint.preview',
     
     // MFE
     MFE_CREATE: 'mfe.create',
     MFE_UPDATE: 'mfe.update',
     MFE_DELETE: 'mfe.delete',
     MFE_TOGGLE: 'mfe.toggle',
+    MFE_INTEGRITY_FAIL: 'mfe.integrity_fail',
+    MFE_LOAD_FAIL: 'mfe.load_fail',
+    MFE_RUNTIME_ERROR: 'mfe.runtime_error',
     
     // Functions
     FUNCTION_CREATE: 'function.create',
@@ -290,6 +296,17 @@ export const AuditActions = {
     FUNCTION_DELETE: 'function.delete',
     FUNCTION_DEPLOY: 'function.deploy',
     
+    // Routes
+    ROUTE_SAVE: 'route.save',
+    ROUTE_DELETE: 'route.delete',
+
+    // Translations
+    TRANSLATIONS_SAVE: 'translations.save',
+    TRANSLATIONS_DELETE: 'translations.delete',
+
+    // Builds
+    SIZE_BUDGET_SAVE: 'size_budget.save',
+    
     // Releases
     RELEASE_CREATE: 'release.create',
     RELEASE_PROMOTE: 'release.promote',
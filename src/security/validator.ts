@@ -4,6 +4,10 @@
  */
 
 import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { PERMISSIONS } from '../types/auth';
+import { isSafeUrl } from '../platform/bindings';
+import type { AccessRule, EventPayloadSchema, MFEPropSchema, MFEFallback, MFELoadPolicy, TranslationMessages } from '../types';
 
 // ============================================================================
 // Common Schemas
@@ -63,10 +67,82 @@ export const NamespaceSchema = z
     .regex(/^[a-z0-9-]+$/, 'Namespace must contain only lowercase letters, numbers, and hyphens')
     .default('default');
 
+/**
+ * Page access rule for routes, MFEs and blueprints
+ * The redirect must stay on this host, so it cannot be used as an open redirect
+ */
+export const AccessRuleSchema = z.object({
+    roles: z.array(z.string().max(64).regex(/^[a-z0-9_-]+$/, 'Role must contain only lowercase letters, numbers, hyphens, and underscores')).max(20).optional(),
+    permissions: z.array(z.enum(PERMISSIONS)).max(20).optional(),
+    redirect: UrlPathSchema.refine(path => !path.startsWith('//'), 'Redirect must be a path on this host').optional()
+}).strict();
+
 // ============================================================================
 // MFE Schemas
 // ============================================================================
 
+/**
+ * Event payload schema (JSON Schema subset) for MFE manifests
+ */
+export const EventPayloadSchemaSchema: z.ZodType<EventPayloadSchema> = z.lazy(() => z.object({
+    type: z.enum(['string', 'number', 'boolean', 'object', 'array', 'null']).optional(),
+    required: z.array(z.string()).optional(),
+    properties: z.record(EventPayloadSchemaSchema).optional(),
+    items: EventPayloadSchemaSchema.optional(),
+    enum: z.array(z.unknown()).optional()
+}));
+
+/**
+ * MFE event declarations, keyed by event name
+ */
+export const MFEEventsSchema = z.record(
+    z.string().regex(/^[a-zA-Z0-9-_.]+$/, 'Event name must contain only alphanumeric characters, dots, hyphens, and underscores'),
+    EventPayloadSchemaSchema
+);
+
+/**
+ * Configurable MFE prop declaration for manifests
+ */
+export const MFEPropSchemaSchema: z.ZodType<MFEPropSchema> = z.object({
+    type: z.enum(['string', 'number', 'boolean', 'array', 'object']),
+    title: z.string().max(100).optional(),
+    description: z.string().max(500).optional(),
+    enum: z.array(z.union([z.string().max(200), z.number()])).min(1).max(100).optional(),
+    format: z.enum(['multiline', 'color', 'url']).optional(),
+    minimum: z.number().optional(),
+    maximum: z.number().optional(),
+    required: z.boolean().optional(),
+    default: z.unknown().optional()
+}).strict();
+
+/**
+ * MFE prop declarations, keyed by prop name
+ */
+export const MFEPropsSchema = z.record(
+    z.string().max(64).regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/, 'Prop name must be a valid identifier'),
+    MFEPropSchemaSchema
+);
+
+/**
+ * MFE fallback: another registered MFE or static text
+ */
+export const MFEFallbackSchema = z.object({
+    mfe: NameSchema.optional(),
+    text: z.string().max(2000).optional()
+}).strict().refine(
+    (fallback) => Boolean(fallback.mfe) !== Boolean(fallback.text),
+    'Fallback must declare exactly one of mfe or text'
+);
+
+/**
+ * MFE loading policy: retries with exponential backoff and a per-attempt timeout
+ */
+export const MFELoadPolicySchema = z.object({
+    retries: z.number().int().min(0).max(5).optional(),
+    retryDelayMs: z.number().int().min(0).max(30000).optional(),
+    timeoutMs: z.number().int().min(1000).max(60000).optional()
+}).strict();
+
 /**
  * MFE creation schema
  */
@@ -77,6 +153,15 @@ export const CreateMFESchema = z.object({
     description: z.string().max(500).optional(),
     active: z.boolean().optional().default(true),
     variables: z.record(z.unknown()).optional().default({}),
+    events: MFEEventsSchema.optional(),
+    props: MFEPropsSchema.optional(),
+    shared: z.record(z.string().max(214), VersionSchema).optional(),
+    styles: z.string().min(1).max(512).optional(),
+    fallback: MFEFallbackSchema.optional(),
+    loading: MFELoadPolicySchema.optional(),
+    // Honoured for platform bundles (/mfe/) only; tenant builds render on the client (see platform/ssr)
+    ssr: z.boolean().optional(),
+    access: AccessRuleSchema.optional(),
     encapsulation: z.enum(['shadow', 'none']).optional().default('none')
 });
 
@@ -90,6 +175,15 @@ export const UpdateMFESchema = z.object({
     description: z.string().max(500).optional(),
     active: z.boolean().optional(),
     variables: z.record(z.unknown()).optional(),
+    events: MFEEventsSchema.optional(),
+    props: MFEPropsSchema.optional(),
+    shared: z.record(z.string().max(214), VersionSchema).optional(),
+    styles: z.string().min(1).max(512).optional(),
+    fallback: MFEFallbackSchema.optional(),
+    loading: MFELoadPolicySchema.optional(),
+    // Honoured for platform bundles (/mfe/) only; tenant builds render on the client (see platform/ssr)
+    ssr: z.boolean().optional(),
+    access: AccessRuleSchema.optional(),
     encapsulation: z.enum(['shadow', 'none']).optional()
 });
 
@@ -109,6 +203,35 @@ export const BumpVersionSchema = z.object({
     type: z.enum(['major', 'minor', 'patch']).optional().default('patch')
 });
 
+const MAX_FAILURE_DETAILS_BYTES = 8 * 1024;
+
+/**
+ * Client-side MFE failure report schema
+ */
+export const MFEFailureReportSchema = z.object({
+    type: z.enum(['integrity_mismatch', 'load_error', 'load_timeout', 'runtime_error']),
+    mfe: NameSchema,
+    url: z.string().max(2048),
+    version: z.string().max(64).optional(),
+    message: z.string().max(2000),
+    details: z.record(z.unknown())
+        .refine(details => JSON.stringify(details).length <= MAX_FAILURE_DETAILS_BYTES, 'Report details must be at most 8 KB')
+        .optional()
+});
+
+/**
+ * Project bundle size budget schema
+ */
+export const SizeBudgetSchema = z.object({
+    warnBytes: z.number().int().positive().optional(),
+    maxBytes: z.number().int().positive().optional(),
+    warnGrowth: z.number().min(0).max(10).optional(),
+    maxGrowth: z.number().min(0).max(10).optional()
+}).strict().refine(
+    budget => budget.warnBytes === undefined || budget.maxBytes === undefined || budget.warnBytes <= budget.maxBytes,
+    'warnBytes must not exceed maxBytes'
+);
+
 // ============================================================================
 // Function Schemas
 // ============================================================================
@@ -173,6 +296,31 @@ export const CreateRouteSchema = z.object({
     function: NameSchema
 });
 
+/**
+ * SDUI route pattern validation
+ * Static segments, `:param`, trailing `:param?` and a final `*` / `*name` wildcard
+ */
+export const RoutePatternSchema = z
+    .string()
+    .startsWith('/', 'Route pattern must start with /')
+    .max(256, 'Route pattern must be at most 256 characters')
+    .regex(
+        /^(\/([a-zA-Z0-9_.-]+|:[a-zA-Z_][a-zA-Z0-9_]*\??))*(\/\*([a-zA-Z_][a-zA-Z0-9_]*)?)?\/?$/,
+        'Route pattern segments must be static, :param, :param? or a final * wildcard'
+    );
+
+/**
+ * SDUI route definition schema (path pattern -> MFE)
+ */
+export const RouteDefinitionSchema = z.object({
+    pattern: RoutePatternSchema,
+    mfe: NameSchema,
+    priority: z.number().int().min(-1000).max(1000).optional(),
+    variables: z.record(z.unknown()).optional(),
+    query: z.record(z.string().max(64)).optional(),
+    access: AccessRuleSchema.optional()
+});
+
 /**
  * Route delete schema
  */
@@ -201,6 +349,661 @@ export const PromoteReleaseSchema = z.object({
     env: z.enum(['dev', 'staging', 'prod'])
 });
 
+// ============================================================================
+// Theme Schemas
+// ============================================================================
+
+// Token values end up in a <style> element, so they are restricted to plain CSS values
+const ThemeTokenNameSchema = z
+    .string()
+    .regex(/^[a-z][a-z0-9-]{0,31}$/, 'Token name must be lowercase alphanumeric with hyphens');
+
+const ThemeColorSchema = z
+    .string()
+    .max(64)
+    .regex(
+        /^(#[0-9a-fA-F]{3,8}|(rgb|rgba|hsl|hsla|oklch|oklab)\([0-9a-z.,%\s/+-]+\)|[a-zA-Z]+)$/,
+        'Color must be a hex, rgb(), hsl(), oklch() or named color'
+    );
+
+const ThemeLengthSchema = z
+    .string()
+    .max(32)
+    .regex(/^(0|\d*\.?\d+(px|rem|em|%))$/, 'Length must be a number with a px, rem, em or % unit');
+
+const FontFamilySchema = z
+    .string()
+    .max(200)
+    .regex(/^[a-zA-Z0-9 ,'"-]+$/, 'Font family must be a comma-separated list of font names');
+
+const ThemeColorsSchema = z.record(ThemeTokenNameSchema, ThemeColorSchema);
+
+/**
+ * Design tokens of a blueprint, exposed to the page as CSS variables and to MFEs as `theme`
+ */
+export const ThemeSchema = z.object({
+    /** `system` follows the visitor's color scheme preference */
+    mode: z.enum(['light', 'dark', 'system']).optional(),
+    colors: ThemeColorsSchema.optional(),
+    /** Colors that replace `colors` in dark mode */
+    dark: z.object({ colors: ThemeColorsSchema }).strict().optional(),
+    typography: z.object({
+        fontFamily: FontFamilySchema.optional(),
+        headingFontFamily: FontFamilySchema.optional(),
+        monoFontFamily: FontFamilySchema.optional(),
+        fontSize: ThemeLengthSchema.optional(),
+        lineHeight: z.number().min(1).max(3).optional()
+    }).strict().optional(),
+    radii: z.record(ThemeTokenNameSchema, ThemeLengthSchema).optional(),
+    spacing: z.record(ThemeTokenNameSchema, ThemeLengthSchema).optional()
+}).strict();
+
+export type Theme = z.infer<typeof ThemeSchema>;
+
+// ============================================================================
+// Localization Schemas
+// ============================================================================
+
+/**
+ * BCP 47 language tag, e.g. `en`, `ar`, `ar-EG`, `zh-Hant`
+ */
+export const LocaleSchema = z
+    .string()
+    .regex(/^[a-z]{2,3}(-[A-Z][a-zA-Z]{1,3}|-\d{3})?$/, 'Locale must be a language tag such as en, ar or pt-BR');
+
+/**
+ * Inline translations of one value, keyed by locale
+ */
+export interface LocalizedString {
+    $i18n: Record<string, string>;
+}
+
+export type LocalizedText = string | LocalizedString;
+
+export const localizedText = (max: number) => z.union([
+    z.string().max(max),
+    z.object({ $i18n: z.record(LocaleSchema, z.string().max(max)) }).strict()
+]);
+
+const MessageKeySchema = z
+    .string()
+    .regex(/^[a-zA-Z0-9_-]{1,64}$/, 'Message key must contain only alphanumeric characters, hyphens, and underscores');
+
+/**
+ * Translation catalog of one locale; nested groups are read with dotted `messages` bindings
+ */
+export const TranslationMessagesSchema: z.ZodType<TranslationMessages> = z.lazy(() =>
+    z.record(MessageKeySchema, z.union([z.string().max(5000), TranslationMessagesSchema]))
+);
+
+/**
+ * Locales a blueprint is published in
+ */
+export const I18nConfigSchema = z.object({
+    defaultLocale: LocaleSchema,
+    locales: z.array(LocaleSchema).min(1).max(20)
+}).strict().refine(
+    (config) => config.locales.includes(config.defaultLocale),
+    { message: 'defaultLocale must be one of locales', path: ['defaultLocale'] }
+);
+
+export type I18nConfig = z.infer<typeof I18nConfigSchema>;
+
+// ============================================================================
+// Navigation Schemas
+// ============================================================================
+
+/**
+ * Menu entry of the app shell
+ */
+export interface NavigationItem {
+    label: LocalizedText;
+    /** App path, e.g. `/patients`; `:param`s are filled from the current route, or the item is hidden */
+    path: string;
+    /** `prefix` (default) is active on the path and below it, `exact` only on the path itself */
+    match?: 'exact' | 'prefix';
+    /** Route patterns that also make the item active, e.g. `/records/:recordId?` */
+    activeRoutes?: string[];
+    /** Hides the item from visitors the rule does not allow */
+    access?: AccessRule;
+    children?: NavigationItem[];
+}
+
+export const NavigationItemSchema: z.ZodType<NavigationItem> = z.lazy(() => z.object({
+    label: localizedText(80),
+    path: RoutePatternSchema.refine(path => !path.includes('*'), 'Navigation path cannot contain a wildcard'),
+    match: z.enum(['exact', 'prefix']).optional(),
+    activeRoutes: z.array(RoutePatternSchema).max(20).optional(),
+    access: AccessRuleSchema.optional(),
+    children: z.array(NavigationItemSchema).max(50).optional()
+}).strict());
+
+const NavigationMenuSchema = z.array(NavigationItemSchema).max(50);
+
+/**
+ * App shell rendered around every page of a blueprint.
+ * Without a `primary` menu, one is derived from the route table unless `auto` is false.
+ */
+export const NavigationSchema = z.object({
+    layout: z.enum(['sidebar', 'topbar']).optional(),
+    menus: z.object({
+        primary: NavigationMenuSchema.optional(),
+        /** Rendered apart from the primary menu, e.g. account or settings links */
+        secondary: NavigationMenuSchema.optional()
+    }).strict().optional(),
+    auto: z.boolean().optional(),
+    breadcrumbs: z.boolean().optional()
+}).strict();
+
+export type Navigation = z.infer<typeof NavigationSchema>;
+
+/**
+ * JSON Schema for the navigation section (draft-07), for the agents' navigation tool
+ */
+export const NavigationJSONSchema = zodToJsonSchema(NavigationSchema, {
+    name: 'Navigation',
+    definitions: { NavigationItem: NavigationItemSchema }
+});
+
+// ============================================================================
+// Blueprint Schemas
+// ============================================================================
+
+/**
+ * Data binding
+ * Resolves a node field from the render context instead of a literal value.
+ * `event` and `result` are only available to actions; `messages` reads the
+ * project translation catalog of the page locale.
+ */
+export const DataBindingSchema = z.object({
+    source: z.enum(['route', 'query', 'data', 'state', 'item', 'event', 'result', 'messages']),
+    path: z
+        .string()
+        .min(1, 'Binding path is required')
+        .max(256)
+        .regex(/^[a-zA-Z0-9_$-]+(\.[a-zA-Z0-9_$-]+)*$/, 'Binding path must be a dotted property path'),
+    default: z.unknown().optional()
+}).strict();
+
+export type DataBinding = z.infer<typeof DataBindingSchema>;
+
+/**
+ * Repeat directive
+ * Renders a node once per item of a bound array
+ */
+export const RepeatSchema = z.object({
+    source: DataBindingSchema,
+    key: z.string().max(64).optional()
+}).strict();
+
+export type RepeatDirective = z.infer<typeof RepeatSchema>;
+
+const SQLIdentifierSchema = z
+    .string()
+    .max(64)
+    .regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/, 'Identifier must contain only alphanumeric characters and underscores');
+
+/**
+ * Data source parameter: a literal or a binding resolved at render time
+ */
+export const DataParamSchema = z.union([
+    DataBindingSchema,
+    z.string().max(1000),
+    z.number(),
+    z.boolean(),
+    z.null()
+]);
+
+/**
+ * Data source
+ * Read-only data resolved on the server before render: a tenant backend
+ * function (GET only) or rows of a tenant table
+ */
+export const DataSourceSchema = z.discriminatedUnion('kind', [
+    z.object({
+        kind: z.literal('function'),
+        name: NameSchema,
+        params: z.record(DataParamSchema).optional()
+    }).strict(),
+    z.object({
+        kind: z.literal('table'),
+        table: SQLIdentifierSchema,
+        where: z.record(SQLIdentifierSchema, DataParamSchema).optional(),
+        orderBy: z.object({
+            column: SQLIdentifierSchema,
+            direction: z.enum(['asc', 'desc']).optional()
+        }).strict().optional(),
+        limit: z.number().int().min(1).max(500).optional()
+    }).strict()
+]);
+
+export type DataParam = z.infer<typeof DataParamSchema>;
+export type DataSource = z.infer<typeof DataSourceSchema>;
+
+const DataSourcesSchema = z.record(
+    z.string().regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/, 'Data source key must be a valid identifier'),
+    DataSourceSchema
+);
+
+interface ActionBranches {
+    /** Runs with the action result bound to `result` */
+    onSuccess?: Action[];
+    /** Runs with `{ error }` bound to `result`; the rest of the chain is skipped */
+    onError?: Action[];
+}
+
+export interface NavigateAction extends ActionBranches {
+    type: 'navigate';
+    /** Path with optional `:param` placeholders; unused params become the query string */
+    to: string;
+    params?: Record<string, DataParam>;
+    replace?: boolean;
+}
+
+export interface CallFunctionAction extends ActionBranches {
+    type: 'callFunction';
+    name: string;
+    method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+    params?: Record<string, DataParam>;
+    /** Store the result in host state under this key */
+    assign?: string;
+}
+
+export interface SubmitFormAction extends ActionBranches {
+    type: 'submitForm';
+    /** Id of the form node whose fields are submitted */
+    form: string;
+    function: string;
+    method?: 'POST' | 'PUT';
+    assign?: string;
+}
+
+export interface SetStateAction extends ActionBranches {
+    type: 'setState';
+    key: string;
+    value: DataParam;
+}
+
+export interface EmitEventAction extends ActionBranches {
+    type: 'emitEvent';
+    /** Event name, published on the host event bus as `app:<event>` */
+    event: string;
+    payload?: Record<string, DataParam>;
+}
+
+export interface ShowToastAction extends ActionBranches {
+    type: 'showToast';
+    message: string | DataBinding;
+    variant?: 'info' | 'success' | 'error';
+}
+
+export type Action =
+    | NavigateAction
+    | CallFunctionAction
+    | SubmitFormAction
+    | SetStateAction
+    | EmitEventAction
+    | ShowToastAction;
+
+const StateKeySchema = z
+    .string()
+    .max(64)
+    .regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/, 'State key must be a valid identifier');
+
+const SAME_ORIGIN_BASE = 'http://same-origin.invalid';
+
+/**
+ * Whether a navigation target stays on the page's origin, as the browser
+ * parses it: `/\evil.com` and `/<tab>/evil.com` resolve to another host
+ */
+function isSameOriginPath(to: string): boolean {
+    if (!to.startsWith('/')) return false;
+    try {
+        return new URL(to, SAME_ORIGIN_BASE).origin === SAME_ORIGIN_BASE;
+    } catch {
+        return false;
+    }
+}
+
+const actionsSchema = z.array(z.lazy(() => ActionSchema)).max(20, 'An action chain may have at most 20 actions');
+
+const actionBranches = {
+    onSuccess: actionsSchema.optional(),
+    onError: actionsSchema.optional()
+};
+
+/**
+ * Action
+ * Declarative interaction run by the host, chainable through success and failure branches
+ */
+export const ActionSchema: z.ZodType<Action> = z.lazy(() => z.discriminatedUnion('type', [
+    z.object({
+        ...actionBranches,
+        type: z.literal('navigate'),
+        to: z.string().min(1).max(2048).refine(isSameOriginPath, 'Navigation target must be a same-origin path'),
+        params: z.record(DataParamSchema).optional(),
+        replace: z.boolean().optional()
+    }).strict(),
+    z.object({
+        ...actionBranches,
+        type: z.literal('callFunction'),
+        name: NameSchema,
+        method: z.enum(['GET', 'POST', 'PUT', 'DELETE']).optional(),
+        params: z.record(DataParamSchema).optional(),
+        assign: StateKeySchema.optional()
+    }).strict(),
+    z.object({
+        ...actionBranches,
+        type: z.literal('submitForm'),
+        form: NameSchema,
+        function: NameSchema,
+        method: z.enum(['POST', 'PUT']).optional(),
+        assign: StateKeySchema.optional()
+    }).strict(),
+    z.object({
+        ...actionBranches,
+        type: z.literal('setState'),
+        key: StateKeySchema,
+        value: DataParamSchema
+    }).strict(),
+    z.object({
+        ...actionBranches,
+        type: z.literal('emitEvent'),
+        event: z.string().max(64).regex(/^[a-zA-Z0-9-_.]+$/, 'Event name must contain only alphanumeric characters, dots, hyphens, and underscores'),
+        payload: z.record(DataParamSchema).optional()
+    }).strict(),
+    z.object({
+        ...actionBranches,
+        type: z.literal('showToast'),
+        message: z.union([z.string().max(500), DataBindingSchema]),
+        variant: z.enum(['info', 'success', 'error']).optional()
+    }).strict()
+]));
+
+interface BlueprintNodeBase {
+    id?: string;
+    className?: string;
+    bindings?: Record<string, DataBinding>;
+}
+
+export interface LayoutNode extends BlueprintNodeBase {
+    type: 'layout';
+    layout: 'stack' | 'row' | 'grid' | 'sidebar';
+    columns?: number;
+    gap?: 'none' | 'sm' | 'md' | 'lg';
+    children: BlueprintNode[];
+}
+
+export interface RegionNode extends BlueprintNodeBase {
+    type: 'region';
+    name: string;
+    children: BlueprintNode[];
+}
+
+export interface MFENode extends BlueprintNodeBase {
+    type: 'mfe';
+    name: string;
+    variables?: Record<string, unknown>;
+    repeat?: RepeatDirective;
+    /** Overrides the registry fallback for this slot */
+    fallback?: MFEFallback;
+    /** Overrides the registry loading policy for this slot */
+    loading?: MFELoadPolicy;
+    /** Overrides the registry SSR setting for this slot */
+    ssr?: boolean;
+    /** Sources resolved on the server and passed to the MFE as props of the same name */
+    data?: Record<string, DataSource>;
+    /** Actions run when this MFE emits the keyed event; the payload is bound to `event` */
+    on?: Record<string, Action[]>;
+}
+
+export interface OutletNode extends BlueprintNodeBase {
+    type: 'outlet';
+}
+
+export interface TextNode extends BlueprintNodeBase {
+    type: 'text';
+    text: LocalizedText;
+}
+
+export interface HeadingNode extends BlueprintNodeBase {
+    type: 'heading';
+    text: LocalizedText;
+    level?: 1 | 2 | 3 | 4 | 5 | 6;
+}
+
+export interface ImageNode extends BlueprintNodeBase {
+    type: 'image';
+    src: string;
+    alt?: LocalizedText;
+}
+
+export interface LinkNode extends BlueprintNodeBase {
+    type: 'link';
+    href: string;
+    text: LocalizedText;
+}
+
+export interface ButtonNode extends BlueprintNodeBase {
+    type: 'button';
+    text: LocalizedText;
+    onClick?: Action[];
+}
+
+export interface FormNode extends BlueprintNodeBase {
+    type: 'form';
+    children: BlueprintNode[];
+    /** Runs with the field values bound to `event` */
+    onSubmit?: Action[];
+}
+
+export interface InputNode extends BlueprintNodeBase {
+    type: 'input';
+    name: string;
+    label?: LocalizedText;
+    inputType?: 'text' | 'email' | 'number' | 'date' | 'password' | 'textarea' | 'checkbox';
+    placeholder?: LocalizedText;
+    required?: boolean;
+    defaultValue?: string;
+}
+
+export interface DividerNode extends BlueprintNodeBase {
+    type: 'divider';
+}
+
+export type BlueprintNode =
+    | LayoutNode
+    | RegionNode
+    | MFENode
+    | OutletNode
+    | TextNode
+    | HeadingNode
+    | ImageNode
+    | LinkNode
+    | ButtonNode
+    | FormNode
+    | InputNode
+    | DividerNode;
+
+export type BlueprintNodeType = BlueprintNode['type'];
+
+const nodeBase = {
+    id: NameSchema.optional(),
+    className: z.string().max(512).optional(),
+    bindings: z.record(DataBindingSchema).optional()
+};
+
+const childrenSchema = z.array(z.lazy(() => BlueprintNodeSchema)).max(200, 'A node may have at most 200 children');
+
+/**
+ * Blueprint node
+ * One element of the SDUI tree: containers, MFE slots and static primitives
+ */
+export const BlueprintNodeSchema: z.ZodType<BlueprintNode> = z.lazy(() => z.discriminatedUnion('type', [
+    z.object({
+        ...nodeBase,
+        type: z.literal('layout'),
+        layout: z.enum(['stack', 'row', 'grid', 'sidebar']),
+        columns: z.number().int().min(1).max(12).optional(),
+        gap: z.enum(['none', 'sm', 'md', 'lg']).optional(),
+        children: childrenSchema
+    }).strict(),
+    z.object({
+        ...nodeBase,
+        type: z.literal('region'),
+        name: NameSchema,
+        children: childrenSchema
+    }).strict(),
+    z.object({
+        ...nodeBase,
+        type: z.literal('mfe'),
+        name: NameSchema,
+        variables: z.record(z.unknown()).optional(),
+        repeat: RepeatSchema.optional(),
+        fallback: MFEFallbackSchema.optional(),
+        loading: MFELoadPolicySchema.optional(),
+        ssr: z.boolean().optional(),
+        data: DataSourcesSchema.optional(),
+        on: z.record(z.string().max(64).regex(/^[a-zA-Z0-9-_.]+$/, 'Event name must contain only alphanumeric characters, dots, hyphens, and underscores'), actionsSchema).optional()
+    }).strict(),
+    z.object({
+        ...nodeBase,
+        type: z.literal('outlet')
+    }).strict(),
+    z.object({
+        ...nodeBase,
+        type: z.literal('text'),
+        text: localizedText(10000)
+    }).strict(),
+    z.object({
+        ...nodeBase,
+        type: z.literal('heading'),
+        text: localizedText(500),
+        level: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4), z.literal(5), z.literal(6)]).optional()
+    }).strict(),
+    z.object({
+        ...nodeBase,
+        type: z.literal('image'),
+        src: z.string().min(1, 'Image src is required').max(2048).refine(isSafeUrl, 'Image src must be a relative or http(s) URL'),
+        alt: localizedText(500).optional()
+    }).strict(),
+    z.object({
+        ...nodeBase,
+        type: z.literal('link'),
+        href: z.string().min(1, 'Link href is required').max(2048).refine(isSafeUrl, 'Link href must be a relative, http(s), mailto or tel URL'),
+        text: localizedText(500)
+    }).strict(),
+    z.object({
+        ...nodeBase,
+        type: z.literal('button'),
+        text: localizedText(500),
+        onClick: actionsSchema.optional()
+    }).strict(),
+    z.object({
+        ...nodeBase,
+        type: z.literal('form'),
+        children: childrenSchema,
+        onSubmit: actionsSchema.optional()
+    }).strict(),
+    z.object({
+        ...nodeBase,
+        type: z.literal('input'),
+        name: SQLIdentifierSchema,
+        label: localizedText(200).optional(),
+        inputType: z.enum(['text', 'email', 'number', 'date', 'password', 'textarea', 'checkbox']).optional(),
+        placeholder: localizedText(200).optional(),
+        required: z.boolean().optional(),
+        defaultValue: z.string().max(10000).optional()
+    }).strict(),
+    z.object({
+        ...nodeBase,
+        type: z.literal('divider')
+    }).strict()
+]));
+
+/**
+ * Blueprint UI schema
+ * The persisted `ui_schema` of a blueprint. An empty object is a blueprint without a layout yet.
+ */
+export const UISchemaSchema = z.object({
+    version: z.literal(1).optional(),
+    /** Page-level sources, readable by every node through `data` bindings */
+    data: DataSourcesSchema.optional(),
+    theme: ThemeSchema.optional(),
+    i18n: I18nConfigSchema.optional(),
+    navigation: NavigationSchema.optional(),
+    /** Applies to every page of the app, on top of route and MFE rules */
+    access: AccessRuleSchema.optional(),
+    root: BlueprintNodeSchema.optional()
+}).strict();
+
+export type UISchema = z.infer<typeof UISchemaSchema>;
+
+/**
+ * JSON Schema for blueprint UI schemas (draft-07)
+ * Shared with the agents' tool definitions and external tooling
+ */
+export const UISchemaJSONSchema = zodToJsonSchema(UISchemaSchema, {
+    name: 'UISchema',
+    definitions: { BlueprintNode: BlueprintNodeSchema, Action: ActionSchema, NavigationItem: NavigationItemSchema }
+});
+
+/**
+ * Blueprint validation issue, located by node path (e.g. `root.children[2].name`)
+ */
+export interface BlueprintIssue {
+    path: string;
+    message: string;
+}
+
+export type BlueprintValidationResult =
+    | { success: true; data: UISchema }
+    | { success: false; error: string; issues: BlueprintIssue[] };
+
+/**
+ * Format a Zod issue path as a node path
+ */
+function formatIssuePath(path: (string | number)[]): string {
+    return path.reduce<string>((acc, segment) => {
+        if (typeof segment === 'number') return `${acc}[${segment}]`;
+        return acc ? `${acc}.${segment}` : segment;
+    }, '') || '(root)';
+}
+
+/**
+ * Validate a blueprint UI schema, reporting every invalid node
+ */
+export function validateUISchema(uiSchema: unknown): BlueprintValidationResult {
+    const result = UISchemaSchema.safeParse(uiSchema);
+    if (result.success) {
+        return { success: true, data: result.data };
+    }
+
+    const issues = result.error.issues.map(issue => ({
+        path: formatIssuePath(issue.path),
+        message: issue.message
+    }));
+
+    return {
+        success: false,
+        error: `Invalid blueprint: ${issues.map(i => `${i.path}: ${i.message}`).join('; ')}`,
+        issues
+    };
+}
+
+/**
+ * Thrown when a blueprint UI schema fails validation on save
+ */
+export class BlueprintValidationError extends Error {
+    public readonly issues: BlueprintIssue[];
+
+    constructor(message: string, issues: BlueprintIssue[]) {
+        super(message);
+        this.name = 'BlueprintValidationError';
+        this.issues = issues;
+    }
+}
+
 // ============================================================================
 // Agent Schemas
 // ============================================================================
@@ -282,6 +1085,7 @@ export const validators = {
     updateMFE: createValidator(UpdateMFESchema),
     toggleMFE: createValidator(ToggleMFESchema),
     bumpVersion: createValidator(BumpVersionSchema),
+    mfeFailureReport: createValidator(MFEFailureReportSchema),
     createFunction: createValidator(CreateFunctionSchema),
     updateFunction: createValidator(UpdateFunctionSchema),
     testFunction: createValidator(TestFunctionSchema),
@@ -289,6 +1093,7 @@ export const validators = {
     deleteRoute: createValidator(DeleteRouteSchema),
     createRelease: createValidator(CreateReleaseSchema),
     promoteRelease: createValidator(PromoteReleaseSchema),
+    uiSchema: createValidator(UISchemaSchema),
     agentRequest: createValidator(AgentRequestSchema),
     createEnv: createValidator(CreateEnvSchema)
 };
@@ -0,0 +1,56 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { projectService } from '../project.service';
+import { PlatformDB } from '../../db/platform';
+import { initTenantDB } from '../../db/tenant';
+
+vi.mock('../../security/audit', () => ({ auditLog: vi.fn(), AuditActions: {} }));
+
+vi.mock('../../db/platform', () => ({
+    PlatformDB: {
+        getBlueprint: vi.fn(),
+        getActiveBlueprint: vi.fn(),
+        getLatestBlueprint: vi.fn(),
+        activateBlueprint: vi.fn(() => ({ version: 2 })),
+        saveBlueprint: vi.fn(() => ({ version: 3, status: 'published' }))
+    }
+}));
+
+vi.mock('../../db/tenant', () => ({
+    initTenantDB: vi.fn(() => ({ close: vi.fn() }))
+}));
+
+const dataSchema = { tables: [{ name: 'patients', columns: [{ name: 'name', type: 'TEXT' }] }] };
+
+describe('Blueprint publishing', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should create the tables of a version before activating it', async () => {
+        vi.mocked(PlatformDB.getBlueprint).mockReturnValue({ version: 2, data_schema: JSON.stringify(dataSchema) } as any);
+
+        expect(await projectService.activateBlueprint({ projectId: 'p1', version: 2 })).toMatchObject({ success: true });
+        expect(initTenantDB).toHaveBeenCalledWith('p1', dataSchema);
+        expect(vi.mocked(initTenantDB).mock.invocationCallOrder[0])
+            .toBeLessThan(vi.mocked(PlatformDB.activateBlueprint).mock.invocationCallOrder[0]);
+    });
+
+    it('should not activate a version whose tables cannot be created', async () => {
+        vi.mocked(PlatformDB.getBlueprint).mockReturnValue({ version: 2, data_schema: JSON.stringify(dataSchema) } as any);
+        vi.mocked(initTenantDB).mockImplementationOnce(() => {
+            throw new Error('Invalid table name');
+        });
+
+        expect(await projectService.activateBlueprint({ projectId: 'p1', version: 2 })).toMatchObject({ success: false });
+        expect(PlatformDB.activateBlueprint).not.toHaveBeenCalled();
+    });
+
+    it('should create the tables only for blueprints saved as published', async () => {
+        await projectService.saveBlueprint({ projectId: 'p1', uiSchema: {}, dataSchema });
+        expect(initTenantDB).not.toHaveBeenCalled();
+
+        await projectService.saveBlueprint({ projectId: 'p1', uiSchema: {}, dataSchema, publish: true });
+        expect(initTenantDB).toHaveBeenCalledWith('p1', dataSchema);
+    });
+});
@@ -3,11 +3,16 @@
  * Business logic for project management
  */
 
+import path from 'path';
 import { PlatformDB } from '../db/platform';
 import { FileSystem } from '../db/fs';
-import { validateBody, ProjectIdSchema } from '../security/validator';
+import { initTenantDB } from '../db/tenant';
+import { validateBody, validateUISchema, ProjectIdSchema, RouteDefinitionSchema, RoutePatternSchema, LocaleSchema, TranslationMessagesSchema, NameSchema, SizeBudgetSchema } from '../security/validator';
 import { auditLog, AuditActions } from '../security/audit';
-import type { Project, Blueprint, FunctionDef, APIResponse } from '../types';
+import { diffJSON, type BlueprintDiff } from '../platform/blueprint-diff';
+import { signPreviewToken, PREVIEW_TTL, MAX_PREVIEW_TTL } from '../auth/preview';
+import { DEFAULT_SIZE_BUDGET, listManifests } from '../platform/build-manifest';
+import type { Project, Blueprint, BlueprintVersion, BuildManifest, FunctionDef, ProjectRoute, SizeBudget, TranslationCatalog, APIResponse } from '../types';
 import { z } from 'zod';
 
 // ============================================================================
@@ -22,9 +27,76 @@ const CreateProjectSchema = z.object({
 const SaveBlueprintSchema = z.object({
     projectId: ProjectIdSchema,
     uiSchema: z.record(z.unknown()),
-    dataSchema: z.record(z.unknown())
+    /** Defaults to the data schema of the newest version */
+    dataSchema: z.record(z.unknown()).optional(),
+    /** Publish immediately instead of saving a draft */
+    publish: z.boolean().optional().default(false)
 });
 
+const BlueprintVersionSchema = z.coerce.number().int().min(1);
+
+const DiffBlueprintsSchema = z.object({
+    projectId: ProjectIdSchema,
+    from: BlueprintVersionSchema,
+    /** Defaults to the active version */
+    to: BlueprintVersionSchema.optional()
+});
+
+const ActivateBlueprintSchema = z.object({
+    projectId: ProjectIdSchema,
+    version: BlueprintVersionSchema
+});
+
+const PreviewLinkSchema = ActivateBlueprintSchema.extend({
+    /** Link lifetime in seconds */
+    expiresIn: z.number().int().min(60).max(MAX_PREVIEW_TTL).optional().default(PREVIEW_TTL)
+});
+
+export interface PreviewLink {
+    token: string;
+    url: string;
+    expiresAt: string;
+}
+
+const SaveRouteSchema = RouteDefinitionSchema.extend({
+    projectId: ProjectIdSchema
+});
+
+const DeleteRouteSchema = z.object({
+    projectId: ProjectIdSchema,
+    pattern: RoutePatternSchema
+});
+
+const SaveTranslationsSchema = z.object({
+    projectId: ProjectIdSchema,
+    locale: LocaleSchema,
+    messages: TranslationMessagesSchema
+});
+
+const DeleteTranslationsSchema = z.object({
+    projectId: ProjectIdSchema,
+    locale: LocaleSchema
+});
+
+const ListBuildsSchema = z.object({
+    projectId: ProjectIdSchema,
+    /** Every kept build of one MFE instead of the latest build of each */
+    component: NameSchema.optional()
+});
+
+const SaveSizeBudgetSchema = z.object({
+    projectId: ProjectIdSchema,
+    /** null restores the platform default */
+    budget: SizeBudgetSchema.nullable()
+});
+
+export interface ProjectBuilds {
+    budget: SizeBudget;
+    /** Whether the project sets its own budget rather than using the default */
+    customBudget: boolean;
+    builds: BuildManifest[];
+}
+
 // ============================================================================
 // Project Service Class
 // ============================================================================
@@ -130,7 +202,7 @@ export class ProjectService {
     }
 
     /**
-     * Save a blueprint for a project
+     * Save a blueprint for a project (a draft unless `publish` is set)
      */
     async saveBlueprint(data: unknown, userId?: string): Promise<APIResponse<Blueprint>> {
         const validation = await validateBody(SaveBlueprintSchema, data);
@@ -138,19 +210,33 @@ export class ProjectService {
             return { success: false, error: validation.error };
         }
 
+        // Report every invalid node, not just the first
+        const uiValidation = validateUISchema(validation.data.uiSchema);
+        if (!uiValidation.success) {
+            return { success: false, error: uiValidation.error };
+        }
+
         try {
+            const latest = validation.data.dataSchema ? undefined : PlatformDB.getLatestBlueprint(validation.data.projectId);
+            const dataSchema = validation.data.dataSchema || (latest ? JSON.parse(latest.data_schema) : {});
+            if (validation.data.publish) {
+                // The tables of a published version must exist before its pages query them
+                initTenantDB(validation.data.projectId, dataSchema).close();
+            }
             const blueprint = PlatformDB.saveBlueprint(
                 validation.data.projectId,
                 validation.data.uiSchema,
-                validation.data.dataSchema
+                dataSchema,
+                userId,
+                { publish: validation.data.publish }
             );
 
             await auditLog({
-                action: AuditActions.PROJECT_UPDATE,
+                action: AuditActions.BLUEPRINT_SAVE,
                 userId,
                 resource: `project:${validation.data.projectId}`,
                 success: true,
-                metadata: { blueprintVersion: blueprint.version }
+                metadata: { blueprintVersion: blueprint.version, status: blueprint.status }
             });
 
             return { success: true, data: blueprint };
@@ -160,6 +246,148 @@ export class ProjectService {
         }
     }
 
+    /**
+     * List the blueprint versions of a project, newest first
+     */
+    async listBlueprints(projectId: string): Promise<APIResponse<BlueprintVersion[]>> {
+        try {
+            const validation = await validateBody(ProjectIdSchema, projectId);
+            if (!validation.success) {
+                return { success: false, error: validation.error };
+            }
+
+            return { success: true, data: PlatformDB.listBlueprints(projectId) };
+        } catch (e: unknown) {
+            const error = e instanceof Error ? e.message : 'Failed to list blueprints';
+            return { success: false, error };
+        }
+    }
+
+    /**
+     * Structural diff of ui_schema and data_schema between two blueprint versions
+     */
+    async diffBlueprints(data: unknown): Promise<APIResponse<BlueprintDiff>> {
+        const validation = await validateBody(DiffBlueprintsSchema, data);
+        if (!validation.success) {
+            return { success: false, error: validation.error };
+        }
+
+        try {
+            const { projectId, from } = validation.data;
+            const before = PlatformDB.getBlueprint(projectId, from);
+            const after = validation.data.to
+                ? PlatformDB.getBlueprint(projectId, validation.data.to)
+                : PlatformDB.getActiveBlueprint(projectId);
+
+            if (!before || !after) {
+                return { success: false, error: 'Blueprint not found' };
+            }
+
+            return {
+                success: true,
+                data: {
+                    from: before.version,
+                    to: after.version,
+                    uiSchema: diffJSON(JSON.parse(before.ui_schema), JSON.parse(after.ui_schema)),
+                    dataSchema: diffJSON(JSON.parse(before.data_schema), JSON.parse(after.data_schema))
+                }
+            };
+        } catch (e: unknown) {
+            const error = e instanceof Error ? e.message : 'Failed to diff blueprints';
+            return { success: false, error };
+        }
+    }
+
+    /**
+     * Make an earlier (or later) blueprint version the active one
+     */
+    async activateBlueprint(data: unknown, userId?: string): Promise<APIResponse<Blueprint>> {
+        const validation = await validateBody(ActivateBlueprintSchema, data);
+        if (!validation.success) {
+            return { success: false, error: validation.error };
+        }
+
+        const { projectId, version } = validation.data;
+
+        try {
+            const target = PlatformDB.getBlueprint(projectId, version);
+            if (!target) {
+                return { success: false, error: 'Blueprint not found' };
+            }
+
+            // Create the version's tables before its pages can query them
+            initTenantDB(projectId, JSON.parse(target.data_schema)).close();
+
+            const previous = PlatformDB.getActiveBlueprint(projectId);
+            const blueprint = PlatformDB.activateBlueprint(projectId, version, userId);
+            if (!blueprint) {
+                return { success: false, error: 'Blueprint not found' };
+            }
+
+            await auditLog({
+                action: AuditActions.BLUEPRINT_ACTIVATE,
+                userId,
+                resource: `project:${projectId}`,
+                success: true,
+                metadata: { fromVersion: previous?.version, toVersion: version }
+            });
+
+            return { success: true, data: blueprint };
+        } catch (e: unknown) {
+            const error = e instanceof Error ? e.message : 'Failed to activate blueprint';
+
+            await auditLog({
+                action: AuditActions.BLUEPRINT_ACTIVATE,
+                userId,
+                resource: `project:${projectId}`,
+                success: false,
+                metadata: { toVersion: version, error }
+            });
+
+            return { success: false, error };
+        }
+    }
+
+    /**
+     * Create a signed, expiring link that renders the app with a given blueprint version
+     */
+    async createPreviewLink(data: unknown, userId?: string): Promise<APIResponse<PreviewLink>> {
+        const validation = await validateBody(PreviewLinkSchema, data);
+        if (!validation.success) {
+            return { success: false, error: validation.error };
+        }
+
+        const { projectId, version, expiresIn = PREVIEW_TTL } = validation.data;
+
+        try {
+            if (!PlatformDB.getBlueprint(projectId, version)) {
+                return { success: false, error: 'Blueprint not found' };
+            }
+
+            const token = signPreviewToken({ projectId, version, sub: userId }, expiresIn);
+
+            await auditLog({
+                action: AuditActions.BLUEPRINT_PREVIEW,
+                userId,
+                resource: `project:${projectId}`,
+                success: true,
+                metadata: { version, expiresIn }
+            });
+
+            return {
+                success: true,
+                data: {
+                    token,
+                    url: `/app/?preview=${token}`,
+                    expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString()
+                }
+            };
+        } catch (e: unknown) {
+            const error = e instanceof Error ? e.message : 'Failed to create preview link';
+            return { success: false, error };
+        }
+    }
+
     /**
      * Get functions for a project
      */
@@ -178,6 +406,228 @@ export class ProjectService {
         }
     }
 
+    /**
+     * List the route table of a project
+     */
+    async listRoutes(projectId: string): Promise<APIResponse<ProjectRoute[]>> {
+        try {
+            const validation = await validateBody(ProjectIdSchema, projectId);
+            if (!validation.success) {
+                return { success: false, error: validation.error };
+            }
+
+            const routes = PlatformDB.getRoutes(projectId);
+            return { success: true, data: routes };
+        } catch (e: unknown) {
+            const error = e instanceof Error ? e.message : 'Failed to list routes';
+            return { success: false, error };
+        }
+    }
+
+    /**
+     * Create or update a route (keyed by pattern) in a project route table
+     */
+    async saveRoute(data: unknown, userId?: string): Promise<APIResponse<ProjectRoute>> {
+        const validation = await validateBody(SaveRouteSchema, data);
+        if (!validation.success) {
+            return { success: false, error: validation.error };
+        }
+
+        const { projectId, ...route } = validation.data;
+
+        try {
+            if (!PlatformDB.getProject(projectId)) {
+                return { success: false, error: 'Project not found' };
+            }
+
+            const saved = PlatformDB.saveRoute(projectId, route);
+
+            await auditLog({
+                action: AuditActions.ROUTE_SAVE,
+                userId,
+                resource: `project:${projectId}:route:${route.pattern}`,
+                success: true,
+                metadata: { mfe: route.mfe }
+            });
+
+            return { success: true, data: saved };
+        } catch (e: unknown) {
+            const error = e instanceof Error ? e.message : 'Failed to save route';
+            return { success: false, error };
+        }
+    }
+
+    /**
+     * Delete a route from a project route table
+     */
+    async deleteRoute(data: unknown, userId?: string): Promise<APIResponse<boolean>> {
+        const validation = await validateBody(DeleteRouteSchema, data);
+        if (!validation.success) {
+            return { success: false, error: validation.error };
+        }
+
+        try {
+            const { projectId, pattern } = validation.data;
+            const deleted = PlatformDB.deleteRoute(projectId, pattern);
+            if (!deleted) {
+                return { success: false, error: 'Route not found' };
+            }
+
+            await auditLog({
+                action: AuditActions.ROUTE_DELETE,
+                userId,
+                resource: `project:${projectId}:route:${pattern}`,
+                success: true
+            });
+
+            return { success: true, data: true };
+        } catch (e: unknown) {
+            const error = e instanceof Error ? e.message : 'Failed to delete route';
+            return { success: false, error };
+        }
+    }
+
+    /**
+     * List the translation catalogs of a project, one per locale
+     */
+    async listTranslations(projectId: string): Promise<APIResponse<TranslationCatalog[]>> {
+        try {
+            const validation = await validateBody(ProjectIdSchema, projectId);
+            if (!validation.success) {
+                return { success: false, error: validation.error };
+            }
+
+            return { success: true, data: PlatformDB.getTranslations(projectId) };
+        } catch (e: unknown) {
+            const error = e instanceof Error ? e.message : 'Failed to list translations';
+            return { success: false, error };
+        }
+    }
+
+    /**
+     * Create or replace the translation catalog of one locale
+     */
+    async saveTranslations(data: unknown, userId?: string): Promise<APIResponse<TranslationCatalog>> {
+        const validation = await validateBody(SaveTranslationsSchema, data);
+        if (!validation.success) {
+            return { success: false, error: validation.error };
+        }
+
+        const { projectId, locale, messages } = validation.data;
+
+        try {
+            if (!PlatformDB.getProject(projectId)) {
+                return { success: false, error: 'Project not found' };
+            }
+
+            const saved = PlatformDB.saveTranslations(projectId, locale, messages, userId);
+
+            await auditLog({
+                action: AuditActions.TRANSLATIONS_SAVE,
+                userId,
+                resource: `project:${projectId}:translations:${locale}`,
+                success: true
+            });
+
+            return { success: true, data: saved };
+        } catch (e: unknown) {
+            const error = e instanceof Error ? e.message : 'Failed to save translations';
+            return { success: false, error };
+        }
+    }
+
+    /**
+     * Delete the translation catalog of one locale
+     */
+    async deleteTranslations(data: unknown, userId?: string): Promise<APIResponse<boolean>> {
+        const validation = await validateBody(DeleteTranslationsSchema, data);
+        if (!validation.success) {
+            return { success: false, error: validation.error };
+        }
+
+        try {
+            const { projectId, locale } = validation.data;
+            if (!PlatformDB.deleteTranslations(projectId, locale)) {
+                return { success: false, error: 'Translations not found' };
+            }
+
+            await auditLog({
+                action: AuditActions.TRANSLATIONS_DELETE,
+                userId,
+                resource: `project:${projectId}:translations:${locale}`,
+                success: true
+            });
+
+            return { success: true, data: true };
+        } catch (e: unknown) {
+            const error = e instanceof Error ? e.message : 'Failed to delete translations';
+            return { success: false, error };
+        }
+    }
+
+    /**
+     * Build manifests of the project's MFEs, with the size budget they are checked against
+     */
+    async listBuilds(data: unknown): Promise<APIResponse<ProjectBuilds>> {
+        const validation = await validateBody(ListBuildsSchema, data);
+        if (!validation.success) {
+            return { success: false, error: validation.error };
+        }
+
+        try {
+            const { projectId, component } = validation.data;
+            if (!PlatformDB.getProject(projectId)) {
+                return { success: false, error: 'Project not found' };
+            }
+
+            const budget = PlatformDB.getSizeBudget(projectId);
+            const distDir = path.join(FileSystem.getProjectDir(projectId), '..', 'dist');
+            return {
+                success: true,
+                data: {
+                    budget: budget ?? DEFAULT_SIZE_BUDGET,
+                    customBudget: budget !== null,
+                    builds: listManifests(distDir, component)
+                }
+            };
+        } catch (e: unknown) {
+            const error = e instanceof Error ? e.message : 'Failed to list builds';
+            return { success: false, error };
+        }
+    }
+
+    /**
+     * Set the bundle size budget of the project's MFEs
+     */
+    async saveSizeBudget(data: unknown, userId?: string): Promise<APIResponse<SizeBudget>> {
+        const validation = await validateBody(SaveSizeBudgetSchema, data);
+        if (!validation.success) {
+            return { success: false, error: validation.error };
+        }
+
+        const { projectId, budget } = validation.data;
+
+        try {
+            if (!PlatformDB.getProject(projectId)) {
+                return { success: false, error: 'Project not found' };
+            }
+
+            PlatformDB.setSizeBudget(projectId, budget);
+
+            await auditLog({
+                action: AuditActions.SIZE_BUDGET_SAVE,
+                userId,
+                resource: `project:${projectId}:size-budget`,
+                success: true
+            });
+
+            return { success: true, data: budget ?? DEFAULT_SIZE_BUDGET };
+        } catch (e: unknown) {
+            const error = e instanceof Error ? e.message : 'Failed to save size budget';
+            return { success: false, error };
+        }
+    }
+
     /**
      * List files in a project
      */
@@ -38,20 +38,23 @@ export interface Session {
     userAgent?: string;
 }
 
-export type Permission = 
-    | 'project:read'
-    | 'project:write'
-    | 'project:delete'
-    | 'mfe:read'
-    | 'mfe:write'
-    | 'mfe:delete'
-    | 'function:read'
-    | 'function:write'
-    | 'function:delete'
-    | 'release:read'
-    | 'release:write'
-    | 'release:deploy'
-    | 'admin:full';
+export const PERMISSIONS = [
+    'project:read',
+    'project:write',
+    'project:delete',
+    'mfe:read',
+    'mfe:write',
+    'mfe:delete',
+    'function:read',
+    'function:write',
+    'function:delete',
+    'release:read',
+    'release:write',
+    'release:deploy',
+    'admin:full'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
 
 export interface Role {
     name: string;
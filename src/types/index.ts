@@ -3,6 +3,8 @@
  * Centralized type definitions for the AI Development Platform
  */
 
+import type { Permission } from './auth';
+
 // ============================================================================
 // Database Types
 // ============================================================================
@@ -21,9 +23,15 @@ export interface Blueprint {
     ui_schema: string;
     data_schema: string;
     active: boolean;
+    status: 'draft' | 'published';
     created_at: string;
+    created_by?: string | null;
+    activated_by?: string | null;
+    activated_at?: string | null;
 }
 
+export type BlueprintVersion = Omit<Blueprint, 'ui_schema' | 'data_schema'>;
+
 export interface FunctionDef {
     id: string;
     project_id: string;
@@ -33,6 +41,27 @@ export interface FunctionDef {
     created_at: string;
 }
 
+export interface ProjectRoute extends RouteDefinition {
+    id: string;
+    project_id: string;
+    created_at: string;
+}
+
+/**
+ * Translation catalog of one locale; values are strings or nested groups
+ */
+export interface TranslationMessages {
+    [key: string]: string | TranslationMessages;
+}
+
+export interface TranslationCatalog {
+    project_id: string;
+    locale: string;
+    messages: TranslationMessages;
+    updated_by?: string | null;
+    updated_at: string;
+}
+
 // ============================================================================
 // AI Types
 // ============================================================================
@@ -76,6 +105,55 @@ export interface ToolExecutionContext {
 // MFE Types
 // ============================================================================
 
+/**
+ * Event payload schema (JSON Schema subset) declared in an MFE manifest
+ */
+export interface EventPayloadSchema {
+    type?: 'string' | 'number' | 'boolean' | 'object' | 'array' | 'null';
+    required?: string[];
+    properties?: Record<string, EventPayloadSchema>;
+    items?: EventPayloadSchema;
+    enum?: unknown[];
+}
+
+/**
+ * Configurable prop of an MFE (JSON Schema subset). Blueprint MFE nodes set
+ * it through `variables`; the page composer generates its forms from these.
+ */
+export interface MFEPropSchema {
+    type: 'string' | 'number' | 'boolean' | 'array' | 'object';
+    title?: string;
+    description?: string;
+    /** Allowed values, offered as a select */
+    enum?: Array<string | number>;
+    /** Input hint for strings */
+    format?: 'multiline' | 'color' | 'url';
+    minimum?: number;
+    maximum?: number;
+    required?: boolean;
+    default?: unknown;
+}
+
+/**
+ * What to render when an MFE fails to load or crashes: another MFE or static text
+ */
+export interface MFEFallback {
+    mfe?: string;
+    text?: string;
+}
+
+/**
+ * Client-side loading policy for an MFE
+ */
+export interface MFELoadPolicy {
+    /** Extra attempts after the first failed load (default 2) */
+    retries?: number;
+    /** Delay before the first retry, doubled on each attempt (default 500) */
+    retryDelayMs?: number;
+    /** Abort a load attempt after this long (default 10000) */
+    timeoutMs?: number;
+}
+
 export interface MFEConfig {
     name: string;
     source: string;
@@ -83,6 +161,20 @@ export interface MFEConfig {
     version: string;
     variables: Record<string, unknown>;
     dependencies?: Record<string, string>;
+    /** Events this MFE publishes, keyed by event name (without namespace) */
+    events?: Record<string, EventPayloadSchema>;
+    /** Props a blueprint may set through `variables`, keyed by prop name */
+    props?: Record<string, MFEPropSchema>;
+    /** Shared package versions the bundle was built against (see platform/import-map) */
+    shared?: Record<string, string>;
+    /** Stylesheet of the MFE, linked into its shadow root or the page (see platform/styles) */
+    styles?: string;
+    fallback?: MFEFallback;
+    loading?: MFELoadPolicy;
+    /** Render to HTML on the server and hydrate on the client (component-style platform bundles only, see platform/ssr) */
+    ssr?: boolean;
+    /** Who may open pages that render this MFE: routed to it, or placed in a slot or as a fallback */
+    access?: AccessRule;
     encapsulation?: 'shadow' | 'none';
     description?: string;
     active: boolean;
@@ -90,11 +182,74 @@ export interface MFEConfig {
     updatedAt: Date;
 }
 
+export interface RouteDefinition {
+    /** Path pattern, e.g. `/patients/:patientId/records/:recordId?` */
+    pattern: string;
+    mfe: string;
+    /** Higher priority routes are matched first (default 0) */
+    priority?: number;
+    variables?: Record<string, unknown>;
+    /** Maps query parameters to MFE variable names */
+    query?: Record<string, string>;
+    access?: AccessRule;
+}
+
+/**
+ * Who may open a generated page. Declaring a rule requires a signed-in user;
+ * any one of `roles` is enough, while every one of `permissions` must be granted.
+ */
+export interface AccessRule {
+    roles?: string[];
+    permissions?: Permission[];
+    /** Where anonymous visitors are sent to sign in (the page path is appended as `?next=`) */
+    redirect?: string;
+}
+
 export interface MFERegistry {
     mfes: Record<string, Omit<MFEConfig, 'name'>>;
+    routes?: RouteDefinition[];
     generatedAt: string;
 }
 
+/**
+ * Bundle size limits of a project's MFEs, on gzip sizes. Growth is the
+ * fraction a bundle grew by over the previous build of the same MFE.
+ */
+export interface SizeBudget {
+    warnBytes?: number;
+    maxBytes?: number;
+    warnGrowth?: number;
+    maxGrowth?: number;
+}
+
+export type BudgetStatus = 'ok' | 'warn' | 'fail';
+
+/**
+ * Record of one MFE build, stored next to its artifact (see platform/build-manifest)
+ */
+export interface BuildManifest {
+    component: string;
+    /** Content-hashed bundle file */
+    file: string;
+    builtAt: string;
+    durationMs: number;
+    size: { raw: number; gzip: number };
+    /** Stylesheet emitted with the bundle; budgets apply to the bundle only */
+    stylesheet?: { file: string; size: { raw: number; gzip: number } };
+    /** Modules the bundle imports at runtime through the import map */
+    imports: string[];
+    /** Bytes each package or project source contributes to the bundle, largest first */
+    modules: Array<{ name: string; bytes: number }>;
+    exports: string[];
+    warnings: string[];
+    budget: {
+        status: BudgetStatus;
+        messages: string[];
+        /** Gzip size of the previous build */
+        previousGzip?: number;
+    };
+}
+
 // ============================================================================
 // Fission Types
 // ============================================================================